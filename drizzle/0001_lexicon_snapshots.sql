@@ -0,0 +1,7 @@
+CREATE TABLE `lexiconSnapshots` (
+  `manifestCid` text PRIMARY KEY NOT NULL,
+  `manifestJson` text NOT NULL,
+  `capturedAt` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `lexicon_snapshots_captured_at_idx` ON `lexiconSnapshots` (`capturedAt`);
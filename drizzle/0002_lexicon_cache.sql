@@ -0,0 +1,7 @@
+ALTER TABLE `lexiconSnapshots` ADD `lastFetchedAt` integer;
+--> statement-breakpoint
+CREATE TABLE `lexiconSchemaCache` (
+  `cid` text PRIMARY KEY NOT NULL,
+  `content` text NOT NULL,
+  `cachedAt` integer NOT NULL
+);
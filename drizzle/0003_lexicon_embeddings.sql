@@ -0,0 +1,11 @@
+CREATE TABLE `lexiconEmbeddings` (
+  `id` integer PRIMARY KEY NOT NULL,
+  `manifestCid` text NOT NULL,
+  `className` text NOT NULL,
+  `propertyName` text,
+  `description` text NOT NULL,
+  `dataGroups` text NOT NULL,
+  `vector` F32_BLOB(1024) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `lexicon_embeddings_vector_idx` ON `lexiconEmbeddings` (libsql_vector_idx("vector"));
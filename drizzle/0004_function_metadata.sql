@@ -0,0 +1,9 @@
+ALTER TABLE `functions` ADD `kind` text DEFAULT 'function' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `functions` ADD `className` text;
+--> statement-breakpoint
+ALTER TABLE `functions` ADD `exported` integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `functions` ADD `startLine` integer;
+--> statement-breakpoint
+ALTER TABLE `functions` ADD `endLine` integer;
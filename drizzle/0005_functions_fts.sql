@@ -0,0 +1,21 @@
+CREATE VIRTUAL TABLE `functionsFts` USING fts5(
+  `name`,
+  `code`,
+  content = 'functions',
+  content_rowid = 'id'
+);
+--> statement-breakpoint
+CREATE TRIGGER `functions_fts_insert` AFTER INSERT ON `functions` BEGIN
+  INSERT INTO `functionsFts` (rowid, `name`, `code`) VALUES (new.`id`, new.`name`, new.`code`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `functions_fts_delete` AFTER DELETE ON `functions` BEGIN
+  INSERT INTO `functionsFts` (`functionsFts`, rowid, `name`, `code`) VALUES ('delete', old.`id`, old.`name`, old.`code`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `functions_fts_update` AFTER UPDATE ON `functions` BEGIN
+  INSERT INTO `functionsFts` (`functionsFts`, rowid, `name`, `code`) VALUES ('delete', old.`id`, old.`name`, old.`code`);
+  INSERT INTO `functionsFts` (rowid, `name`, `code`) VALUES (new.`id`, new.`name`, new.`code`);
+END;
+--> statement-breakpoint
+INSERT INTO `functionsFts` (`functionsFts`) VALUES ('rebuild');
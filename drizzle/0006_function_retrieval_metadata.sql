@@ -0,0 +1,9 @@
+ALTER TABLE `functions` ADD `county` text;
+--> statement-breakpoint
+ALTER TABLE `functions` ADD `fileRole` text;
+--> statement-breakpoint
+ALTER TABLE `functions` ADD `lexiconClasses` text DEFAULT '[]' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `functions` ADD `lastCommit` text;
+--> statement-breakpoint
+CREATE INDEX `functions_county_idx` ON `functions` (`county`);
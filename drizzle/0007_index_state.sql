@@ -0,0 +1,5 @@
+CREATE TABLE IF NOT EXISTS `indexState` (
+  `repoPath` text PRIMARY KEY NOT NULL,
+  `lastIndexedCommit` text NOT NULL,
+  `updatedAt` integer NOT NULL
+);
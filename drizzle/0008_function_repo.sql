@@ -0,0 +1,5 @@
+ALTER TABLE `functions` ADD `repo` text;
+--> statement-breakpoint
+UPDATE `functions` SET `repo` = 'elephant-xyz';
+--> statement-breakpoint
+CREATE INDEX `functions_repo_idx` ON `functions` (`repo`);
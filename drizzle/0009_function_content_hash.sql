@@ -0,0 +1,3 @@
+ALTER TABLE `functions` ADD `contentHash` text;
+--> statement-breakpoint
+CREATE INDEX `functions_content_hash_idx` ON `functions` (`contentHash`);
@@ -0,0 +1,3 @@
+ALTER TABLE `indexState` ADD `embeddingModel` text;
+--> statement-breakpoint
+ALTER TABLE `lexiconEmbeddings` ADD `embeddingModel` text;
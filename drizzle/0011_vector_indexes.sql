@@ -0,0 +1,19 @@
+CREATE TABLE `vectorIndexes` (
+  `id` integer PRIMARY KEY NOT NULL,
+  `kind` text NOT NULL,
+  `model` text NOT NULL,
+  `dimensions` integer NOT NULL,
+  `tableName` text NOT NULL,
+  `createdAt` integer NOT NULL,
+  `readyAt` integer
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `vector_indexes_kind_model_dimensions_idx` ON `vectorIndexes` (`kind`,`model`,`dimensions`);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `vector_indexes_table_name_idx` ON `vectorIndexes` (`tableName`);
+--> statement-breakpoint
+INSERT INTO `vectorIndexes` (`kind`, `model`, `dimensions`, `tableName`, `createdAt`, `readyAt`)
+VALUES ('functions', 'unknown', 1024, 'functionEmbeddings', unixepoch(), NULL);
+--> statement-breakpoint
+INSERT INTO `vectorIndexes` (`kind`, `model`, `dimensions`, `tableName`, `createdAt`, `readyAt`)
+VALUES ('lexicon', 'unknown', 1024, 'lexiconEmbeddings', unixepoch(), NULL);
@@ -77,6 +77,7 @@ export default defineNitroConfig({
       "@libsql/client",
       "tree-sitter",
       "tree-sitter-javascript",
+      "tree-sitter-typescript",
     ],
   },
 
@@ -0,0 +1,79 @@
+import { writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { initializeDatabase } from "../db/index.ts";
+import { setDbInstance } from "../db/connectionRef.ts";
+import { getDefaultDataDir } from "../lib/paths.ts";
+import { generateLexiconTypes } from "../tools/typegen.ts";
+
+export const GENERATE_TYPES_USAGE = `Usage: mcp generate-types (--class <name> | --data-group <name>) [--out <file>]
+
+Generates TypeScript interfaces and zod schemas from the Elephant lexicon.
+Writes to stdout unless --out is given.`;
+
+/**
+ * `mcp generate-types`: same output as the generateTypes tool, written to
+ * stdout or a file. Uses the local lexicon cache so it also works offline.
+ * Returns the process exit code.
+ */
+export async function runGenerateTypesCommand(args: string[]): Promise<number> {
+  let values: {
+    class?: string;
+    "data-group"?: string;
+    out?: string;
+    help?: boolean;
+  };
+  try {
+    ({ values } = parseArgs({
+      args,
+      options: {
+        class: { type: "string" },
+        "data-group": { type: "string" },
+        out: { type: "string", short: "o" },
+        help: { type: "boolean", short: "h" },
+      },
+      strict: true,
+    }));
+  } catch (error) {
+    process.stderr.write(
+      `${error instanceof Error ? error.message : String(error)}\n\n${GENERATE_TYPES_USAGE}\n`,
+    );
+    return 2;
+  }
+
+  if (values.help) {
+    process.stdout.write(`${GENERATE_TYPES_USAGE}\n`);
+    return 0;
+  }
+  if (Boolean(values.class) === Boolean(values["data-group"])) {
+    process.stderr.write(`${GENERATE_TYPES_USAGE}\n`);
+    return 2;
+  }
+
+  const dbPath = path.join(getDefaultDataDir(), "db", "elephant-mcp.sqlite");
+  const { db, client } = await initializeDatabase(dbPath);
+  setDbInstance(db);
+
+  try {
+    const generated = await generateLexiconTypes({
+      className: values.class,
+      groupName: values["data-group"],
+    });
+    if (values.out) {
+      await writeFile(values.out, generated.code, "utf8");
+      process.stderr.write(
+        `Wrote ${generated.classes.length} class(es) to ${values.out}\n`,
+      );
+    } else {
+      process.stdout.write(generated.code);
+    }
+    return 0;
+  } catch (error) {
+    process.stderr.write(
+      `${error instanceof Error ? error.message : String(error)}\n`,
+    );
+    return 1;
+  } finally {
+    client.close();
+  }
+}
@@ -31,6 +31,7 @@ describe("config", () => {
     delete process.env.OPENAI_API_KEY;
     delete process.env.AI_GATEWAY_API_KEY;
     delete process.env.VERCEL_OIDC_TOKEN;
+    delete process.env.EMBEDDING_PROVIDER;
     // Clear any cached config
     vi.clearAllMocks();
   });
@@ -225,6 +226,15 @@ describe("config", () => {
 
       expect(getEmbeddingProvider()).toBe("vercel-ai-gateway");
     });
+
+    it("should return local when selected, even with remote credentials", async () => {
+      process.env.EMBEDDING_PROVIDER = "local";
+      process.env.OPENAI_API_KEY = "sk-test-key";
+
+      const { getEmbeddingProvider } = await resetConfigModule();
+
+      expect(getEmbeddingProvider()).toBe("local");
+    });
   });
 
   describe("getEmbeddingProviderDescription", () => {
@@ -499,5 +509,152 @@ describe("config", () => {
       // AWS credentials should not even be checked
       expect(mockCredentialProvider).not.toHaveBeenCalled();
     });
+
+    it("should report the local provider without any credentials", async () => {
+      process.env.EMBEDDING_PROVIDER = "local";
+      vi.mocked(existsSync).mockReturnValue(false);
+
+      const { verifyEmbeddingProvider, hasEmbeddingProvider } =
+        await resetConfigModule();
+      const result = await verifyEmbeddingProvider();
+
+      expect(hasEmbeddingProvider()).toBe(true);
+      expect(result).toEqual({
+        available: true,
+        provider: "local",
+        source: "Local hashed n-gram model (EMBEDDING_PROVIDER=local)",
+      });
+      expect(mockCredentialProvider).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("lexicon source", () => {
+    it("defaults to the published manifest URL", async () => {
+      delete process.env.LEXICON_SOURCE;
+      const { getConfig } = await resetConfigModule();
+
+      expect(getConfig()).toMatchObject({
+        LEXICON_SOURCE: "url",
+        LEXICON_MANIFEST_URL:
+          "https://lexicon.elephant.xyz/json-schemas/schema-manifest.json",
+      });
+    });
+
+    it("rejects a local source without LEXICON_PATH", async () => {
+      process.env.LEXICON_SOURCE = "git";
+      delete process.env.LEXICON_PATH;
+      const exit = vi
+        .spyOn(process, "exit")
+        .mockImplementation((() => undefined) as never);
+      vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+      const { getConfig } = await resetConfigModule();
+      getConfig();
+
+      expect(exit).toHaveBeenCalledWith(1);
+      expect(String(vi.mocked(console.error).mock.calls[0][1])).toContain(
+        "LEXICON_PATH is required when LEXICON_SOURCE is 'git'",
+      );
+      vi.restoreAllMocks();
+    });
+  });
+
+  describe("openai-compatible embedding provider", () => {
+    async function configError(env: Record<string, string>) {
+      Object.assign(process.env, {
+        EMBEDDING_PROVIDER: "openai-compatible",
+        ...env,
+      });
+      const exit = vi
+        .spyOn(process, "exit")
+        .mockImplementation((() => undefined) as never);
+      vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+      const { getConfig } = await resetConfigModule();
+      getConfig();
+
+      expect(exit).toHaveBeenCalledWith(1);
+      const message = String(vi.mocked(console.error).mock.calls[0][1]);
+      vi.restoreAllMocks();
+      return message;
+    }
+
+    it("requires a base URL, model and dimension", async () => {
+      const message = await configError({});
+
+      expect(message).toContain(
+        "EMBEDDING_BASE_URL is required when EMBEDDING_PROVIDER is 'openai-compatible'",
+      );
+      expect(message).toContain("EMBEDDING_MODEL is required");
+      expect(message).toContain("EMBEDDING_DIMENSIONS is required");
+    });
+
+    it("selects the configured server", async () => {
+      process.env.EMBEDDING_PROVIDER = "openai-compatible";
+      process.env.EMBEDDING_BASE_URL = "http://localhost:11434/v1";
+      process.env.EMBEDDING_MODEL = "nomic-embed-text";
+      process.env.EMBEDDING_DIMENSIONS = "768";
+      process.env.OPENAI_API_KEY = "sk-test-key";
+
+      const { getEmbeddingProvider, hasEmbeddingProvider } =
+        await resetConfigModule();
+
+      expect(getEmbeddingProvider()).toBe("openai-compatible");
+      expect(hasEmbeddingProvider()).toBe(true);
+    });
+  });
+
+  describe("verified scripts repositories", () => {
+    it("defaults to the public county scripts repository", async () => {
+      delete process.env.VERIFIED_SCRIPTS_REPOS;
+      const { getConfig, DEFAULT_VERIFIED_SCRIPTS_REPO } =
+        await resetConfigModule();
+
+      expect(getConfig().VERIFIED_SCRIPTS_REPOS).toEqual([
+        DEFAULT_VERIFIED_SCRIPTS_REPO,
+      ]);
+    });
+
+    it("parses a JSON list of URL and local repositories", async () => {
+      process.env.VERIFIED_SCRIPTS_REPOS = JSON.stringify([
+        { label: "public", url: "https://github.com/org/scripts.git" },
+        { label: "private", path: "/srv/scripts", subdir: "counties" },
+      ]);
+      const { getConfig } = await resetConfigModule();
+
+      expect(getConfig().VERIFIED_SCRIPTS_REPOS).toEqual([
+        {
+          label: "public",
+          url: "https://github.com/org/scripts.git",
+          branch: "main",
+        },
+        {
+          label: "private",
+          path: "/srv/scripts",
+          subdir: "counties",
+          branch: "main",
+        },
+      ]);
+    });
+
+    it("rejects duplicate labels", async () => {
+      process.env.VERIFIED_SCRIPTS_REPOS = JSON.stringify([
+        { label: "a", url: "https://github.com/org/one.git" },
+        { label: "a", path: "/srv/two" },
+      ]);
+      const exit = vi
+        .spyOn(process, "exit")
+        .mockImplementation((() => undefined) as never);
+      vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+      const { getConfig } = await resetConfigModule();
+      getConfig();
+
+      expect(exit).toHaveBeenCalledWith(1);
+      expect(String(vi.mocked(console.error).mock.calls[0][1])).toContain(
+        "Duplicate repository label 'a'",
+      );
+      vi.restoreAllMocks();
+    });
   });
 });
@@ -4,9 +4,49 @@ import { homedir } from "node:os";
 import { join } from "node:path";
 import { fromNodeProviderChain } from "@aws-sdk/credential-providers";
 
-const configSchema = z.object({
+const verifiedScriptsRepoSchema = z
+  .object({
+    // Names the repository in search filters and its clone directory
+    label: z
+      .string()
+      .regex(
+        /^[A-Za-z0-9._-]+$/,
+        "label may only contain letters, digits, '.', '_' and '-'",
+      ),
+    url: z.string().min(1).optional(),
+    path: z.string().min(1).optional(),
+    // Branch to clone and pull; local paths are indexed as checked out
+    branch: z.string().min(1).default("main"),
+    // Directory inside the repository that holds the county folders
+    subdir: z.string().min(1).optional(),
+  })
+  .refine((repo) => Boolean(repo.url) !== Boolean(repo.path), {
+    message: "Each repository needs exactly one of url or path",
+  });
+
+export type VerifiedScriptsRepo = z.infer<typeof verifiedScriptsRepoSchema>;
+
+export const DEFAULT_VERIFIED_SCRIPTS_REPO = {
+  label: "elephant-xyz",
+  url: "https://github.com/elephant-xyz/Counties-trasform-scripts.git",
+  branch: "main",
+} satisfies VerifiedScriptsRepo;
+
+const baseConfigSchema = z.object({
   NODE_ENV: z.enum(["development", "production", "test"]).default("production"),
   LOG_LEVEL: z.enum(["error", "warn", "info", "debug"]).default("info"),
+  // "auto" picks OpenAI, Gateway or Bedrock from the available credentials;
+  // "local" embeds offline with a hashed n-gram model; "openai-compatible"
+  // calls a self-hosted server (vLLM, Ollama, LM Studio, TEI)
+  EMBEDDING_PROVIDER: z
+    .enum(["auto", "local", "openai-compatible"])
+    .default("auto"),
+  // OpenAI-compatible server settings; the base URL ends before /embeddings
+  EMBEDDING_BASE_URL: z.string().url().optional(),
+  EMBEDDING_MODEL: z.string().min(1).optional(),
+  EMBEDDING_API_KEY: z.string().min(1).optional(),
+  // Vector size the model returns
+  EMBEDDING_DIMENSIONS: z.coerce.number().int().positive().optional(),
   OPENAI_API_KEY: z.string().min(1).optional(),
   AI_GATEWAY_API_KEY: z.string().min(1).optional(),
   VERCEL_OIDC_TOKEN: z.string().min(1).optional(),
@@ -21,6 +61,82 @@ const configSchema = z.object({
   AWS_CONTAINER_CREDENTIALS_FULL_URI: z.string().min(1).optional(),
   // EC2 metadata service indicator
   AWS_EC2_METADATA_DISABLED: z.string().optional(),
+  // How long a cached lexicon manifest is served before asking the lexicon again
+  LEXICON_MANIFEST_TTL_SECONDS: z.coerce.number().int().min(0).default(3600),
+  // Download every schema in the manifest into the local cache at startup
+  LEXICON_PREFETCH: z
+    .enum(["true", "false"])
+    .default("true")
+    .transform((value) => value === "true"),
+  // Where the lexicon is read from: the published manifest URL, a local
+  // directory of JSON schemas, or a git repository at LEXICON_GIT_REF
+  LEXICON_SOURCE: z.enum(["url", "dir", "git"]).default("url"),
+  LEXICON_MANIFEST_URL: z
+    .string()
+    .url()
+    .default("https://lexicon.elephant.xyz/json-schemas/schema-manifest.json"),
+  LEXICON_PATH: z.string().min(1).optional(),
+  // Manifest location relative to LEXICON_PATH
+  LEXICON_MANIFEST_FILE: z.string().min(1).default("schema-manifest.json"),
+  LEXICON_GIT_REF: z.string().min(1).default("HEAD"),
+  LEXICON_FETCH_TIMEOUT_MS: z.coerce.number().int().positive().default(15000),
+  // Per-gateway timeout before the next IPFS gateway is tried
+  IPFS_GATEWAY_TIMEOUT_MS: z.coerce.number().int().positive().default(15000),
+  // JSON array of verified script repositories to index
+  VERIFIED_SCRIPTS_REPOS: z
+    .string()
+    .optional()
+    .transform((value, ctx) => {
+      if (!value) return [DEFAULT_VERIFIED_SCRIPTS_REPO];
+      try {
+        return JSON.parse(value) as unknown;
+      } catch {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "VERIFIED_SCRIPTS_REPOS must be a JSON array",
+        });
+        return z.NEVER;
+      }
+    })
+    .pipe(z.array(verifiedScriptsRepoSchema).min(1)),
+});
+
+const configSchema = baseConfigSchema.superRefine((value, ctx) => {
+  if (value.EMBEDDING_PROVIDER === "openai-compatible") {
+    for (const key of [
+      "EMBEDDING_BASE_URL",
+      "EMBEDDING_MODEL",
+      "EMBEDDING_DIMENSIONS",
+    ] as const) {
+      if (value[key] === undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [key],
+          message: `${key} is required when EMBEDDING_PROVIDER is 'openai-compatible'`,
+        });
+      }
+    }
+  }
+
+  if (value.LEXICON_SOURCE !== "url" && !value.LEXICON_PATH) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["LEXICON_PATH"],
+      message: `LEXICON_PATH is required when LEXICON_SOURCE is '${value.LEXICON_SOURCE}'`,
+    });
+  }
+
+  const labels = new Set<string>();
+  value.VERIFIED_SCRIPTS_REPOS.forEach((repo, index) => {
+    if (labels.has(repo.label)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["VERIFIED_SCRIPTS_REPOS", index, "label"],
+        message: `Duplicate repository label '${repo.label}'`,
+      });
+    }
+    labels.add(repo.label);
+  });
 });
 
 export type Config = z.infer<typeof configSchema>;
@@ -142,13 +258,21 @@ export async function verifyAwsCredentials(): Promise<{
 
 /**
  * Checks if at least one embedding provider is configured (sync, fast check).
- * Returns true if direct OpenAI, Vercel AI Gateway, or AWS credentials appear
- * to be available.
+ * Returns true if the local or an OpenAI-compatible provider is selected, or
+ * if direct OpenAI, Vercel AI Gateway, or AWS credentials appear to be
+ * available.
  * For actual validation, use verifyEmbeddingProvider().
  */
 export function hasEmbeddingProvider(): boolean {
   const cfg = getConfig();
 
+  if (
+    cfg.EMBEDDING_PROVIDER === "local" ||
+    cfg.EMBEDDING_PROVIDER === "openai-compatible"
+  ) {
+    return true;
+  }
+
   // OpenAI is available if API key is set
   if (cfg.OPENAI_API_KEY) {
     return true;
@@ -181,6 +305,23 @@ export async function verifyEmbeddingProvider(): Promise<{
 }> {
   const cfg = getConfig();
 
+  if (cfg.EMBEDDING_PROVIDER === "local") {
+    return {
+      available: true,
+      provider: "local",
+      source: "Local hashed n-gram model (EMBEDDING_PROVIDER=local)",
+    };
+  }
+
+  // Like OpenAI, the first request is the authoritative check
+  if (cfg.EMBEDDING_PROVIDER === "openai-compatible") {
+    return {
+      available: true,
+      provider: "openai-compatible",
+      source: `OpenAI-compatible server at ${cfg.EMBEDDING_BASE_URL}`,
+    };
+  }
+
   // OpenAI is available if API key is set (no async validation needed)
   if (cfg.OPENAI_API_KEY) {
     return {
@@ -215,17 +356,22 @@ export async function verifyEmbeddingProvider(): Promise<{
     available: false,
     error:
       awsResult.error ||
-      "No embedding provider configured. Set OPENAI_API_KEY, configure Vercel AI Gateway authentication, or configure AWS credentials.",
+      "No embedding provider configured. Set OPENAI_API_KEY, configure Vercel AI Gateway authentication, configure AWS credentials, or set EMBEDDING_PROVIDER=local.",
   };
 }
 
 export type EmbeddingProvider =
   | "openai"
   | "vercel-ai-gateway"
-  | "bedrock";
+  | "bedrock"
+  | "local"
+  | "openai-compatible";
 
 export function getEmbeddingProvider(): EmbeddingProvider {
   const cfg = getConfig();
+  if (cfg.EMBEDDING_PROVIDER !== "auto") {
+    return cfg.EMBEDDING_PROVIDER;
+  }
   // Prefer OpenAI if API key is explicitly provided
   if (cfg.OPENAI_API_KEY) {
     return "openai";
@@ -243,6 +389,14 @@ export function getEmbeddingProvider(): EmbeddingProvider {
 export function getEmbeddingProviderDescription(): string {
   const cfg = getConfig();
 
+  if (cfg.EMBEDDING_PROVIDER === "local") {
+    return "Local hashed n-gram model (EMBEDDING_PROVIDER=local)";
+  }
+
+  if (cfg.EMBEDDING_PROVIDER === "openai-compatible") {
+    return `OpenAI-compatible (${cfg.EMBEDDING_MODEL} at ${cfg.EMBEDDING_BASE_URL})`;
+  }
+
   if (cfg.OPENAI_API_KEY) {
     return "OpenAI (OPENAI_API_KEY)";
   }
@@ -1,20 +1,62 @@
 export {
   functionsTable,
-  functionEmbeddingsTable,
+  functionVectorsTable,
   indexStateTable,
+  lexiconSnapshotsTable,
+  lexiconSchemaCacheTable,
+  lexiconVectorsTable,
+  vectorIndexesTable,
 } from "./schema.js";
 export { initializeDatabase } from "./migrate.js";
 export {
   saveFunction,
   getFunctionById,
   getFunctionsByFilePath,
+  saveFunctionVectors,
+  listFunctionsMissingVectors,
+  listFunctionSources,
+  findEmbeddingsByContentHash,
   searchSimilar,
+  searchKeyword,
   deleteFunction,
+  deleteFunctionsOutsideRepos,
+  deleteFunctionsByFilePath,
+  moveFunctions,
+  listFunctionFilePaths,
   getIndexState,
+  listIndexStates,
+  deleteIndexStatesExcept,
   setIndexState,
+  saveLexiconSnapshot,
+  getLexiconSnapshot,
+  getLexiconSnapshotAt,
+  listLexiconSnapshots,
+  markLexiconSnapshotFetched,
+  getLastFetchedLexiconSnapshot,
+  getCachedLexiconSchema,
+  saveCachedLexiconSchema,
+  listCachedLexiconSchemaCids,
+  getLexiconEmbeddingsManifestCid,
+  replaceLexiconEmbeddings,
+  searchLexiconEmbeddings,
+  getVectorIndex,
+  listVectorIndexes,
+  ensureVectorIndex,
+  adoptLegacyVectorIndexes,
+  markVectorIndexReady,
 } from "./repository.js";
 export type {
   FunctionInput,
+  FunctionKind,
+  FunctionMetadata,
+  FunctionSearchFilters,
+  FunctionSource,
   FunctionWithChunks,
+  KeywordSearchResult,
+  LexiconEmbeddingInput,
+  LexiconSearchResult,
+  LexiconSnapshot,
+  VectorIndex,
+  VectorIndexKind,
   VectorSearchResult,
 } from "./types.js";
@@ -2,7 +2,11 @@ import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { unlinkSync, existsSync } from "node:fs";
 import { sql } from "drizzle-orm";
 import { initializeDatabase } from "./migrate.js";
-import { functionsTable, functionEmbeddingsTable } from "./schema.js";
+import {
+  functionsTable,
+  functionVectorsTable,
+  vectorIndexesTable,
+} from "./schema.js";
 
 type DatabaseClient = Awaited<ReturnType<typeof initializeDatabase>>["client"];
 
@@ -67,10 +71,20 @@ describe("initializeDatabase", () => {
           "__drizzle_migrations",
           "functionEmbeddings",
           "functions",
+          "functionsFts",
+          "indexState",
+          "lexiconSnapshots",
+          "lexiconSchemaCache",
+          "lexiconEmbeddings",
+          "vectorIndexes",
         ]),
       );
       expect(indexNames).toEqual(
-        expect.arrayContaining(["function_embeddings_vector_idx"]),
+        expect.arrayContaining([
+          "function_embeddings_vector_idx",
+          "lexicon_embeddings_vector_idx",
+          "vector_indexes_kind_model_dimensions_idx",
+        ]),
       );
     } finally {
       client?.close();
@@ -122,6 +136,36 @@ describe("initializeDatabase", () => {
     }
   });
 
+  it("registers the original vector tables as unready indexes", async () => {
+    let client: DatabaseClient | undefined;
+
+    try {
+      const { db, client: dbClient } = await initializeDatabase(testDbPath);
+      client = dbClient;
+
+      const indexes = await db.select().from(vectorIndexesTable);
+
+      expect(indexes).toMatchObject([
+        {
+          kind: "functions",
+          model: "unknown",
+          dimensions: 1024,
+          tableName: "functionEmbeddings",
+          readyAt: null,
+        },
+        {
+          kind: "lexicon",
+          model: "unknown",
+          dimensions: 1024,
+          tableName: "lexiconEmbeddings",
+          readyAt: null,
+        },
+      ]);
+    } finally {
+      client?.close();
+    }
+  });
+
   it("should support vector embeddings", async () => {
     let client: DatabaseClient | undefined;
 
@@ -147,6 +191,10 @@ describe("initializeDatabase", () => {
         (_, i) => (i % 100) / 100,
       );
 
+      const functionEmbeddingsTable = functionVectorsTable(
+        "functionEmbeddings",
+        1024,
+      );
       await db.run(
         sql`INSERT INTO ${functionEmbeddingsTable} (functionId, chunkIndex, vector) VALUES (${functionId}, ${0}, vector32(${JSON.stringify(testVector)}))`,
       );
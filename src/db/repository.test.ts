@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { initializeDatabase } from "./migrate.js";
 import { unlinkSync, existsSync } from "node:fs";
 import { join } from "node:path";
@@ -9,9 +9,29 @@ import {
   getFunctionById,
   getFunctionsByFilePath,
   searchSimilar,
+  searchKeyword,
   deleteFunction,
+  deleteFunctionsOutsideRepos,
+  deleteFunctionsByFilePath,
+  deleteIndexStatesExcept,
+  findEmbeddingsByContentHash,
+  listFunctionFilePaths,
+  moveFunctions,
+  listIndexStates,
+  setIndexState,
+  saveLexiconSnapshot,
+  getLexiconSnapshot,
+  getLexiconSnapshotAt,
+  listLexiconSnapshots,
+  adoptLegacyVectorIndexes,
+  ensureVectorIndex,
+  getVectorIndex,
+  listVectorIndexes,
+  listFunctionsMissingVectors,
+  markVectorIndexReady,
+  saveFunctionVectors,
 } from "./repository.js";
-import type { FunctionInput } from "./types.js";
+import type { FunctionInput, VectorIndex } from "./types.js";
 
 const VECTOR_DIMS = 1024;
 const createTestEmbedding = (): number[] => {
@@ -30,6 +50,7 @@ describe("repository", () => {
   let testDbPath: string;
   let db: Awaited<ReturnType<typeof initializeDatabase>>["db"];
   let client: Awaited<ReturnType<typeof initializeDatabase>>["client"];
+  let index: VectorIndex;
 
   beforeEach(async () => {
     testDbPath = join(
@@ -39,6 +60,7 @@ describe("repository", () => {
     const result = await initializeDatabase(testDbPath);
     db = result.db;
     client = result.client;
+    index = await ensureVectorIndex(db, "functions", "test-model", VECTOR_DIMS);
   });
 
   afterEach(() => {
@@ -57,7 +79,7 @@ describe("repository", () => {
         embeddings: [createTestEmbedding()],
       };
 
-      const result = await saveFunction(db, input);
+      const result = await saveFunction(db, index, input);
 
       expect(result.id).toBeGreaterThan(0);
       expect(result.name).toBe(input.name);
@@ -79,7 +101,7 @@ describe("repository", () => {
         ],
       };
 
-      const result = await saveFunction(db, input);
+      const result = await saveFunction(db, index, input);
 
       expect(result.embeddings).toHaveLength(3);
       expect(result.embeddings[0]).toEqual(input.embeddings[0]);
@@ -87,6 +109,41 @@ describe("repository", () => {
       expect(result.embeddings[2]).toEqual(input.embeddings[2]);
     });
 
+    it("should store function metadata and default it when omitted", async () => {
+      const method = await saveFunction(db, index, {
+        name: "normalize",
+        code: "normalize(value) { return value.trim(); }",
+        filePath: "/src/mapper.ts",
+        kind: "method",
+        className: "Mapper",
+        exported: true,
+        startLine: 3,
+        endLine: 5,
+        embeddings: [createTestEmbedding()],
+      });
+      const legacy = await saveFunction(db, index, {
+        name: "legacy",
+        code: "function legacy() {}",
+        filePath: "/src/mapper.ts",
+        embeddings: [createTestEmbedding()],
+      });
+
+      expect(await getFunctionById(db, method.id)).toMatchObject({
+        kind: "method",
+        className: "Mapper",
+        exported: true,
+        startLine: 3,
+        endLine: 5,
+      });
+      expect(await getFunctionById(db, legacy.id)).toMatchObject({
+        kind: "function",
+        className: null,
+        exported: false,
+        startLine: null,
+        endLine: null,
+      });
+    });
+
     it("should throw error for empty name", async () => {
       const input: FunctionInput = {
         name: "",
@@ -95,7 +152,7 @@ describe("repository", () => {
         embeddings: [createTestEmbedding()],
       };
 
-      await expect(saveFunction(db, input)).rejects.toThrow(
+      await expect(saveFunction(db, index, input)).rejects.toThrow(
         "Function name is required",
       );
     });
@@ -108,7 +165,7 @@ describe("repository", () => {
         embeddings: [createTestEmbedding()],
       };
 
-      await expect(saveFunction(db, input)).rejects.toThrow(
+      await expect(saveFunction(db, index, input)).rejects.toThrow(
         "Function code is required",
       );
     });
@@ -121,7 +178,7 @@ describe("repository", () => {
         embeddings: [createTestEmbedding()],
       };
 
-      await expect(saveFunction(db, input)).rejects.toThrow(
+      await expect(saveFunction(db, index, input)).rejects.toThrow(
         "Function filePath is required",
       );
     });
@@ -134,7 +191,7 @@ describe("repository", () => {
         embeddings: [],
       };
 
-      await expect(saveFunction(db, input)).rejects.toThrow(
+      await expect(saveFunction(db, index, input)).rejects.toThrow(
         "At least one embedding is required",
       );
     });
@@ -147,7 +204,7 @@ describe("repository", () => {
         embeddings: [[]],
       };
 
-      await expect(saveFunction(db, input)).rejects.toThrow(
+      await expect(saveFunction(db, index, input)).rejects.toThrow(
         `Each embedding must be an array of length ${VECTOR_DIMS}`,
       );
     });
@@ -164,7 +221,7 @@ describe("repository", () => {
         ],
       };
 
-      await expect(saveFunction(db, input)).rejects.toThrow(
+      await expect(saveFunction(db, index, input)).rejects.toThrow(
         "Each embedding must only contain numbers",
       );
     });
@@ -179,8 +236,8 @@ describe("repository", () => {
         embeddings: [createTestEmbedding(), createTestEmbedding2()],
       };
 
-      const saved = await saveFunction(db, input);
-      const retrieved = await getFunctionById(db, saved.id);
+      const saved = await saveFunction(db, index, input);
+      const retrieved = await getFunctionById(db, saved.id, index);
 
       expect(retrieved).not.toBeNull();
       expect(retrieved?.id).toBe(saved.id);
@@ -223,8 +280,8 @@ describe("repository", () => {
         ],
       };
 
-      const saved = await saveFunction(db, input);
-      const retrieved = await getFunctionById(db, saved.id);
+      const saved = await saveFunction(db, index, input);
+      const retrieved = await getFunctionById(db, saved.id, index);
 
       retrieved?.embeddings[0]?.forEach((val, idx) => {
         expect(val).toBeCloseTo(input.embeddings[0]![idx]!, 5);
@@ -242,21 +299,21 @@ describe("repository", () => {
     it("should retrieve all functions from a file", async () => {
       const filePath = "/src/utils.ts";
 
-      await saveFunction(db, {
+      await saveFunction(db, index, {
         name: "function1",
         code: "function f1() {}",
         filePath,
         embeddings: [createTestEmbedding()],
       });
 
-      await saveFunction(db, {
+      await saveFunction(db, index, {
         name: "function2",
         code: "function f2() {}",
         filePath,
         embeddings: [createTestEmbedding2()],
       });
 
-      await saveFunction(db, {
+      await saveFunction(db, index, {
         name: "otherFunction",
         code: "function other() {}",
         filePath: "/src/other.ts",
@@ -282,34 +339,87 @@ describe("repository", () => {
     });
   });
 
+  describe("searchKeyword", () => {
+    it("matches identifiers and selectors in code and ranks names higher", async () => {
+      await saveFunction(db, index, {
+        name: "mapOwner",
+        code: 'function mapOwner($) { return $("#ctl00_owner").text(); }',
+        filePath: "/src/owner.js",
+        embeddings: [createTestEmbedding()],
+      });
+      await saveFunction(db, index, {
+        name: "parcelIdentifier",
+        code: "function parcelIdentifier(row) { return row.id; }",
+        filePath: "/src/parcel.js",
+        embeddings: [createTestEmbedding()],
+      });
+      await saveFunction(db, index, {
+        name: "mapParcel",
+        code: "function mapParcel(row) { return { parcel_identifier: row.id, parcelidentifier: 1 }; }",
+        filePath: "/src/parcel.js",
+        embeddings: [createTestEmbedding()],
+      });
+
+      const selector = await searchKeyword(db, "#ctl00_owner", 5);
+      expect(selector.map((r) => r.functionWithChunks.name)).toEqual([
+        "mapOwner",
+      ]);
+      expect(selector[0].score).toBeGreaterThan(0);
+
+      const field = await searchKeyword(db, "parcel_identifier", 5);
+      expect(field.map((r) => r.functionWithChunks.name)).toEqual([
+        "mapParcel",
+      ]);
+
+      const both = await searchKeyword(db, "parcelidentifier", 5);
+      expect(both.map((r) => r.functionWithChunks.name)).toEqual([
+        "parcelIdentifier",
+        "mapParcel",
+      ]);
+    });
+
+    it("stops matching deleted functions and ignores empty queries", async () => {
+      const saved = await saveFunction(db, index, {
+        name: "gone",
+        code: "function gone() {}",
+        filePath: "/src/gone.js",
+        embeddings: [createTestEmbedding()],
+      });
+      await deleteFunction(db, saved.id);
+
+      expect(await searchKeyword(db, "gone", 5)).toEqual([]);
+      expect(await searchKeyword(db, '" #', 5)).toEqual([]);
+    });
+  });
+
   describe("searchSimilar", () => {
     it("should find similar embeddings", async () => {
       const emb1 = createTestEmbedding();
       const emb2 = createTestEmbedding2();
       const emb3 = createTestEmbedding3();
 
-      await saveFunction(db, {
+      await saveFunction(db, index, {
         name: "function1",
         code: "function f1() {}",
         filePath: "/src/f1.ts",
         embeddings: [emb1],
       });
 
-      await saveFunction(db, {
+      await saveFunction(db, index, {
         name: "function2",
         code: "function f2() {}",
         filePath: "/src/f2.ts",
         embeddings: [emb2],
       });
 
-      await saveFunction(db, {
+      await saveFunction(db, index, {
         name: "function3",
         code: "function f3() {}",
         filePath: "/src/f3.ts",
         embeddings: [emb3],
       });
 
-      const results = await searchSimilar(db, emb1, 2);
+      const results = await searchSimilar(db, index, emb1, 2);
 
       expect(results).toHaveLength(2);
       expect(results[0]?.functionWithChunks.name).toBe("function1");
@@ -317,9 +427,79 @@ describe("repository", () => {
       expect(typeof results[0]?.distance).toBe("number");
     });
 
+    it("should apply metadata filters inside the query", async () => {
+      const emb = createTestEmbedding();
+      await saveFunction(db, index, {
+        name: "leeOwner",
+        code: 'function leeOwner() { return "person"; }',
+        filePath: "/repo/Lee/scripts/owner_mapping.js",
+        county: "Lee",
+        fileRole: "owner-mapping",
+        lexiconClasses: ["person"],
+        embeddings: [emb],
+      });
+      await saveFunction(db, index, {
+        name: "browardOwner",
+        code: 'function browardOwner() { return ["company", "person"]; }',
+        filePath: "/repo/Broward/scripts/owner_mapping.js",
+        county: "Broward",
+        fileRole: "owner-mapping",
+        lexiconClasses: ["company", "person"],
+        embeddings: [createTestEmbedding2()],
+      });
+      await saveFunction(db, index, {
+        name: "leeExtract",
+        code: "function leeExtract() {}",
+        filePath: "/repo/Lee/scripts/data_extractor.js",
+        county: "Lee",
+        fileRole: "extractor",
+        embeddings: [createTestEmbedding3()],
+      });
+
+      const names = (results: { functionWithChunks: { name: string } }[]) =>
+        results.map((r) => r.functionWithChunks.name).sort();
+
+      expect(
+        names(await searchSimilar(db, index, emb, 10, { county: "lee" })),
+      ).toEqual(["leeExtract", "leeOwner"]);
+      expect(
+        names(
+          await searchSimilar(db, index, emb, 10, { className: "Company" }),
+        ),
+      ).toEqual(["browardOwner"]);
+      expect(
+        names(
+          await searchSimilar(db, index, emb, 10, {
+            county: "Lee",
+            fileGlob: "*owner_mapping.js",
+          }),
+        ),
+      ).toEqual(["leeOwner"]);
+      expect(
+        names(
+          await searchSimilar(db, index, emb, 10, { fileRole: "extractor" }),
+        ),
+      ).toEqual(["leeExtract"]);
+      expect(
+        names(await searchKeyword(db, "person", 10, { county: "Broward" })),
+      ).toEqual(["browardOwner"]);
+
+      const [stored] = await searchSimilar(db, index, emb, 1, {
+        county: "Lee",
+      });
+      expect(stored?.functionWithChunks).toMatchObject({
+        county: "Lee",
+        fileRole: "owner-mapping",
+        lexiconClasses: ["person"],
+        lastCommit: null,
+        repo: null,
+        contentHash: null,
+      });
+    });
+
     it("should respect topK limit", async () => {
       for (let i = 0; i < 5; i++) {
-        await saveFunction(db, {
+        await saveFunction(db, index, {
           name: `function${i}`,
           code: `function f${i}() {}`,
           filePath: `/src/f${i}.ts`,
@@ -327,13 +507,13 @@ describe("repository", () => {
         });
       }
 
-      const results = await searchSimilar(db, createTestEmbedding(), 3);
+      const results = await searchSimilar(db, index, createTestEmbedding(), 3);
 
       expect(results).toHaveLength(3);
     });
 
     it("should throw error for empty embedding", async () => {
-      await expect(searchSimilar(db, [], 5)).rejects.toThrow(
+      await expect(searchSimilar(db, index, [], 5)).rejects.toThrow(
         `Embedding must be an array of length ${VECTOR_DIMS}`,
       );
     });
@@ -342,6 +522,7 @@ describe("repository", () => {
       await expect(
         searchSimilar(
           db,
+          index,
           Array.from({ length: VECTOR_DIMS }, (_, index) =>
             index === 0 ? NaN : index / VECTOR_DIMS,
           ),
@@ -351,19 +532,19 @@ describe("repository", () => {
     });
 
     it("should throw error for invalid topK", async () => {
-      await expect(searchSimilar(db, createTestEmbedding(), 0)).rejects.toThrow(
-        "topK must be a positive integer",
-      );
+      await expect(
+        searchSimilar(db, index, createTestEmbedding(), 0),
+      ).rejects.toThrow("topK must be a positive integer");
 
       await expect(
-        searchSimilar(db, createTestEmbedding(), -1),
+        searchSimilar(db, index, createTestEmbedding(), -1),
       ).rejects.toThrow("topK must be a positive integer");
     });
   });
 
   describe("deleteFunction", () => {
     it("should delete function and its embeddings", async () => {
-      const saved = await saveFunction(db, {
+      const saved = await saveFunction(db, index, {
         name: "testFunction",
         code: "function test() {}",
         filePath: "/src/test.ts",
@@ -390,6 +571,273 @@ describe("repository", () => {
     });
   });
 
+  describe("findEmbeddingsByContentHash", () => {
+    it("returns the stored chunks of a function with the same hash", async () => {
+      await saveFunction(db, index, {
+        name: "chunked",
+        code: "function chunked() {}",
+        filePath: "/repo/a.js",
+        contentHash: "hash-1",
+        embeddings: [createTestEmbedding(), createTestEmbedding2()],
+      });
+
+      const embeddings = await findEmbeddingsByContentHash(db, index, "hash-1");
+
+      expect(embeddings).toHaveLength(2);
+      expect(embeddings?.[1][0]).toBeCloseTo(createTestEmbedding2()[0]);
+      expect(await findEmbeddingsByContentHash(db, index, "hash-2")).toBeNull();
+    });
+  });
+
+  describe("renamed and deleted files", () => {
+    it("moves functions to a new path keeping their embeddings", async () => {
+      const saved = await saveFunction(db, index, {
+        name: "mapOwners",
+        code: "function mapOwners() {}",
+        filePath: "/repo/owners.js",
+        repo: "public",
+        embeddings: [createTestEmbedding()],
+      });
+
+      const moved = await moveFunctions(
+        db,
+        "/repo/owners.js",
+        "/repo/Lee/owner_mapping.js",
+        { county: "Lee", fileRole: "owner-mapping" },
+      );
+
+      expect(moved).toBe(1);
+      expect(await getFunctionById(db, saved.id, index)).toMatchObject({
+        filePath: "/repo/Lee/owner_mapping.js",
+        county: "Lee",
+        fileRole: "owner-mapping",
+        embeddings: [expect.any(Array)],
+      });
+      expect(
+        (await searchKeyword(db, "mapOwners", 5)).map(
+          (r) => r.functionWithChunks.filePath,
+        ),
+      ).toEqual(["/repo/Lee/owner_mapping.js"]);
+      expect(await listFunctionFilePaths(db, "public")).toEqual([
+        "/repo/Lee/owner_mapping.js",
+      ]);
+    });
+
+    it("deletes every function of a file", async () => {
+      for (const name of ["a", "b"]) {
+        await saveFunction(db, index, {
+          name,
+          code: `function ${name}() {}`,
+          filePath: "/repo/gone.js",
+          embeddings: [createTestEmbedding()],
+        });
+      }
+
+      expect(await deleteFunctionsByFilePath(db, "/repo/gone.js")).toBe(2);
+      expect(await getFunctionsByFilePath(db, "/repo/gone.js")).toEqual([]);
+      expect(await searchKeyword(db, "function", 5)).toEqual([]);
+    });
+  });
+
+  describe("deleteFunctionsOutsideRepos", () => {
+    it("purges unconfigured and unlabelled repositories", async () => {
+      const save = (name: string, repo?: string) =>
+        saveFunction(db, index, {
+          name,
+          code: `function ${name}() {}`,
+          filePath: `/repos/${repo ?? "legacy"}/${name}.js`,
+          repo,
+          embeddings: [createTestEmbedding()],
+        });
+      const kept = await save("kept", "public");
+      const removed = await save("removed", "private");
+      const legacy = await save("legacy");
+
+      expect(await deleteFunctionsOutsideRepos(db, ["public"])).toBe(2);
+
+      expect(await getFunctionById(db, kept.id)).not.toBeNull();
+      expect(await getFunctionById(db, removed.id)).toBeNull();
+      expect(await getFunctionById(db, legacy.id)).toBeNull();
+      expect(
+        (await searchSimilar(db, index, createTestEmbedding(), 10)).map(
+          (r) => r.functionWithChunks.name,
+        ),
+      ).toEqual(["kept"]);
+      expect(
+        await searchSimilar(db, index, createTestEmbedding(), 10, {
+          repo: "private",
+        }),
+      ).toEqual([]);
+    });
+  });
+
+  describe("vector indexes", () => {
+    const smallEmbedding = (offset = 0): number[] =>
+      Array.from({ length: 768 }, (_, i) => ((i + offset) % 100) / 100);
+
+    it("stores vectors of another dimension in their own table", async () => {
+      const saved = await saveFunction(db, index, {
+        name: "owner",
+        code: "function owner() {}",
+        filePath: "/repo/owner.js",
+        repo: "public",
+        embeddings: [createTestEmbedding()],
+      });
+      const small = await ensureVectorIndex(db, "functions", "small", 768);
+
+      expect(small.tableName).not.toBe(index.tableName);
+      expect(
+        (await listFunctionsMissingVectors(db, small, "public")).map(
+          (f) => f.id,
+        ),
+      ).toEqual([saved.id]);
+
+      await saveFunctionVectors(db, small, saved.id, [smallEmbedding()]);
+
+      expect(await listFunctionsMissingVectors(db, small)).toEqual([]);
+      const [hit] = await searchSimilar(db, small, smallEmbedding(), 1);
+      expect(hit?.functionWithChunks.name).toBe("owner");
+      expect(hit?.functionWithChunks.embeddings[0]).toHaveLength(768);
+      expect(
+        (await getFunctionById(db, saved.id, index))?.embeddings[0],
+      ).toHaveLength(VECTOR_DIMS);
+      await expect(
+        saveFunctionVectors(db, small, saved.id, [createTestEmbedding()]),
+      ).rejects.toThrow("Each embedding must be an array of length 768");
+    });
+
+    it("keeps the previous index until the new one is ready", async () => {
+      const saved = await saveFunction(db, index, {
+        name: "owner",
+        code: "function owner() {}",
+        filePath: "/repo/owner.js",
+        embeddings: [createTestEmbedding()],
+      });
+      const small = await ensureVectorIndex(db, "functions", "small", 768);
+      await saveFunctionVectors(db, small, saved.id, [smallEmbedding()]);
+
+      // "unknown" is the original table, registered unready by the migration
+      expect(
+        (await listVectorIndexes(db, "functions")).map((i) => i.model),
+      ).toEqual(["unknown", "test-model", "small"]);
+      expect(
+        await searchSimilar(db, index, createTestEmbedding(), 1),
+      ).toHaveLength(1);
+
+      const dropped = await markVectorIndexReady(db, small);
+
+      expect(dropped.map((i) => i.model)).toEqual(["unknown", "test-model"]);
+      expect(
+        await getVectorIndex(db, "functions", "test-model", VECTOR_DIMS),
+      ).toBeNull();
+      expect(
+        (await getVectorIndex(db, "functions", "small", 768))?.readyAt,
+      ).not.toBeNull();
+      await expect(
+        client.execute(`SELECT count(*) FROM ${index.tableName}`),
+      ).rejects.toThrow(/no such table/);
+    });
+
+    it("adopts pre-registry vectors only when recorded for the active model", async () => {
+      const unknown = async () =>
+        (await listVectorIndexes(db)).filter((i) => i.model === "unknown");
+      // The migration never marks the legacy tables ready
+      expect((await unknown()).map((i) => i.readyAt)).toEqual([null, null]);
+
+      await setIndexState(db, "/repo", "abc123", "text-embedding-3-small");
+      expect(
+        await adoptLegacyVectorIndexes(
+          db,
+          "text-embedding-3-small",
+          VECTOR_DIMS,
+        ),
+      ).toEqual([]);
+
+      await client.execute({
+        sql: "INSERT INTO functionEmbeddings (functionId, chunkIndex, vector) VALUES (1, 0, vector32(?))",
+        args: [JSON.stringify(createTestEmbedding())],
+      });
+      await client.execute({
+        sql: "INSERT INTO lexiconEmbeddings (manifestCid, className, description, dataGroups, vector) VALUES ('cid', 'address', 'Address', '[]', vector32(?))",
+        args: [JSON.stringify(createTestEmbedding())],
+      });
+
+      // Same dimension, other model: both would share one index otherwise
+      expect(
+        await adoptLegacyVectorIndexes(
+          db,
+          "amazon.titan-embed-text-v2:0",
+          VECTOR_DIMS,
+        ),
+      ).toEqual([]);
+      expect(
+        await adoptLegacyVectorIndexes(db, "text-embedding-3-small", 768),
+      ).toEqual([]);
+
+      const adopted = await adoptLegacyVectorIndexes(
+        db,
+        "text-embedding-3-small",
+        VECTOR_DIMS,
+      );
+
+      // The lexicon rows carry no model, so they are re-embedded
+      expect(adopted.map((i) => [i.kind, i.tableName])).toEqual([
+        ["functions", "functionEmbeddings"],
+      ]);
+      const legacy = await getVectorIndex(
+        db,
+        "functions",
+        "text-embedding-3-small",
+        VECTOR_DIMS,
+      );
+      expect(legacy?.tableName).toBe("functionEmbeddings");
+      expect(legacy?.readyAt).not.toBeNull();
+      expect(
+        await ensureVectorIndex(
+          db,
+          "functions",
+          "text-embedding-3-small",
+          VECTOR_DIMS,
+        ),
+      ).toEqual(legacy);
+      expect((await unknown()).map((i) => [i.kind, i.readyAt])).toEqual([
+        ["lexicon", null],
+      ]);
+    });
+
+    it("deletes a function's vectors from every index", async () => {
+      const saved = await saveFunction(db, index, {
+        name: "owner",
+        code: "function owner() {}",
+        filePath: "/repo/owner.js",
+        embeddings: [createTestEmbedding()],
+      });
+      const small = await ensureVectorIndex(db, "functions", "small", 768);
+      await saveFunctionVectors(db, small, saved.id, [smallEmbedding()]);
+
+      await deleteFunctionsByFilePath(db, "/repo/owner.js");
+
+      expect(await searchSimilar(db, small, smallEmbedding(), 5)).toEqual([]);
+      expect(
+        (await client.execute(`SELECT count(*) AS n FROM ${small.tableName}`))
+          .rows[0]?.n,
+      ).toBe(0);
+    });
+  });
+
+  describe("index state", () => {
+    it("forgets repositories that are no longer configured", async () => {
+      await setIndexState(db, "/repos/public", "abc");
+      await setIndexState(db, "/repos/private", "def");
+
+      await deleteIndexStatesExcept(db, ["/repos/public"]);
+
+      expect(await listIndexStates(db)).toMatchObject([
+        { repoPath: "/repos/public", lastIndexedCommit: "abc" },
+      ]);
+    });
+  });
+
   describe("transaction rollback", () => {
     it("should rollback on error during save", async () => {
       const invalidInput = {
@@ -399,10 +847,53 @@ describe("repository", () => {
         embeddings: [createTestEmbedding(), []],
       };
 
-      await expect(saveFunction(db, invalidInput)).rejects.toThrow();
+      await expect(saveFunction(db, index, invalidInput)).rejects.toThrow();
 
       const results = await getFunctionsByFilePath(db, "/src/test.ts");
       expect(results).toHaveLength(0);
     });
   });
+
+  describe("lexicon snapshots", () => {
+    const manifest = {
+      Address: { ipfsCid: "bafy-address", type: "class" },
+    };
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("keeps the first capture time for a repeated CID", async () => {
+      vi.spyOn(Date, "now").mockReturnValue(1_000_000);
+      const first = await saveLexiconSnapshot(db, "QmA", manifest);
+
+      vi.spyOn(Date, "now").mockReturnValue(2_000_000);
+      const again = await saveLexiconSnapshot(db, "QmA", manifest);
+
+      expect(first.capturedAt).toBe(1000);
+      expect(again.capturedAt).toBe(1000);
+      expect(again.manifest).toEqual(manifest);
+      expect(await listLexiconSnapshots(db)).toHaveLength(1);
+    });
+
+    it("finds the latest snapshot at or before a time", async () => {
+      vi.spyOn(Date, "now").mockReturnValue(1_000_000);
+      await saveLexiconSnapshot(db, "QmA", manifest);
+      vi.spyOn(Date, "now").mockReturnValue(5_000_000);
+      await saveLexiconSnapshot(db, "QmB", {});
+
+      expect(
+        (await getLexiconSnapshotAt(db, 999))?.manifestCid,
+      ).toBeUndefined();
+      expect((await getLexiconSnapshotAt(db, 4000))?.manifestCid).toBe("QmA");
+      expect((await getLexiconSnapshotAt(db, 5000))?.manifestCid).toBe("QmB");
+      expect(await getLexiconSnapshot(db, "missing")).toBeNull();
+    });
+
+    it("rejects an empty CID", async () => {
+      await expect(saveLexiconSnapshot(db, " ", manifest)).rejects.toThrow(
+        "manifestCid is required",
+      );
+    });
+  });
 });
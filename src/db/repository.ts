@@ -1,22 +1,157 @@
+import { createHash } from "node:crypto";
 import type { LibSQLDatabase } from "drizzle-orm/libsql";
-import { eq, sql } from "drizzle-orm";
+import {
+  and,
+  desc,
+  eq,
+  inArray,
+  isNotNull,
+  isNull,
+  lte,
+  notInArray,
+  or,
+  sql,
+  type SQL,
+} from "drizzle-orm";
 import {
   functionsTable,
-  functionEmbeddingsTable,
+  functionVectorsTable,
   indexStateTable,
+  lexiconSnapshotsTable,
+  lexiconSchemaCacheTable,
+  lexiconVectorsTable,
+  vectorIndexesTable,
 } from "./schema.js";
 import type {
   FunctionInput,
+  FunctionKind,
+  FunctionMetadata,
+  FunctionSearchFilters,
+  FunctionSource,
   FunctionWithChunks,
+  KeywordSearchResult,
+  LexiconEmbeddingInput,
+  LexiconSearchResult,
+  LexiconSnapshot,
+  VectorIndex,
+  VectorIndexKind,
   VectorSearchResult,
 } from "./types.js";
 
-const EMBEDDING_DIMENSION = 1024;
+function parseStringArray(json: string): string[] {
+  try {
+    const value: unknown = JSON.parse(json);
+    return Array.isArray(value)
+      ? value.filter((item): item is string => typeof item === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function toFunctionMetadata(
+  row: typeof functionsTable.$inferSelect,
+): FunctionMetadata {
+  return {
+    kind: row.kind as FunctionKind,
+    className: row.className,
+    exported: row.exported,
+    startLine: row.startLine,
+    endLine: row.endLine,
+    county: row.county,
+    fileRole: row.fileRole,
+    lexiconClasses: parseStringArray(row.lexiconClasses),
+    lastCommit: row.lastCommit,
+    repo: row.repo,
+    contentHash: row.contentHash,
+  };
+}
+
+/** SQL conditions on the `functions` row aliased as `f`. */
+function filterConditions(filters: FunctionSearchFilters): SQL[] {
+  const conditions: SQL[] = [];
+  if (filters.county) {
+    conditions.push(sql`f.county = ${filters.county} COLLATE NOCASE`);
+  }
+  if (filters.fileRole) {
+    conditions.push(sql`f.fileRole = ${filters.fileRole}`);
+  }
+  if (filters.className) {
+    conditions.push(
+      sql`EXISTS (SELECT 1 FROM json_each(f.lexiconClasses) WHERE json_each.value = ${filters.className.trim()} COLLATE NOCASE)`,
+    );
+  }
+  if (filters.repo) {
+    conditions.push(sql`f.repo = ${filters.repo}`);
+  }
+  if (filters.fileGlob) {
+    conditions.push(sql`f.filePath GLOB ${`*${filters.fileGlob}`}`);
+  }
+  return conditions;
+}
+
+function whereClause(conditions: SQL[]): SQL {
+  return conditions.length > 0
+    ? sql`WHERE ${sql.join(conditions, sql` AND `)}`
+    : sql``;
+}
+
+function assertIndexKind(index: VectorIndex, kind: VectorIndexKind): void {
+  if (index.kind !== kind) {
+    throw new Error(`Expected a ${kind} vector index, got ${index.kind}`);
+  }
+}
+
+function assertEmbedding(
+  embedding: unknown,
+  dimensions: number,
+  subject: string,
+): asserts embedding is number[] {
+  if (!Array.isArray(embedding) || embedding.length !== dimensions) {
+    throw new Error(`${subject} must be an array of length ${dimensions}`);
+  }
+  if (
+    embedding.some((value) => typeof value !== "number" || Number.isNaN(value))
+  ) {
+    throw new Error(`${subject} must only contain numbers`);
+  }
+}
+
+function vectorsOf(index: VectorIndex) {
+  return functionVectorsTable(index.tableName, index.dimensions);
+}
+
+/** Chunk vectors of `functionIds` in `index`, in chunk order per function. */
+async function loadChunkVectors(
+  db: LibSQLDatabase,
+  index: VectorIndex | undefined,
+  functionIds: number[],
+): Promise<Map<number, number[][]>> {
+  const byFunctionId = new Map<number, number[][]>();
+  if (!index || functionIds.length === 0) return byFunctionId;
+
+  const vectors = vectorsOf(index);
+  const chunks = await db
+    .select()
+    .from(vectors)
+    .where(inArray(vectors.functionId, functionIds))
+    .orderBy(vectors.functionId, vectors.chunkIndex);
+  for (const chunk of chunks) {
+    const list = byFunctionId.get(chunk.functionId) ?? [];
+    list.push(chunk.embedding);
+    byFunctionId.set(chunk.functionId, list);
+  }
+  return byFunctionId;
+}
 
+/** Saves a function with its chunk vectors in `index`. */
 export async function saveFunction(
   db: LibSQLDatabase,
+  index: VectorIndex,
   input: FunctionInput,
 ): Promise<FunctionWithChunks> {
+  assertIndexKind(index, "functions");
+
   if (!input.name || input.name.trim().length === 0) {
     throw new Error("Function name is required");
   }
@@ -34,19 +169,7 @@ export async function saveFunction(
   }
 
   for (const embedding of input.embeddings) {
-    if (!Array.isArray(embedding) || embedding.length !== EMBEDDING_DIMENSION) {
-      throw new Error(
-        `Each embedding must be an array of length ${EMBEDDING_DIMENSION}`,
-      );
-    }
-
-    if (
-      embedding.some(
-        (value) => typeof value !== "number" || Number.isNaN(value),
-      )
-    ) {
-      throw new Error("Each embedding must only contain numbers");
-    }
+    assertEmbedding(embedding, index.dimensions, "Each embedding");
   }
 
   return await db.transaction(async (tx) => {
@@ -56,6 +179,17 @@ export async function saveFunction(
         name: input.name,
         code: input.code,
         filePath: input.filePath,
+        kind: input.kind ?? "function",
+        className: input.className ?? null,
+        exported: input.exported ?? false,
+        startLine: input.startLine ?? null,
+        endLine: input.endLine ?? null,
+        county: input.county ?? null,
+        fileRole: input.fileRole ?? null,
+        lexiconClasses: JSON.stringify(input.lexiconClasses ?? []),
+        lastCommit: input.lastCommit ?? null,
+        repo: input.repo ?? null,
+        contentHash: input.contentHash ?? null,
       })
       .returning();
 
@@ -63,12 +197,17 @@ export async function saveFunction(
       throw new Error("Failed to insert function");
     }
 
-    for (let index = 0; index < input.embeddings.length; index++) {
-      const embedding = input.embeddings[index];
+    const vectors = vectorsOf(index);
+    for (
+      let chunkIndex = 0;
+      chunkIndex < input.embeddings.length;
+      chunkIndex++
+    ) {
+      const embedding = input.embeddings[chunkIndex];
       if (!embedding) continue;
 
       await tx.run(
-        sql`INSERT INTO ${functionEmbeddingsTable} (functionId, chunkIndex, vector) VALUES (${insertedFunction.id}, ${index}, vector32(${JSON.stringify(embedding)}))`,
+        sql`INSERT INTO ${vectors} (functionId, chunkIndex, vector) VALUES (${insertedFunction.id}, ${chunkIndex}, vector32(${JSON.stringify(embedding)}))`,
       );
     }
 
@@ -77,14 +216,74 @@ export async function saveFunction(
       name: insertedFunction.name,
       code: insertedFunction.code,
       filePath: insertedFunction.filePath,
+      ...toFunctionMetadata(insertedFunction),
       embeddings: input.embeddings,
     };
   });
 }
 
+/**
+ * Stores the chunk vectors of an already saved function in `index`,
+ * replacing any it had there.
+ */
+export async function saveFunctionVectors(
+  db: LibSQLDatabase,
+  index: VectorIndex,
+  functionId: number,
+  embeddings: number[][],
+): Promise<void> {
+  assertIndexKind(index, "functions");
+  if (embeddings.length === 0) {
+    throw new Error("At least one embedding is required");
+  }
+  for (const embedding of embeddings) {
+    assertEmbedding(embedding, index.dimensions, "Each embedding");
+  }
+
+  const vectors = vectorsOf(index);
+  await db.transaction(async (tx) => {
+    await tx.delete(vectors).where(eq(vectors.functionId, functionId));
+    for (let chunkIndex = 0; chunkIndex < embeddings.length; chunkIndex++) {
+      await tx.run(
+        sql`INSERT INTO ${vectors} (functionId, chunkIndex, vector) VALUES (${functionId}, ${chunkIndex}, vector32(${JSON.stringify(embeddings[chunkIndex])}))`,
+      );
+    }
+  });
+}
+
+/** Functions of `repo` (or of every repository) with no vectors in `index`. */
+export async function listFunctionsMissingVectors(
+  db: LibSQLDatabase,
+  index: VectorIndex,
+  repo?: string,
+): Promise<FunctionSource[]> {
+  assertIndexKind(index, "functions");
+  const vectors = vectorsOf(index);
+  return db
+    .select({
+      id: functionsTable.id,
+      name: functionsTable.name,
+      code: functionsTable.code,
+      filePath: functionsTable.filePath,
+    })
+    .from(functionsTable)
+    .where(
+      and(
+        repo ? eq(functionsTable.repo, repo) : undefined,
+        notInArray(
+          functionsTable.id,
+          db.select({ id: vectors.functionId }).from(vectors),
+        ),
+      ),
+    )
+    .orderBy(functionsTable.filePath, functionsTable.id);
+}
+
+/** Reads a function; its `embeddings` come from `index` when given. */
 export async function getFunctionById(
   db: LibSQLDatabase,
   id: number,
+  index?: VectorIndex,
 ): Promise<FunctionWithChunks | null> {
   if (!Number.isInteger(id) || id <= 0) {
     throw new Error("Invalid function ID");
@@ -99,24 +298,23 @@ export async function getFunctionById(
     return null;
   }
 
-  const chunks = await db
-    .select()
-    .from(functionEmbeddingsTable)
-    .where(eq(functionEmbeddingsTable.functionId, id))
-    .orderBy(functionEmbeddingsTable.chunkIndex);
+  const chunks = await loadChunkVectors(db, index, [id]);
 
   return {
     id: func.id,
     name: func.name,
     code: func.code,
     filePath: func.filePath,
-    embeddings: chunks.map((chunk) => chunk.embedding),
+    ...toFunctionMetadata(func),
+    embeddings: chunks.get(id) ?? [],
   };
 }
 
+/** Reads the functions of a file; `embeddings` come from `index` when given. */
 export async function getFunctionsByFilePath(
   db: LibSQLDatabase,
   filePath: string,
+  index?: VectorIndex,
 ): Promise<FunctionWithChunks[]> {
   if (!filePath || filePath.trim().length === 0) {
     throw new Error("File path is required");
@@ -131,54 +329,78 @@ export async function getFunctionsByFilePath(
     return [];
   }
 
-  const functionIds = functions.map((f) => f.id);
-
-  const allChunks = await db
-    .select()
-    .from(functionEmbeddingsTable)
-    .where(sql`${functionEmbeddingsTable.functionId} IN ${functionIds}`)
-    .orderBy(
-      functionEmbeddingsTable.functionId,
-      functionEmbeddingsTable.chunkIndex,
-    );
-
-  const chunksByFunctionId = new Map<number, typeof allChunks>();
-  for (const chunk of allChunks) {
-    if (!chunksByFunctionId.has(chunk.functionId)) {
-      chunksByFunctionId.set(chunk.functionId, []);
-    }
-    chunksByFunctionId.get(chunk.functionId)!.push(chunk);
-  }
+  const chunksByFunctionId = await loadChunkVectors(
+    db,
+    index,
+    functions.map((f) => f.id),
+  );
 
-  const results: FunctionWithChunks[] = functions.map((func) => ({
+  return functions.map((func) => ({
     id: func.id,
     name: func.name,
     code: func.code,
     filePath: func.filePath,
-    embeddings: (chunksByFunctionId.get(func.id) || []).map(
-      (chunk) => chunk.embedding,
-    ),
+    ...toFunctionMetadata(func),
+    embeddings: chunksByFunctionId.get(func.id) ?? [],
   }));
+}
 
-  return results;
+/**
+ * Returns the chunk vectors in `index` of any function stored with
+ * `contentHash`, or null when none has them, so identical code is not
+ * embedded twice.
+ */
+export async function findEmbeddingsByContentHash(
+  db: LibSQLDatabase,
+  index: VectorIndex,
+  contentHash: string,
+): Promise<number[][] | null> {
+  assertIndexKind(index, "functions");
+  const vectors = vectorsOf(index);
+  const [func] = await db
+    .select({ id: functionsTable.id })
+    .from(functionsTable)
+    .where(
+      and(
+        eq(functionsTable.contentHash, contentHash),
+        inArray(
+          functionsTable.id,
+          db.select({ id: vectors.functionId }).from(vectors),
+        ),
+      ),
+    )
+    .limit(1);
+  if (!func) return null;
+
+  const chunks = await loadChunkVectors(db, index, [func.id]);
+  return chunks.get(func.id) ?? null;
+}
+
+/** Returns every indexed function's source, without its embeddings. */
+export async function listFunctionSources(
+  db: LibSQLDatabase,
+): Promise<FunctionSource[]> {
+  return db
+    .select({
+      id: functionsTable.id,
+      name: functionsTable.name,
+      code: functionsTable.code,
+      filePath: functionsTable.filePath,
+    })
+    .from(functionsTable)
+    .orderBy(functionsTable.filePath, functionsTable.id);
 }
 
+/** Nearest function chunks to `embedding` among the vectors in `index`. */
 export async function searchSimilar(
   db: LibSQLDatabase,
+  index: VectorIndex,
   embedding: number[],
   topK: number,
+  filters: FunctionSearchFilters = {},
 ): Promise<VectorSearchResult[]> {
-  if (!Array.isArray(embedding) || embedding.length !== EMBEDDING_DIMENSION) {
-    throw new Error(
-      `Embedding must be an array of length ${EMBEDDING_DIMENSION}`,
-    );
-  }
-
-  if (
-    embedding.some((value) => typeof value !== "number" || Number.isNaN(value))
-  ) {
-    throw new Error("Embedding must only contain numbers");
-  }
+  assertIndexKind(index, "functions");
+  assertEmbedding(embedding, index.dimensions, "Embedding");
 
   if (!Number.isInteger(topK) || topK <= 0) {
     throw new Error("topK must be a positive integer");
@@ -191,22 +413,24 @@ export async function searchSimilar(
     distance: number;
     functionId: number;
   }>(
-    sql.raw(`
-      SELECT 
+    sql`
+      SELECT
         fe.id,
         fe.functionId,
-        vector_distance_cos(fe.vector, vector32('${embeddingJson}')) as distance
-      FROM functionEmbeddings fe
+        vector_distance_cos(fe.vector, vector32(${embeddingJson})) as distance
+      FROM ${vectorsOf(index)} fe
+      JOIN functions f ON f.id = fe.functionId
+      ${whereClause(filterConditions(filters))}
       ORDER BY distance
       LIMIT ${topK}
-    `),
+    `,
   );
 
   const functionMap = new Map<number, FunctionWithChunks>();
 
   for (const result of rawResults) {
     if (result.functionId && !functionMap.has(result.functionId)) {
-      const func = await getFunctionById(db, result.functionId);
+      const func = await getFunctionById(db, result.functionId, index);
       if (func) {
         functionMap.set(result.functionId, func);
       }
@@ -223,6 +447,55 @@ export async function searchSimilar(
     .filter((r): r is VectorSearchResult => r !== null);
 }
 
+/**
+ * Turns free text into an FTS5 query: every whitespace-separated term becomes
+ * a quoted phrase, so identifiers and selectors such as `parcel_identifier`
+ * or `#ctl00_owner` match their tokens in order, and terms are OR-ed so BM25
+ * ranks functions that contain more of them first.
+ */
+function toFtsQuery(text: string): string {
+  return text
+    .split(/\s+/)
+    .map((term) => term.replace(/"/g, ""))
+    .filter((term) => /[\p{L}\p{N}]/u.test(term))
+    .map((term) => `"${term}"`)
+    .join(" OR ");
+}
+
+/**
+ * Full-text search over indexed function names and code. Name matches weigh
+ * more than code matches; `score` is the negated BM25 rank, higher is better.
+ */
+export async function searchKeyword(
+  db: LibSQLDatabase,
+  text: string,
+  topK: number,
+  filters: FunctionSearchFilters = {},
+): Promise<KeywordSearchResult[]> {
+  if (!Number.isInteger(topK) || topK <= 0) {
+    throw new Error("topK must be a positive integer");
+  }
+
+  const query = toFtsQuery(text);
+  if (!query) return [];
+
+  const rows = await db.all<{ functionId: number; rank: number }>(
+    sql`SELECT functionsFts.rowid AS functionId, bm25(functionsFts, 5.0, 1.0) AS rank
+        FROM functionsFts
+        JOIN functions f ON f.id = functionsFts.rowid
+        ${whereClause([sql`functionsFts MATCH ${query}`, ...filterConditions(filters)])}
+        ORDER BY rank
+        LIMIT ${topK}`,
+  );
+
+  const results: KeywordSearchResult[] = [];
+  for (const row of rows) {
+    const func = await getFunctionById(db, row.functionId);
+    if (func) results.push({ functionWithChunks: func, score: -row.rank });
+  }
+  return results;
+}
+
 export async function deleteFunction(
   db: LibSQLDatabase,
   id: number,
@@ -231,19 +504,129 @@ export async function deleteFunction(
     throw new Error("Invalid function ID");
   }
 
+  const indexes = await listVectorIndexes(db, "functions");
   await db.transaction(async (tx) => {
-    await tx
-      .delete(functionEmbeddingsTable)
-      .where(eq(functionEmbeddingsTable.functionId, id));
-
+    for (const index of indexes) {
+      const vectors = vectorsOf(index);
+      await tx.delete(vectors).where(eq(vectors.functionId, id));
+    }
     await tx.delete(functionsTable).where(eq(functionsTable.id, id));
   });
 }
 
+/** Deletes every function indexed from `filePath`; returns how many. */
+export async function deleteFunctionsByFilePath(
+  db: LibSQLDatabase,
+  filePath: string,
+): Promise<number> {
+  if (!filePath || filePath.trim().length === 0) {
+    throw new Error("File path is required");
+  }
+
+  const indexes = await listVectorIndexes(db, "functions");
+  return await db.transaction(async (tx) => {
+    for (const index of indexes) {
+      const vectors = vectorsOf(index);
+      await tx
+        .delete(vectors)
+        .where(
+          inArray(
+            vectors.functionId,
+            tx
+              .select({ id: functionsTable.id })
+              .from(functionsTable)
+              .where(eq(functionsTable.filePath, filePath)),
+          ),
+        );
+    }
+    const deleted = await tx
+      .delete(functionsTable)
+      .where(eq(functionsTable.filePath, filePath))
+      .returning({ id: functionsTable.id });
+    return deleted.length;
+  });
+}
+
+/**
+ * Points the functions of a renamed file at its new path, keeping their
+ * embeddings. Path-derived metadata is replaced with `metadata`. Returns how
+ * many functions moved.
+ */
+export async function moveFunctions(
+  db: LibSQLDatabase,
+  fromPath: string,
+  toPath: string,
+  metadata: Partial<
+    Pick<FunctionMetadata, "county" | "fileRole" | "lastCommit">
+  > = {},
+): Promise<number> {
+  if (!fromPath || !toPath) {
+    throw new Error("Both file paths are required");
+  }
+
+  const moved = await db
+    .update(functionsTable)
+    .set({ filePath: toPath, ...metadata })
+    .where(eq(functionsTable.filePath, fromPath))
+    .returning({ id: functionsTable.id });
+  return moved.length;
+}
+
+/** Distinct file paths with indexed functions, optionally for one repository. */
+export async function listFunctionFilePaths(
+  db: LibSQLDatabase,
+  repo?: string,
+): Promise<string[]> {
+  const rows = await db
+    .selectDistinct({ filePath: functionsTable.filePath })
+    .from(functionsTable)
+    .where(repo ? eq(functionsTable.repo, repo) : undefined)
+    .orderBy(functionsTable.filePath);
+  return rows.map((row) => row.filePath);
+}
+
+/**
+ * Deletes functions indexed from repositories that are no longer configured,
+ * including rows that predate repository labels. Returns how many were removed.
+ */
+export async function deleteFunctionsOutsideRepos(
+  db: LibSQLDatabase,
+  labels: string[],
+): Promise<number> {
+  const outside =
+    labels.length > 0
+      ? or(isNull(functionsTable.repo), notInArray(functionsTable.repo, labels))
+      : undefined;
+
+  const indexes = await listVectorIndexes(db, "functions");
+  return await db.transaction(async (tx) => {
+    for (const index of indexes) {
+      const vectors = vectorsOf(index);
+      await tx
+        .delete(vectors)
+        .where(
+          inArray(
+            vectors.functionId,
+            tx
+              .select({ id: functionsTable.id })
+              .from(functionsTable)
+              .where(outside),
+          ),
+        );
+    }
+    const deleted = await tx
+      .delete(functionsTable)
+      .where(outside)
+      .returning({ id: functionsTable.id });
+    return deleted.length;
+  });
+}
+
 export interface IndexState {
   repoPath: string;
   lastIndexedCommit: string;
   updatedAt: number;
+  embeddingModel: string | null;
 }
 
 export async function getIndexState(
@@ -265,6 +648,7 @@ export async function getIndexState(
       repoPath: row.repoPath,
       lastIndexedCommit: row.lastIndexedCommit,
       updatedAt: row.updatedAt,
+      embeddingModel: row.embeddingModel,
     } as IndexState;
   } catch {
     // If the table does not exist yet (older databases), treat as no state
@@ -272,10 +656,46 @@ export async function getIndexState(
   }
 }
 
+/** Every indexed repository, so search results can be traced to a commit. */
+export async function listIndexStates(
+  db: LibSQLDatabase,
+): Promise<IndexState[]> {
+  try {
+    const rows = await db.select().from(indexStateTable);
+    return rows.map((row) => ({
+      repoPath: row.repoPath,
+      lastIndexedCommit: row.lastIndexedCommit,
+      updatedAt: row.updatedAt,
+      embeddingModel: row.embeddingModel,
+    }));
+  } catch {
+    return [];
+  }
+}
+
+/** Forgets the indexed commit of every repository path not in `repoPaths`. */
+export async function deleteIndexStatesExcept(
+  db: LibSQLDatabase,
+  repoPaths: string[],
+): Promise<void> {
+  try {
+    await db
+      .delete(indexStateTable)
+      .where(
+        repoPaths.length > 0
+          ? notInArray(indexStateTable.repoPath, repoPaths)
+          : undefined,
+      );
+  } catch {
+    // Older databases without the table have nothing to forget
+  }
+}
+
 export async function setIndexState(
   db: LibSQLDatabase,
   repoPath: string,
   lastIndexedCommit: string,
+  embeddingModel: string | null = null,
 ): Promise<IndexState> {
   if (!repoPath || repoPath.trim().length === 0) {
     throw new Error("repoPath is required");
@@ -287,14 +707,500 @@ export async function setIndexState(
   const nowSeconds = Math.floor(Date.now() / 1000);
 
   await db.run(
-    sql`INSERT INTO ${indexStateTable} (repoPath, lastIndexedCommit, updatedAt)
-        VALUES (${repoPath}, ${lastIndexedCommit}, ${nowSeconds})
-        ON CONFLICT(repoPath) DO UPDATE SET lastIndexedCommit=excluded.lastIndexedCommit, updatedAt=excluded.updatedAt`,
+    sql`INSERT INTO ${indexStateTable} (repoPath, lastIndexedCommit, updatedAt, embeddingModel)
+        VALUES (${repoPath}, ${lastIndexedCommit}, ${nowSeconds}, ${embeddingModel})
+        ON CONFLICT(repoPath) DO UPDATE SET lastIndexedCommit=excluded.lastIndexedCommit, updatedAt=excluded.updatedAt, embeddingModel=excluded.embeddingModel`,
   );
 
   return {
     repoPath,
     lastIndexedCommit,
     updatedAt: nowSeconds,
+    embeddingModel,
   };
 }
+
+function toLexiconSnapshot(
+  row: typeof lexiconSnapshotsTable.$inferSelect,
+): LexiconSnapshot {
+  return {
+    manifestCid: row.manifestCid,
+    manifest: JSON.parse(row.manifestJson) as LexiconSnapshot["manifest"],
+    capturedAt: row.capturedAt,
+    lastFetchedAt: row.lastFetchedAt ?? null,
+  };
+}
+
+/**
+ * Stores a manifest snapshot under its content CID. A CID that was already
+ * stored keeps its original capture time, so it marks when it was first seen.
+ */
+export async function saveLexiconSnapshot(
+  db: LibSQLDatabase,
+  manifestCid: string,
+  manifest: LexiconSnapshot["manifest"],
+): Promise<LexiconSnapshot> {
+  if (!manifestCid || manifestCid.trim().length === 0) {
+    throw new Error("manifestCid is required");
+  }
+
+  const nowSeconds = Math.floor(Date.now() / 1000);
+
+  await db
+    .insert(lexiconSnapshotsTable)
+    .values({
+      manifestCid,
+      manifestJson: JSON.stringify(manifest),
+      capturedAt: nowSeconds,
+    })
+    .onConflictDoNothing();
+
+  const stored = await getLexiconSnapshot(db, manifestCid);
+  if (!stored) {
+    throw new Error("Failed to save lexicon snapshot");
+  }
+  return stored;
+}
+
+export async function getLexiconSnapshot(
+  db: LibSQLDatabase,
+  manifestCid: string,
+): Promise<LexiconSnapshot | null> {
+  const [row] = await db
+    .select()
+    .from(lexiconSnapshotsTable)
+    .where(eq(lexiconSnapshotsTable.manifestCid, manifestCid));
+
+  return row ? toLexiconSnapshot(row) : null;
+}
+
+/** Returns the most recent snapshot first seen at or before `atSeconds`. */
+export async function getLexiconSnapshotAt(
+  db: LibSQLDatabase,
+  atSeconds: number,
+): Promise<LexiconSnapshot | null> {
+  const [row] = await db
+    .select()
+    .from(lexiconSnapshotsTable)
+    .where(lte(lexiconSnapshotsTable.capturedAt, atSeconds))
+    .orderBy(desc(lexiconSnapshotsTable.capturedAt))
+    .limit(1);
+
+  return row ? toLexiconSnapshot(row) : null;
+}
+
+export async function listLexiconSnapshots(
+  db: LibSQLDatabase,
+): Promise<Array<{ manifestCid: string; capturedAt: number }>> {
+  return db
+    .select({
+      manifestCid: lexiconSnapshotsTable.manifestCid,
+      capturedAt: lexiconSnapshotsTable.capturedAt,
+    })
+    .from(lexiconSnapshotsTable)
+    .orderBy(desc(lexiconSnapshotsTable.capturedAt));
+}
+
+/** Records that the lexicon served this manifest at `atSeconds`. */
+export async function markLexiconSnapshotFetched(
+  db: LibSQLDatabase,
+  manifestCid: string,
+  atSeconds: number,
+): Promise<void> {
+  await db
+    .update(lexiconSnapshotsTable)
+    .set({ lastFetchedAt: atSeconds })
+    .where(eq(lexiconSnapshotsTable.manifestCid, manifestCid));
+}
+
+/** Returns the manifest the lexicon served most recently, if any. */
+export async function getLastFetchedLexiconSnapshot(
+  db: LibSQLDatabase,
+): Promise<LexiconSnapshot | null> {
+  const [row] = await db
+    .select()
+    .from(lexiconSnapshotsTable)
+    .where(isNotNull(lexiconSnapshotsTable.lastFetchedAt))
+    .orderBy(desc(lexiconSnapshotsTable.lastFetchedAt))
+    .limit(1);
+
+  return row ? toLexiconSnapshot(row) : null;
+}
+
+export async function getCachedLexiconSchema(
+  db: LibSQLDatabase,
+  cid: string,
+): Promise<string | null> {
+  const [row] = await db
+    .select({ content: lexiconSchemaCacheTable.content })
+    .from(lexiconSchemaCacheTable)
+    .where(eq(lexiconSchemaCacheTable.cid, cid));
+
+  return row?.content ?? null;
+}
+
+/**
+ * Stores a schema document under its CID. Content behind a CID never changes,
+ * so an existing entry is left as is.
+ */
+export async function saveCachedLexiconSchema(
+  db: LibSQLDatabase,
+  cid: string,
+  content: string,
+): Promise<void> {
+  if (!cid || cid.trim().length === 0) {
+    throw new Error("cid is required");
+  }
+
+  await db
+    .insert(lexiconSchemaCacheTable)
+    .values({ cid, content, cachedAt: Math.floor(Date.now() / 1000) })
+    .onConflictDoNothing();
+}
+
+export async function listCachedLexiconSchemaCids(
+  db: LibSQLDatabase,
+): Promise<string[]> {
+  const rows = await db
+    .select({ cid: lexiconSchemaCacheTable.cid })
+    .from(lexiconSchemaCacheTable);
+  return rows.map((row) => row.cid);
+}
+
+function lexiconVectorsOf(index: VectorIndex) {
+  return lexiconVectorsTable(index.tableName, index.dimensions);
+}
+
+/**
+ * Returns the manifest CID the lexicon search index was built from, or null
+ * when the index is empty.
+ */
+export async function getLexiconEmbeddingsManifestCid(
+  db: LibSQLDatabase,
+  index: VectorIndex,
+): Promise<string | null> {
+  assertIndexKind(index, "lexicon");
+  const vectors = lexiconVectorsOf(index);
+  const [row] = await db
+    .select({ manifestCid: vectors.manifestCid })
+    .from(vectors)
+    .limit(1);
+
+  return row?.manifestCid ?? null;
+}
+
+/** Replaces the whole lexicon search index in one transaction. */
+export async function replaceLexiconEmbeddings(
+  db: LibSQLDatabase,
+  index: VectorIndex,
+  manifestCid: string,
+  entries: LexiconEmbeddingInput[],
+): Promise<void> {
+  assertIndexKind(index, "lexicon");
+  if (!manifestCid || manifestCid.trim().length === 0) {
+    throw new Error("manifestCid is required");
+  }
+
+  for (const entry of entries) {
+    assertEmbedding(entry.embedding, index.dimensions, "Each embedding");
+  }
+
+  const vectors = lexiconVectorsOf(index);
+  await db.transaction(async (tx) => {
+    // A bare DELETE takes SQLite's truncate path, which leaves the vector
+    // index shadow rows behind and breaks the following inserts.
+    await tx.delete(vectors).where(isNotNull(vectors.id));
+    for (const entry of entries) {
+      await tx.run(
+        sql`INSERT INTO ${vectors} (manifestCid, className, propertyName, description, dataGroups, vector) VALUES (${manifestCid}, ${entry.className}, ${entry.propertyName}, ${entry.description}, ${JSON.stringify(entry.dataGroups)}, vector32(${JSON.stringify(entry.embedding)}))`,
+      );
+    }
+  });
+}
+
+export async function searchLexiconEmbeddings(
+  db: LibSQLDatabase,
+  index: VectorIndex,
+  embedding: number[],
+  topK: number,
+): Promise<LexiconSearchResult[]> {
+  assertIndexKind(index, "lexicon");
+  assertEmbedding(embedding, index.dimensions, "Embedding");
+
+  if (!Number.isInteger(topK) || topK <= 0) {
+    throw new Error("topK must be a positive integer");
+  }
+
+  const rows = await db.all<{
+    className: string;
+    propertyName: string | null;
+    description: string;
+    dataGroups: string;
+    distance: number;
+  }>(
+    sql`SELECT className, propertyName, description, dataGroups,
+          vector_distance_cos(vector, vector32(${JSON.stringify(embedding)})) AS distance
+        FROM ${lexiconVectorsOf(index)}
+        ORDER BY distance
+        LIMIT ${topK}`,
+  );
+
+  return rows.map((row) => ({
+    className: row.className,
+    propertyName: row.propertyName,
+    description: row.description,
+    dataGroups: JSON.parse(row.dataGroups) as string[],
+    distance: row.distance,
+  }));
+}
+
+function toVectorIndex(
+  row: typeof vectorIndexesTable.$inferSelect,
+): VectorIndex {
+  return { ...row, kind: row.kind as VectorIndexKind };
+}
+
+/** Stable table name for the vectors of one kind, model and dimension. */
+function vectorTableName(
+  kind: VectorIndexKind,
+  model: string,
+  dimensions: number,
+): string {
+  const digest = createHash("sha256")
+    .update(`${model}:${dimensions}`)
+    .digest("hex")
+    .slice(0, 16);
+  return `${kind === "functions" ? "functionVectors" : "lexiconVectors"}_${digest}`;
+}
+
+/**
+ * Creates the vector table of `index` and its indexes. Existing tables,
+ * including those adopted from before the registry, are left as they are.
+ */
+async function createVectorTable(
+  db: LibSQLDatabase,
+  index: VectorIndex,
+): Promise<void> {
+  const existing = await db.all(
+    sql`SELECT name FROM sqlite_master WHERE type = 'table' AND name = ${index.tableName}`,
+  );
+  if (existing.length > 0) return;
+
+  const table = sql.identifier(index.tableName);
+  const vectorIdx = sql.identifier(`${index.tableName}_vector_idx`);
+  const vectorType = sql.raw(`F32_BLOB(${index.dimensions})`);
+
+  await db.transaction(async (tx) => {
+    if (index.kind === "functions") {
+      await tx.run(
+        sql`CREATE TABLE ${table} (
+          id integer PRIMARY KEY NOT NULL,
+          functionId integer NOT NULL,
+          chunkIndex integer NOT NULL,
+          vector ${vectorType} NOT NULL
+        )`,
+      );
+      await tx.run(
+        sql`CREATE INDEX ${sql.identifier(`${index.tableName}_function_idx`)} ON ${table} (functionId)`,
+      );
+    } else {
+      await tx.run(
+        sql`CREATE TABLE ${table} (
+          id integer PRIMARY KEY NOT NULL,
+          manifestCid text NOT NULL,
+          className text NOT NULL,
+          propertyName text,
+          description text NOT NULL,
+          dataGroups text NOT NULL,
+          vector ${vectorType} NOT NULL
+        )`,
+      );
+    }
+    await tx.run(
+      sql`CREATE INDEX ${vectorIdx} ON ${table} (libsql_vector_idx(vector))`,
+    );
+  });
+}
+
+/** The vector index holding `model` embeddings of `dimensions`, if any. */
+export async function getVectorIndex(
+  db: LibSQLDatabase,
+  kind: VectorIndexKind,
+  model: string,
+  dimensions: number,
+): Promise<VectorIndex | null> {
+  const [row] = await db
+    .select()
+    .from(vectorIndexesTable)
+    .where(
+      and(
+        eq(vectorIndexesTable.kind, kind),
+        eq(vectorIndexesTable.model, model),
+        eq(vectorIndexesTable.dimensions, dimensions),
+      ),
+    );
+  return row ? toVectorIndex(row) : null;
+}
+
+/** Vector indexes of `kind`, or of every kind, oldest first. */
+export async function listVectorIndexes(
+  db: LibSQLDatabase,
+  kind?: VectorIndexKind,
+): Promise<VectorIndex[]> {
+  const rows = await db
+    .select()
+    .from(vectorIndexesTable)
+    .where(kind ? eq(vectorIndexesTable.kind, kind) : undefined)
+    .orderBy(vectorIndexesTable.id);
+  return rows.map(toVectorIndex);
+}
+
+/**
+ * Returns the vector index for `model` and `dimensions`, registering it and
+ * creating its table first when it does not exist yet. A new index is not
+ * ready until {@link markVectorIndexReady} is called.
+ */
+export async function ensureVectorIndex(
+  db: LibSQLDatabase,
+  kind: VectorIndexKind,
+  model: string,
+  dimensions: number,
+): Promise<VectorIndex> {
+  if (!model || model.trim().length === 0) {
+    throw new Error("Embedding model is required");
+  }
+  if (!Number.isInteger(dimensions) || dimensions <= 0) {
+    throw new Error("dimensions must be a positive integer");
+  }
+
+  await db
+    .insert(vectorIndexesTable)
+    .values({
+      kind,
+      model,
+      dimensions,
+      tableName: vectorTableName(kind, model, dimensions),
+      createdAt: Math.floor(Date.now() / 1000),
+    })
+    .onConflictDoNothing();
+
+  const index = await getVectorIndex(db, kind, model, dimensions);
+  if (!index) {
+    throw new Error(`Failed to register the ${kind} vector index for ${model}`);
+  }
+  await createVectorTable(db, index);
+  return index;
+}
+
+/** Tables that held the vectors before the registry, by kind. */
+const LEGACY_VECTOR_TABLES: Record<VectorIndexKind, string> = {
+  functions: "functionEmbeddings",
+  lexicon: "lexiconEmbeddings",
+};
+
+/** Model the registry migration records for the pre-registry tables. */
+const UNKNOWN_EMBEDDING_MODEL = "unknown";
+
+/** Size of the `vector` column of `tableName`, as declared in its schema. */
+async function vectorColumnDimensions(
+  db: LibSQLDatabase,
+  tableName: string,
+): Promise<number | null> {
+  const [column] = await db.all<{ type: string }>(
+    sql`SELECT type FROM pragma_table_info(${tableName}) WHERE name = 'vector'`,
+  );
+  const match = column ? /^F32_BLOB\((\d+)\)$/i.exec(column.type) : null;
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Models the pre-registry vectors of `kind` were stored with: the model of
+ * each repository's index state for functions, and the model of each row for
+ * the lexicon. Null where none was recorded.
+ */
+async function legacyEmbeddingModels(
+  db: LibSQLDatabase,
+  kind: VectorIndexKind,
+): Promise<(string | null)[]> {
+  const rows = await db.all<{ model: string | null }>(
+    kind === "functions"
+      ? sql`SELECT DISTINCT embeddingModel AS model FROM ${indexStateTable}`
+      : sql`SELECT DISTINCT embeddingModel AS model FROM ${sql.identifier(LEGACY_VECTOR_TABLES.lexicon)}`,
+  );
+  return rows.map((row) => row.model);
+}
+
+/**
+ * Registers the pre-registry vector tables, which the migration leaves as an
+ * unready `unknown` index, under `model` when they hold vectors recorded as
+ * embedded with `model` at `dimensions`. Anything else stays unready and is
+ * re-embedded. Kinds that already have an index for `model` are left alone.
+ * Returns the adopted indexes.
+ */
+export async function adoptLegacyVectorIndexes(
+  db: LibSQLDatabase,
+  model: string,
+  dimensions: number,
+): Promise<VectorIndex[]> {
+  const adopted: VectorIndex[] = [];
+  for (const [kind, tableName] of Object.entries(LEGACY_VECTOR_TABLES) as [
+    VectorIndexKind,
+    string,
+  ][]) {
+    const legacy = (await listVectorIndexes(db, kind)).find(
+      (index) =>
+        index.tableName === tableName &&
+        index.model === UNKNOWN_EMBEDDING_MODEL,
+    );
+    if (!legacy) continue;
+    if ((await vectorColumnDimensions(db, tableName)) !== dimensions) continue;
+    if (await getVectorIndex(db, kind, model, dimensions)) continue;
+
+    const models = await legacyEmbeddingModels(db, kind);
+    if (models.length !== 1 || models[0] !== model) continue;
+    const stored = await db.all(
+      sql`SELECT 1 FROM ${sql.identifier(tableName)} LIMIT 1`,
+    );
+    if (stored.length === 0) continue;
+
+    const readyAt = Math.floor(Date.now() / 1000);
+    await db
+      .update(vectorIndexesTable)
+      .set({ model, dimensions, readyAt })
+      .where(eq(vectorIndexesTable.id, legacy.id));
+    adopted.push({ ...legacy, model, dimensions, readyAt });
+  }
+  return adopted;
+}
+
+/**
+ * Marks `index` as complete and drops the other indexes of its kind, which
+ * were only kept to answer queries while it was being built. Returns the
+ * dropped indexes.
+ */
+export async function markVectorIndexReady(
+  db: LibSQLDatabase,
+  index: VectorIndex,
+): Promise<VectorIndex[]> {
+  const readyAt = index.readyAt ?? Math.floor(Date.now() / 1000);
+  const superseded = (await listVectorIndexes(db, index.kind)).filter(
+    (other) => other.id !== index.id,
+  );
+
+  await db.transaction(async (tx) => {
+    await tx
+      .update(vectorIndexesTable)
+      .set({ readyAt })
+      .where(eq(vectorIndexesTable.id, index.id));
+    for (const other of superseded) {
+      await tx.run(
+        sql`DROP TABLE IF EXISTS ${sql.identifier(other.tableName)}`,
+      );
+      await tx
+        .delete(vectorIndexesTable)
+        .where(eq(vectorIndexesTable.id, other.id));
+    }
+  });
+
+  return superseded;
+}
@@ -1,5 +1,10 @@
-import { text, integer, sqliteTable, index } from "drizzle-orm/sqlite-core";
-import { sql } from "drizzle-orm";
+import {
+  text,
+  integer,
+  sqliteTable,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/sqlite-core";
 import { customType } from "drizzle-orm/sqlite-core";
 
 const float32Array = customType<{
@@ -20,39 +25,139 @@ const float32Array = customType<{
   },
 });
 
-export const functionsTable = sqliteTable("functions", {
-  id: integer("id").primaryKey(),
-  name: text("name").notNull(),
-  code: text("code").notNull(),
-  filePath: text("filePath").notNull(),
-});
-
-export const functionEmbeddingsTable = sqliteTable(
-  "functionEmbeddings",
+export const functionsTable = sqliteTable(
+  "functions",
   {
     id: integer("id").primaryKey(),
-    functionId: integer("functionId").notNull(),
-    chunkIndex: integer("chunkIndex").notNull(),
-    embedding: float32Array("vector", { dimensions: 1024 }).notNull(),
+    name: text("name").notNull(),
+    code: text("code").notNull(),
+    filePath: text("filePath").notNull(),
+    // function | generator | arrow | method | const
+    kind: text("kind").notNull().default("function"),
+    // Enclosing class for methods
+    className: text("className"),
+    exported: integer("exported", { mode: "boolean" }).notNull().default(false),
+    // 1-based line range within filePath; null for rows indexed before 0004
+    startLine: integer("startLine"),
+    endLine: integer("endLine"),
+    // Top-level directory of the file in the verified scripts repository
+    county: text("county"),
+    // extractor | owner-mapping | structure-mapping | ... | helper
+    fileRole: text("fileRole"),
+    // JSON array of lexicon class names referenced in the code
+    lexiconClasses: text("lexiconClasses").notNull().default("[]"),
+    // Last commit that touched filePath
+    lastCommit: text("lastCommit"),
+    // Label of the configured repository the function was indexed from
+    repo: text("repo"),
+    // Hash of the normalized code; identical code shares vectors
+    contentHash: text("contentHash"),
   },
   (table) => ({
-    vectorIdx: index("function_embeddings_vector_idx").on(
-      sql`libsql_vector_idx(${table.embedding})`,
-    ),
+    countyIdx: index("functions_county_idx").on(table.county),
+    repoIdx: index("functions_repo_idx").on(table.repo),
+    contentHashIdx: index("functions_content_hash_idx").on(table.contentHash),
   }),
 );
 
+// Chunk vectors of the functions, one table per embedding model and dimension.
+// The tables are created at runtime and listed in vectorIndexesTable.
+export function functionVectorsTable(tableName: string, dimensions: number) {
+  return sqliteTable(tableName, {
+    id: integer("id").primaryKey(),
+    functionId: integer("functionId").notNull(),
+    chunkIndex: integer("chunkIndex").notNull(),
+    embedding: float32Array("vector", { dimensions }).notNull(),
+  });
+}
+
 // Tracks the last indexed commit per repository path
 export const indexStateTable = sqliteTable("indexState", {
   repoPath: text("repoPath").primaryKey(),
   lastIndexedCommit: text("lastIndexedCommit").notNull(),
   // Store seconds since epoch for simplicity
   updatedAt: integer("updatedAt").notNull(),
+  // Model the repository's vectors were embedded with; null before it was tracked
+  embeddingModel: text("embeddingModel"),
 });
 
+// Point-in-time copies of the lexicon schema manifest, keyed by content CID
+export const lexiconSnapshotsTable = sqliteTable(
+  "lexiconSnapshots",
+  {
+    manifestCid: text("manifestCid").primaryKey(),
+    manifestJson: text("manifestJson").notNull(),
+    // Seconds since epoch when this manifest was first seen
+    capturedAt: integer("capturedAt").notNull(),
+    // Seconds since epoch when this manifest was last served by the lexicon
+    lastFetchedAt: integer("lastFetchedAt"),
+  },
+  (table) => ({
+    capturedAtIdx: index("lexicon_snapshots_captured_at_idx").on(
+      table.capturedAt,
+    ),
+  }),
+);
+
+// Immutable lexicon schema documents (classes, relationships, data groups)
+// keyed by their IPFS CID, so lexicon tools keep working offline
+export const lexiconSchemaCacheTable = sqliteTable("lexiconSchemaCache", {
+  cid: text("cid").primaryKey(),
+  content: text("content").notNull(),
+  // Seconds since epoch when the document was cached
+  cachedAt: integer("cachedAt").notNull(),
+});
+
+// Embedded lexicon class and property descriptions for semantic search, one
+// table per embedding model and dimension. Every row belongs to the manifest
+// it was built from; the table is refilled when the manifest CID changes.
+export function lexiconVectorsTable(tableName: string, dimensions: number) {
+  return sqliteTable(tableName, {
+    id: integer("id").primaryKey(),
+    manifestCid: text("manifestCid").notNull(),
+    className: text("className").notNull(),
+    // Null for the class-level entry
+    propertyName: text("propertyName"),
+    description: text("description").notNull(),
+    // JSON array of data group names whose relationships reference the class
+    dataGroups: text("dataGroups").notNull(),
+    embedding: float32Array("vector", { dimensions }).notNull(),
+  });
+}
+
+// Registry of the vector tables: which model and dimension each one holds.
+// An index is ready once it covers everything it indexes; until then the
+// index it replaces is kept.
+export const vectorIndexesTable = sqliteTable(
+  "vectorIndexes",
+  {
+    id: integer("id").primaryKey(),
+    // functions | lexicon
+    kind: text("kind").notNull(),
+    model: text("model").notNull(),
+    dimensions: integer("dimensions").notNull(),
+    tableName: text("tableName").notNull(),
+    // Seconds since epoch; readyAt is null while the index is being built
+    createdAt: integer("createdAt").notNull(),
+    readyAt: integer("readyAt"),
+  },
+  (table) => ({
+    modelIdx: uniqueIndex("vector_indexes_kind_model_dimensions_idx").on(
+      table.kind,
+      table.model,
+      table.dimensions,
+    ),
+    tableNameIdx: uniqueIndex("vector_indexes_table_name_idx").on(
+      table.tableName,
+    ),
+  }),
+);
+
 // Optional schema export to help Drizzle Kit detect tables
 export const schema = {
   functionsTable,
-  functionEmbeddingsTable,
   indexStateTable,
+  lexiconSnapshotsTable,
+  lexiconSchemaCacheTable,
+  vectorIndexesTable,
 };
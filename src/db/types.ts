@@ -1,19 +1,117 @@
-export interface FunctionWithChunks {
+export type FunctionKind =
+  | "function"
+  | "generator"
+  | "arrow"
+  | "method"
+  | "const";
+
+/** What the indexer derived about a function and the file it came from. */
+export interface FunctionMetadata {
+  kind: FunctionKind;
+  /** Enclosing class for methods, otherwise null. */
+  className: string | null;
+  exported: boolean;
+  /** 1-based, inclusive; null for rows indexed before lines were recorded. */
+  startLine: number | null;
+  endLine: number | null;
+  /** Top-level directory of the file in the verified scripts repository. */
+  county: string | null;
+  fileRole: string | null;
+  /** Lexicon class names referenced in the code. */
+  lexiconClasses: string[];
+  /** Last commit that touched the file. */
+  lastCommit: string | null;
+  /** Label of the configured repository the function came from. */
+  repo: string | null;
+  /** Identifies the normalized code, so identical code can share vectors. */
+  contentHash: string | null;
+}
+
+export interface FunctionWithChunks extends FunctionMetadata {
   id: number;
   name: string;
   code: string;
   filePath: string;
+  /** Chunk vectors from the index the function was read with, if any. */
   embeddings: number[][];
 }
 
-export interface FunctionInput {
+export interface FunctionSource {
+  id: number;
+  name: string;
+  code: string;
+  filePath: string;
+}
+
+export interface FunctionInput extends Partial<FunctionMetadata> {
   name: string;
   code: string;
   filePath: string;
   embeddings: number[][];
 }
 
+/** Restricts function searches; all given filters must match. */
+export interface FunctionSearchFilters {
+  /** Case-insensitive county directory name. */
+  county?: string;
+  /** Lexicon class the function must reference. */
+  className?: string;
+  fileRole?: string;
+  /** Glob (`*`, `?`, `[...]`) matched against the end of the file path. */
+  fileGlob?: string;
+  /** Repository label. */
+  repo?: string;
+}
+
 export interface VectorSearchResult {
   functionWithChunks: FunctionWithChunks;
   distance: number;
 }
+
+export interface KeywordSearchResult {
+  functionWithChunks: FunctionWithChunks;
+  /** Negated BM25 rank; higher is a better match. */
+  score: number;
+}
+
+export interface LexiconSnapshot {
+  manifestCid: string;
+  manifest: Record<string, { ipfsCid: string; type: string }>;
+  /** Seconds since epoch when this manifest was first seen. */
+  capturedAt: number;
+  /** Seconds since epoch when the lexicon last served this manifest. */
+  lastFetchedAt: number | null;
+}
+
+export interface LexiconEmbeddingInput {
+  className: string;
+  /** Null for the class-level entry. */
+  propertyName: string | null;
+  description: string;
+  dataGroups: string[];
+  embedding: number[];
+}
+
+export interface LexiconSearchResult {
+  className: string;
+  propertyName: string | null;
+  description: string;
+  dataGroups: string[];
+  distance: number;
+}
+
+/** What a vector table holds: function chunks or lexicon descriptions. */
+export type VectorIndexKind = "functions" | "lexicon";
+
+/** A vector table holding the embeddings of one model and dimension. */
+export interface VectorIndex {
+  id: number;
+  kind: VectorIndexKind;
+  model: string;
+  dimensions: number;
+  tableName: string;
+  /** Seconds since epoch. */
+  createdAt: number;
+  /** Seconds since epoch when the index was complete; null while building. */
+  readyAt: number | null;
+}
@@ -6,11 +6,20 @@ import { logger } from "./logger.ts";
 import { setServerInstance } from "./lib/serverRef.ts";
 import path from "path";
 import { getDefaultDataDir } from "./lib/paths.ts";
-import { initializeDatabase } from "./db/index.ts";
+import { adoptLegacyVectorIndexes, initializeDatabase } from "./db/index.ts";
 import { setDbInstance } from "./db/connectionRef.ts";
-import { indexVerifiedScripts } from "./lib/verifiedIndexer.ts";
-import { verifyEmbeddingProvider } from "./config.ts";
+import { runScriptIndexing } from "./lib/scriptIndexStatus.ts";
+import { getConfig, verifyEmbeddingProvider } from "./config.ts";
+import {
+  getActiveEmbeddingDimensions,
+  getActiveEmbeddingModel,
+} from "./lib/embeddings.ts";
+import { fetchManifestSnapshot } from "./lib/manifest.ts";
+import { prefetchLexiconSchemas } from "./lib/lexiconCache.ts";
+import { getLexiconSource } from "./lib/lexiconSource.ts";
 import { registerAllTools } from "./tools/registry.ts";
+import { registerAllResources } from "./resources/registry.ts";
+import { runGenerateTypesCommand } from "./cli/generateTypes.ts";
 
 const SERVER_NAME =
   typeof packageJson.name === "string" ? packageJson.name : "@elephant-xyz/mcp";
@@ -32,6 +41,7 @@ const getServer = () => {
   );
 
   registerAllTools(server);
+  registerAllResources(server);
 
   return server;
 };
@@ -66,13 +76,32 @@ async function main() {
   // Ensure the database is initialized before accepting any tool calls
   const dataDir = getDefaultDataDir();
   const dbPath = path.join(dataDir, "db", "elephant-mcp.sqlite");
-  const { db, dimensionMismatchRebuild } = await initializeDatabase(dbPath);
+  const { db } = await initializeDatabase(dbPath);
   setDbInstance(db);
 
-  if (dimensionMismatchRebuild) {
-    logger.info(
-      "Database was rebuilt due to embedding dimension change - will re-index verified scripts",
-    );
+  // Reuse vectors stored before the registry if they were embedded with the
+  // configured model, instead of re-embedding everything
+  if (embeddingProviderResult.available) {
+    try {
+      const adopted = await adoptLegacyVectorIndexes(
+        db,
+        getActiveEmbeddingModel(),
+        getActiveEmbeddingDimensions(),
+      );
+      if (adopted.length > 0) {
+        logger.info(
+          { kinds: adopted.map((index) => index.kind) },
+          "Adopted vectors stored before the vector index registry",
+        );
+      }
+    } catch (error) {
+      logger.warn(
+        {
+          error: error instanceof Error ? error.message : String(error),
+        },
+        "Failed to adopt legacy vector tables",
+      );
+    }
   }
 
   const server = getServer();
@@ -95,26 +124,61 @@ async function main() {
             source: embeddingProviderResult.source,
           }
         : { error: embeddingProviderResult.error },
-      dimensionMismatchRebuild,
     },
   });
 
+  // Record the live lexicon manifest and warm the schema cache so the lexicon
+  // tools keep working offline. Failures should not block MCP.
+  void (async () => {
+    const { manifest, cid } = await fetchManifestSnapshot();
+    logger.info({ manifestCid: cid }, "Lexicon manifest recorded");
+    if (!getConfig().LEXICON_PREFETCH || !getLexiconSource().immutable) {
+      return;
+    }
+    const summary = await prefetchLexiconSchemas(db, manifest);
+    logger.info(
+      {
+        total: summary.total,
+        alreadyCached: summary.alreadyCached,
+        fetched: summary.fetched,
+        failed: summary.failed.length,
+      },
+      "Lexicon schema cache warmed",
+    );
+  })().catch((error) => {
+    logger.warn(
+      {
+        error: error instanceof Error ? error.message : String(error),
+      },
+      "Failed to warm lexicon cache",
+    );
+  });
+
   // Kick off background indexing. Failures should not block MCP.
-  // Force full rescan if database was rebuilt due to dimension mismatch.
   (async () => {
     try {
-      const clonePath = path.join(dataDir, "verified-scripts");
-      const result = await indexVerifiedScripts(db, {
-        clonePath,
-        fullRescan: dimensionMismatchRebuild,
-      });
+      const result = await runScriptIndexing(
+        db,
+        getConfig().VERIFIED_SCRIPTS_REPOS,
+        { dataDir },
+      );
 
       logger.info(
         {
-          processedFiles: result.processedFiles.length,
-          savedFunctions: result.savedFunctions,
+          repos: result.repos.map((repo) => ({
+            repo: repo.repo,
+            processedFiles: repo.processedFiles.length,
+            savedFunctions: repo.savedFunctions,
+            embeddedFunctions: repo.embeddedFunctions,
+            reusedFunctions: repo.reusedFunctions,
+            movedFunctions: repo.movedFunctions,
+            removedFunctions: repo.removedFunctions,
+            backfilledFunctions: repo.backfilledFunctions,
+            parseFailures: repo.parseFailures.length,
+          })),
+          failedRepos: result.failures.map((failure) => failure.repo),
+          purgedFunctions: result.purgedFunctions,
           dbPath,
-          clonePath,
         },
         "Verified scripts indexing completed",
       );
@@ -160,25 +224,39 @@ async function main() {
   });
 }
 
-main().catch((error) => {
-  logger.error("Server startup error", {
-    error: error instanceof Error ? error.message : String(error),
+const [command, ...commandArgs] = process.argv.slice(2);
+
+if (command === "generate-types") {
+  runGenerateTypesCommand(commandArgs).then(
+    (code) => process.exit(code),
+    (error) => {
+      process.stderr.write(
+        `${error instanceof Error ? error.message : String(error)}\n`,
+      );
+      process.exit(1);
+    },
+  );
+} else {
+  main().catch((error) => {
+    logger.error("Server startup error", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    // Best-effort MCP logging of startup error if connected
+    if (serverRef?.isConnected()) {
+      void serverRef
+        .sendLoggingMessage({
+          level: "error",
+          logger: "startup",
+          data: {
+            message: "Server startup error",
+            error: error instanceof Error ? error.message : String(error),
+          },
+        })
+        .finally(() => {
+          process.exit(1);
+        });
+    } else {
+      process.exit(1);
+    }
   });
-  // Best-effort MCP logging of startup error if connected
-  if (serverRef?.isConnected()) {
-    void serverRef
-      .sendLoggingMessage({
-        level: "error",
-        logger: "startup",
-        data: {
-          message: "Server startup error",
-          error: error instanceof Error ? error.message : String(error),
-        },
-      })
-      .finally(() => {
-        process.exit(1);
-      });
-  } else {
-    process.exit(1);
-  }
-});
+}
@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { promises as fs } from "fs";
 import path from "path";
-import { extractFunctions } from "../parser.js";
+import { extractFunctions, grammarForFile } from "../parser.js";
 
 // tree-sitter / tree-sitter-javascript are optional native deps. When they are
 // not installed/buildable in this environment, the code indexer is unavailable
@@ -10,6 +10,7 @@ const treeSitterAvailable = await (async (): Promise<boolean> => {
   try {
     await import("tree-sitter");
     await import("tree-sitter-javascript");
+    await import("tree-sitter-typescript");
     return true;
   } catch {
     return false;
@@ -39,6 +40,16 @@ async function createTestFile(
   return filePath;
 }
 
+describe("grammarForFile", () => {
+  it("picks a grammar from the file extension", () => {
+    expect(grammarForFile("a/b.js")).toBe("javascript");
+    expect(grammarForFile("a/b.mjs")).toBe("javascript");
+    expect(grammarForFile("a/b.cjs")).toBe("javascript");
+    expect(grammarForFile("a/b.ts")).toBe("typescript");
+    expect(grammarForFile("a/b.tsx")).toBe("tsx");
+  });
+});
+
 describeWithTreeSitter("extractFunctions", () => {
   describe("valid inputs", () => {
     it("extracts single named function declaration", async () => {
@@ -164,7 +175,7 @@ console.log(x + y);`,
       expect(result).toHaveLength(0);
     });
 
-    it("ignores arrow functions", async () => {
+    it("extracts arrow functions bound to variables", async () => {
       const filePath = await createTestFile(
         "arrow.js",
         `const arrow = () => {
@@ -178,11 +189,17 @@ function regular() {
 
       const result = await extractFunctions(filePath);
 
-      expect(result).toHaveLength(1);
-      expect(result[0].name).toBe("regular");
+      expect(result.map((f) => [f.name, f.kind])).toEqual([
+        ["arrow", "arrow"],
+        ["regular", "function"],
+      ]);
+      expect(result[0].code).toBe(`const arrow = () => {
+  return "arrow";
+};`);
+      expect(result[0]).toMatchObject({ startLine: 1, endLine: 3 });
     });
 
-    it("ignores function expressions", async () => {
+    it("extracts function expressions bound to variables", async () => {
       const filePath = await createTestFile(
         "expression.js",
         `const fn = function() {
@@ -196,11 +213,13 @@ function declaration() {
 
       const result = await extractFunctions(filePath);
 
-      expect(result).toHaveLength(1);
-      expect(result[0].name).toBe("declaration");
+      expect(result.map((f) => [f.name, f.kind])).toEqual([
+        ["fn", "function"],
+        ["declaration", "function"],
+      ]);
     });
 
-    it("ignores method definitions in classes", async () => {
+    it("extracts class methods with their enclosing class", async () => {
       const filePath = await createTestFile(
         "class.js",
         `class MyClass {
@@ -216,8 +235,53 @@ function standalone() {
 
       const result = await extractFunctions(filePath);
 
-      expect(result).toHaveLength(1);
-      expect(result[0].name).toBe("standalone");
+      expect(result).toHaveLength(2);
+      expect(result[0]).toMatchObject({
+        name: "method",
+        kind: "method",
+        className: "MyClass",
+        exported: false,
+        startLine: 2,
+        endLine: 4,
+      });
+      expect(result[1]).toMatchObject({
+        name: "standalone",
+        kind: "function",
+        className: null,
+      });
+    });
+
+    it("records exports and indexes exported consts", async () => {
+      const filePath = await createTestFile(
+        "exports.js",
+        `export const COUNTY = "lee";
+const internal = { a: 1 };
+export let counter = 0;
+export function mapOwner(row) {
+  return row.owner;
+}
+export class Mapper {
+  #normalize(value) {
+    return value.trim();
+  }
+}
+export default function (row) {
+  return row;
+}`,
+      );
+
+      const result = await extractFunctions(filePath);
+
+      expect(
+        result.map((f) => [f.name, f.kind, f.className, f.exported]),
+      ).toEqual([
+        ["COUNTY", "const", null, true],
+        ["mapOwner", "function", null, true],
+        ["#normalize", "method", "Mapper", true],
+        ["default", "function", null, true],
+      ]);
+      expect(result[0].code).toBe('const COUNTY = "lee";');
+      expect(result[3]).toMatchObject({ startLine: 12, endLine: 14 });
     });
 
     it("handles empty file", async () => {
@@ -284,6 +348,43 @@ function 你好() {
     });
   });
 
+  describe("typed files", () => {
+    it("extracts functions from TypeScript", async () => {
+      const filePath = await createTestFile(
+        "typed.ts",
+        `interface Row { id: string }
+
+export function mapRow(row: Row): Record<string, unknown> {
+  return { id: row.id as string };
+}`,
+      );
+
+      const result = await extractFunctions(filePath);
+
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({
+        name: "mapRow",
+        kind: "function",
+        exported: true,
+      });
+      expect(result[0].code).toContain("row: Row");
+    });
+
+    it("extracts functions from TSX", async () => {
+      const filePath = await createTestFile(
+        "view.tsx",
+        `function View(props: { label: string }) {
+  return <span>{props.label}</span>;
+}`,
+      );
+
+      const result = await extractFunctions(filePath);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].name).toBe("View");
+    });
+  });
+
   describe("error handling", () => {
     it("throws error for non-existent file", async () => {
       const nonExistentPath = path.join(TEST_DIR, "does-not-exist.js");
@@ -5,9 +5,32 @@ import { promises as fs } from "fs";
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
-vi.mock("../verifiedScripts.js", () => ({ ensureLatest: vi.fn() }));
+const testIndex = vi.hoisted(() => ({
+  id: 1,
+  kind: "functions" as const,
+  model: "test-model",
+  dimensions: 1024,
+  tableName: "functionVectors_test",
+  createdAt: 0,
+  readyAt: null,
+}));
+
+vi.mock("../verifiedScripts.js", () => ({
+  ensureLatest: vi.fn(),
+  openLocalRepository: vi.fn(),
+}));
 vi.mock("../parser.js", () => ({ extractFunctions: vi.fn() }));
-vi.mock("../embeddings.js", () => ({ embedManyTexts: vi.fn() }));
+vi.mock("../embeddings.js", () => ({
+  embedManyTexts: vi.fn(),
+  getActiveEmbeddingModel: vi.fn(() => "test-model"),
+  getActiveEmbeddingDimensions: vi.fn(() => 1024),
+}));
+vi.mock("../manifest.js", () => ({
+  fetchManifest: vi.fn(async () => ({
+    address: { ipfsCid: "cid-address", type: "class" },
+    property_has_address: { ipfsCid: "cid-rel", type: "relationship" },
+  })),
+}));
 vi.mock("js-tiktoken", () => ({
   getEncoding: vi.fn(() => {
     // simple stub encoder: 1 token per character
@@ -19,6 +42,7 @@ vi.mock("js-tiktoken", () => ({
 }));
 vi.mock("../../db/index.js", () => ({
   getFunctionsByFilePath: vi.fn(async () => []),
+  findEmbeddingsByContentHash: vi.fn(async () => null),
   deleteFunction: vi.fn(async () => {}),
   saveFunction: vi.fn(async (_db, input) => ({
     id: 1,
@@ -29,20 +53,44 @@ vi.mock("../../db/index.js", () => ({
   })),
   getIndexState: vi.fn(async () => null),
   setIndexState: vi.fn(async () => undefined),
+  deleteFunctionsOutsideRepos: vi.fn(async () => 0),
+  deleteIndexStatesExcept: vi.fn(async () => undefined),
+  deleteFunctionsByFilePath: vi.fn(async () => 0),
+  moveFunctions: vi.fn(async () => 0),
+  listFunctionFilePaths: vi.fn(async () => []),
+  ensureVectorIndex: vi.fn(async () => testIndex),
+  listFunctionsMissingVectors: vi.fn(async () => []),
+  markVectorIndexReady: vi.fn(async () => []),
+  saveFunctionVectors: vi.fn(async () => undefined),
 }));
+const gitRaw = vi.fn(async (_args: string[]) => "cafebabe\n");
 vi.mock("simple-git", () => ({
-  default: () => ({ revparse: async () => "deadbeef" }),
+  default: () => ({
+    revparse: async () => "deadbeef",
+    raw: gitRaw,
+  }),
 }));
 
-const { ensureLatest } = await import("../verifiedScripts.js");
+const { ensureLatest, openLocalRepository } = await import(
+  "../verifiedScripts.js"
+);
 const { extractFunctions } = await import("../parser.js");
 const { embedManyTexts } = await import("../embeddings.js");
 const {
   saveFunction,
   getFunctionsByFilePath,
+  findEmbeddingsByContentHash,
   deleteFunction,
   getIndexState,
   setIndexState,
+  deleteFunctionsOutsideRepos,
+  deleteIndexStatesExcept,
+  deleteFunctionsByFilePath,
+  moveFunctions,
+  listFunctionFilePaths,
+  listFunctionsMissingVectors,
+  markVectorIndexReady,
+  saveFunctionVectors,
 } = await import("../../db/index.js");
 
 async function withTempDir(run: (tempRoot: string) => Promise<void>) {
@@ -57,6 +105,10 @@ async function withTempDir(run: (tempRoot: string) => Promise<void>) {
 describe("indexVerifiedScripts", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    gitRaw.mockImplementation(async () => "cafebabe\n");
+    vi.mocked(deleteFunctionsByFilePath).mockResolvedValue(0);
+    vi.mocked(moveFunctions).mockResolvedValue(0);
+    vi.mocked(findEmbeddingsByContentHash).mockResolvedValue(null);
   });
 
   it("indexes JS files on new clone, extracts and saves functions", async () => {
@@ -83,6 +135,7 @@ describe("indexVerifiedScripts", () => {
       expect(summary.savedFunctions).toBe(1);
       expect(saveFunction).toHaveBeenCalledWith(
         {} as any,
+        testIndex,
         expect.objectContaining({
           name: "hello",
           filePath,
@@ -92,6 +145,49 @@ describe("indexVerifiedScripts", () => {
     });
   });
 
+  it("stores county, file role, lexicon classes and last commit", async () => {
+    await withTempDir(async (tempRoot) => {
+      const filePath = path.join(
+        tempRoot,
+        "Lee",
+        "scripts",
+        "owner_mapping.js",
+      );
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, "// placeholder");
+
+      vi.mocked(ensureLatest).mockResolvedValue({
+        path: tempRoot,
+        files: [],
+        isNewClone: true,
+      });
+      vi.mocked(extractFunctions).mockResolvedValue([
+        {
+          name: "mapOwner",
+          code: 'function mapOwner(){ write("address.json") }',
+          filePath,
+        },
+      ] as any);
+      vi.mocked(embedManyTexts).mockResolvedValue([
+        { embedding: [0.1], text: "x" },
+      ] as any);
+
+      const { indexVerifiedScripts } = await import("../verifiedIndexer.js");
+      await indexVerifiedScripts({} as any, {});
+
+      expect(saveFunction).toHaveBeenCalledWith(
+        {} as any,
+        testIndex,
+        expect.objectContaining({
+          county: "Lee",
+          fileRole: "owner-mapping",
+          lexiconClasses: ["address"],
+          lastCommit: "cafebabe",
+        }),
+      );
+    });
+  });
+
   it("processes TS files and ignores non-JS/TS files", async () => {
     await withTempDir(async (tempRoot) => {
       const md = path.join(tempRoot, "README.md");
@@ -116,7 +212,7 @@ describe("indexVerifiedScripts", () => {
     });
   });
 
-  it("uses incremental file list when not fullRescan", async () => {
+  it("indexes only files changed since the last indexed commit", async () => {
     await withTempDir(async (tempRoot) => {
       const relJs = path.join("nested", "file.cjs");
       const relTxt = "notes.txt";
@@ -125,12 +221,22 @@ describe("indexVerifiedScripts", () => {
       await fs.mkdir(path.dirname(absJs), { recursive: true });
       await fs.writeFile(absJs, "// js file");
       await fs.writeFile(absTxt, "ignore");
+      await fs.writeFile(path.join(tempRoot, "unchanged.js"), "// same");
 
       vi.mocked(ensureLatest).mockResolvedValue({
         path: tempRoot,
-        files: [relJs, relTxt],
+        files: [],
         isNewClone: false,
       });
+      vi.mocked(getIndexState).mockResolvedValueOnce({
+        repoPath: tempRoot,
+        lastIndexedCommit: "old",
+        updatedAt: 1,
+        embeddingModel: "test-model",
+      } as any);
+      gitRaw.mockImplementation(async (args: string[]) =>
+        args[0] === "diff" ? `M\0nested/file.cjs\0A\0notes.txt\0` : "",
+      );
       vi.mocked(extractFunctions).mockResolvedValue([
         { name: "a", code: "function a(){}", filePath: absJs },
       ] as any);
@@ -143,10 +249,163 @@ describe("indexVerifiedScripts", () => {
 
       expect(summary.processedFiles).toEqual([absJs]);
       expect(summary.savedFunctions).toBe(1);
+      expect(gitRaw).toHaveBeenCalledWith([
+        "diff",
+        "--name-status",
+        "-M",
+        "-z",
+        "old..deadbeef",
+      ]);
     });
   });
 
-  it("rescans all if no changed files but commit differs", async () => {
+  it("deletes removed files and moves renamed ones without re-embedding", async () => {
+    await withTempDir(async (tempRoot) => {
+      const renamed = path.join(tempRoot, "Lee", "scripts", "owner_mapping.js");
+      const edited = path.join(tempRoot, "Lee", "scripts", "layout.js");
+      await fs.mkdir(path.dirname(renamed), { recursive: true });
+      await fs.writeFile(renamed, "// moved");
+      await fs.writeFile(edited, "// moved and edited");
+
+      vi.mocked(ensureLatest).mockResolvedValue({
+        path: tempRoot,
+        files: [],
+        isNewClone: false,
+      });
+      vi.mocked(getIndexState).mockResolvedValueOnce({
+        repoPath: tempRoot,
+        lastIndexedCommit: "old",
+        updatedAt: 1,
+        embeddingModel: "test-model",
+      } as any);
+      gitRaw.mockImplementation(async (args: string[]) =>
+        args[0] === "diff"
+          ? [
+              "D",
+              "gone.js",
+              "R100",
+              "owners.js",
+              "Lee/scripts/owner_mapping.js",
+              "R087",
+              "old_layout.js",
+              "Lee/scripts/layout.js",
+              "",
+            ].join("\0")
+          : "cafebabe\n",
+      );
+      vi.mocked(deleteFunctionsByFilePath).mockResolvedValue(1);
+      vi.mocked(moveFunctions).mockResolvedValue(2);
+      vi.mocked(extractFunctions).mockResolvedValue([]);
+
+      const { indexVerifiedScripts } = await import("../verifiedIndexer.js");
+      const summary = await indexVerifiedScripts({} as any, {});
+
+      expect(deleteFunctionsByFilePath).toHaveBeenCalledWith(
+        {} as any,
+        path.join(tempRoot, "gone.js"),
+      );
+      expect(deleteFunctionsByFilePath).toHaveBeenCalledWith(
+        {} as any,
+        path.join(tempRoot, "old_layout.js"),
+      );
+      expect(moveFunctions).toHaveBeenCalledWith(
+        {} as any,
+        path.join(tempRoot, "owners.js"),
+        renamed,
+        { county: "Lee", fileRole: "owner-mapping", lastCommit: "cafebabe" },
+      );
+      expect(summary.processedFiles).toEqual([edited]);
+      expect(embedManyTexts).not.toHaveBeenCalled();
+      expect(summary.movedFunctions).toBe(2);
+      expect(summary.removedFunctions).toBe(2);
+      expect(setIndexState).toHaveBeenCalledWith(
+        {} as any,
+        tempRoot,
+        "deadbeef",
+        "test-model",
+      );
+    });
+  });
+
+  it("sweeps functions whose files no longer exist", async () => {
+    await withTempDir(async (tempRoot) => {
+      const present = path.join(tempRoot, "present.js");
+      await fs.writeFile(present, "// here");
+
+      vi.mocked(ensureLatest).mockResolvedValue({
+        path: tempRoot,
+        files: [],
+        isNewClone: false,
+      });
+      vi.mocked(getIndexState).mockResolvedValueOnce({
+        repoPath: tempRoot,
+        lastIndexedCommit: "deadbeef",
+        updatedAt: 1,
+        embeddingModel: "test-model",
+      } as any);
+      vi.mocked(listFunctionFilePaths).mockResolvedValueOnce([
+        present,
+        path.join(tempRoot, "missing.js"),
+      ]);
+      vi.mocked(deleteFunctionsByFilePath).mockResolvedValue(4);
+
+      const { indexVerifiedScripts } = await import("../verifiedIndexer.js");
+      const summary = await indexVerifiedScripts({} as any, {});
+
+      expect(listFunctionFilePaths).toHaveBeenCalledWith(
+        {} as any,
+        "elephant-xyz",
+      );
+      expect(deleteFunctionsByFilePath).toHaveBeenCalledTimes(1);
+      expect(deleteFunctionsByFilePath).toHaveBeenCalledWith(
+        {} as any,
+        path.join(tempRoot, "missing.js"),
+      );
+      expect(summary.removedFunctions).toBe(4);
+    });
+  });
+
+  it("counts functions a changed file no longer has and records the commit", async () => {
+    await withTempDir(async (tempRoot) => {
+      const filePath = path.join(tempRoot, "script.js");
+      await fs.writeFile(filePath, "// emptied");
+
+      vi.mocked(ensureLatest).mockResolvedValue({
+        path: tempRoot,
+        files: [],
+        isNewClone: false,
+      });
+      vi.mocked(getIndexState).mockResolvedValueOnce({
+        repoPath: tempRoot,
+        lastIndexedCommit: "old",
+        updatedAt: 1,
+        embeddingModel: "test-model",
+      } as any);
+      gitRaw.mockImplementation(async (args: string[]) =>
+        args[0] === "diff" ? ["M", "script.js", ""].join("\0") : "cafebabe\n",
+      );
+      vi.mocked(getFunctionsByFilePath).mockResolvedValueOnce([
+        { id: 1, name: "a", code: "function a(){}", filePath, embeddings: [] },
+        { id: 2, name: "b", code: "function b(){}", filePath, embeddings: [] },
+      ] as any);
+      vi.mocked(extractFunctions).mockResolvedValue([]);
+
+      const { indexVerifiedScripts } = await import("../verifiedIndexer.js");
+      const summary = await indexVerifiedScripts({} as any, {});
+
+      expect(summary.processedFiles).toEqual([filePath]);
+      expect(summary.savedFunctions).toBe(0);
+      expect(summary.removedFunctions).toBe(2);
+      expect(setIndexState).toHaveBeenCalledWith(
+        {} as any,
+        tempRoot,
+        "deadbeef",
+        "test-model",
+      );
+    });
+  });
+
+  it("rescans all when the last indexed commit cannot be diffed", async () => {
     await withTempDir(async (tempRoot) => {
       const a = path.join(tempRoot, "a.mjs");
       await fs.writeFile(a, "// a");
@@ -160,7 +419,12 @@ describe("indexVerifiedScripts", () => {
         repoPath: tempRoot,
         lastIndexedCommit: "old",
         updatedAt: 1,
+        embeddingModel: "test-model",
       } as any);
+      gitRaw.mockImplementation(async (args: string[]) => {
+        if (args[0] === "diff") throw new Error("bad revision 'old'");
+        return "";
+      });
       vi.mocked(extractFunctions).mockResolvedValue([
         { name: "a", code: "function a(){}", filePath: a },
       ] as any);
@@ -190,6 +454,7 @@ describe("indexVerifiedScripts", () => {
         repoPath: tempRoot,
         lastIndexedCommit: "deadbeef",
         updatedAt: 1,
+        embeddingModel: "test-model",
       } as any);
 
       const { indexVerifiedScripts } = await import("../verifiedIndexer.js");
@@ -200,6 +465,55 @@ describe("indexVerifiedScripts", () => {
     });
   });
 
+  it("embeds functions indexed under another model without re-parsing", async () => {
+    await withTempDir(async (tempRoot) => {
+      const filePath = path.join(tempRoot, "script.js");
+      await fs.writeFile(filePath, "// x");
+
+      vi.mocked(ensureLatest).mockResolvedValue({
+        path: tempRoot,
+        files: [],
+        isNewClone: false,
+      });
+      vi.mocked(getIndexState).mockResolvedValueOnce({
+        repoPath: tempRoot,
+        lastIndexedCommit: "deadbeef",
+        updatedAt: 1,
+        embeddingModel: "other-model",
+      } as any);
+      vi.mocked(listFunctionsMissingVectors).mockResolvedValueOnce([
+        { id: 7, name: "a", code: "function a(){}", filePath },
+      ]);
+      vi.mocked(embedManyTexts).mockResolvedValue([
+        { embedding: [0.1], text: "function a(){}" },
+      ] as any);
+
+      const { indexVerifiedScripts } = await import("../verifiedIndexer.js");
+      const summary = await indexVerifiedScripts({} as any, {});
+
+      expect(summary.processedFiles).toEqual([]);
+      expect(summary.backfilledFunctions).toBe(1);
+      expect(extractFunctions).not.toHaveBeenCalled();
+      expect(listFunctionsMissingVectors).toHaveBeenCalledWith(
+        {} as any,
+        testIndex,
+        "elephant-xyz",
+      );
+      expect(saveFunctionVectors).toHaveBeenCalledWith(
+        {} as any,
+        testIndex,
+        7,
+        [[0.1]],
+      );
+      expect(setIndexState).toHaveBeenCalledWith(
+        {} as any,
+        tempRoot,
+        "deadbeef",
+        "test-model",
+      );
+    });
+  });
+
   it("deletes existing functions before saving new ones", async () => {
     await withTempDir(async (tempRoot) => {
       const filePath = path.join(tempRoot, "script.js");
@@ -228,6 +542,79 @@ describe("indexVerifiedScripts", () => {
     });
   });
 
+  it("reuses stored vectors for unchanged code and embeds the rest", async () => {
+    await withTempDir(async (tempRoot) => {
+      const filePath = path.join(tempRoot, "script.js");
+      await fs.writeFile(filePath, "// x");
+
+      vi.mocked(ensureLatest).mockResolvedValue({
+        path: tempRoot,
+        files: [],
+        isNewClone: true,
+      });
+      vi.mocked(extractFunctions).mockResolvedValue([
+        { name: "same", code: "function same(){}", filePath },
+        { name: "moved", code: "function moved(){}", filePath },
+        { name: "edited", code: "function edited(){ return 1 }", filePath },
+      ] as any);
+      vi.mocked(embedManyTexts).mockResolvedValue([
+        { embedding: [0.9], text: "x" },
+      ] as any);
+
+      const { indexVerifiedScripts } = await import("../verifiedIndexer.js");
+      await indexVerifiedScripts({} as any, {});
+      const hashes = vi
+        .mocked(saveFunction)
+        .mock.calls.map(([, , input]) => input.contentHash as string);
+      expect(new Set(hashes).size).toBe(3);
+
+      // Second run: "same" is still in the file, "moved" lives elsewhere now
+      vi.clearAllMocks();
+      vi.mocked(ensureLatest).mockResolvedValue({
+        path: tempRoot,
+        files: [],
+        isNewClone: true,
+      });
+      vi.mocked(getFunctionsByFilePath).mockResolvedValueOnce([
+        {
+          id: 1,
+          name: "same",
+          code: "function same(){}  \r\n",
+          filePath,
+          contentHash: hashes[0],
+          embeddings: [[0.1]],
+        },
+      ] as any);
+      vi.mocked(findEmbeddingsByContentHash).mockImplementation(
+        async (_db, _index, hash) => (hash === hashes[1] ? [[0.2]] : null),
+      );
+      vi.mocked(extractFunctions).mockResolvedValue([
+        { name: "same", code: "function same(){}", filePath },
+        { name: "moved", code: "function moved(){}", filePath },
+        { name: "edited", code: "function edited(){ return 2 }", filePath },
+      ] as any);
+
+      const summary = await indexVerifiedScripts({} as any, {});
+
+      expect(summary).toMatchObject({
+        savedFunctions: 3,
+        reusedFunctions: 2,
+        embeddedFunctions: 1,
+      });
+      expect(embedManyTexts).toHaveBeenCalledTimes(1);
+      expect(saveFunction).toHaveBeenCalledWith(
+        {} as any,
+        testIndex,
+        expect.objectContaining({ name: "same", embeddings: [[0.1]] }),
+      );
+      expect(saveFunction).toHaveBeenCalledWith(
+        {} as any,
+        testIndex,
+        expect.objectContaining({ name: "moved", embeddings: [[0.2]] }),
+      );
+    });
+  });
+
   it("skips embedding when no functions extracted", async () => {
     await withTempDir(async (tempRoot) => {
       const filePath = path.join(tempRoot, "script.cjs");
@@ -276,6 +663,9 @@ describe("indexVerifiedScripts", () => {
 
       expect(summary.processedFiles.sort()).toEqual([a, b].sort());
       expect(summary.savedFunctions).toBe(1);
+      expect(summary.parseFailures).toEqual([
+        { filePath: a, error: "parse error" },
+      ]);
     });
   });
 
@@ -307,6 +697,7 @@ describe("indexVerifiedScripts", () => {
       const { saveFunction } = await import("../../db/index.js");
       expect(saveFunction).toHaveBeenCalledWith(
         {} as any,
+        testIndex,
         expect.objectContaining({
           name: "bigFn",
           filePath,
@@ -316,4 +707,142 @@ describe("indexVerifiedScripts", () => {
       );
     });
   });
+
+  it("indexes a local repository below its subdirectory under its label", async () => {
+    await withTempDir(async (tempRoot) => {
+      const inside = path.join(tempRoot, "counties", "Lee", "extract.js");
+      const outside = path.join(tempRoot, "tools", "build.js");
+      await fs.mkdir(path.dirname(inside), { recursive: true });
+      await fs.mkdir(path.dirname(outside), { recursive: true });
+      await fs.writeFile(inside, "// lee");
+      await fs.writeFile(outside, "// tooling");
+
+      vi.mocked(openLocalRepository).mockResolvedValue({
+        path: tempRoot,
+        files: [],
+        isNewClone: false,
+      });
+      vi.mocked(extractFunctions).mockResolvedValue([
+        { name: "extract", code: "function extract(){}", filePath: inside },
+      ] as any);
+      vi.mocked(embedManyTexts).mockResolvedValue([
+        { embedding: [0.1], text: "x" },
+      ] as any);
+
+      const { indexVerifiedScripts } = await import("../verifiedIndexer.js");
+      const summary = await indexVerifiedScripts({} as any, {
+        repo: {
+          label: "private",
+          path: tempRoot,
+          branch: "main",
+          subdir: "counties",
+        },
+      });
+
+      expect(ensureLatest).not.toHaveBeenCalled();
+      expect(summary.repo).toBe("private");
+      expect(summary.processedFiles).toEqual([inside]);
+      expect(saveFunction).toHaveBeenCalledWith(
+        {} as any,
+        testIndex,
+        expect.objectContaining({ county: "Lee", repo: "private" }),
+      );
+      expect(setIndexState).toHaveBeenCalledWith(
+        {} as any,
+        tempRoot,
+        "deadbeef",
+        "test-model",
+      );
+    });
+  });
+});
+
+describe("indexVerifiedScriptRepos", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("purges removed repositories and keeps indexing after a failure", async () => {
+    await withTempDir(async (tempRoot) => {
+      await fs.mkdir(path.join(tempRoot, "verified-scripts-repos", "public"), {
+        recursive: true,
+      });
+      vi.mocked(deleteFunctionsOutsideRepos).mockResolvedValue(3);
+      vi.mocked(openLocalRepository).mockRejectedValue(
+        new Error("Repository path not found"),
+      );
+      vi.mocked(ensureLatest).mockResolvedValue({
+        path: path.join(tempRoot, "verified-scripts-repos", "public"),
+        files: [],
+        isNewClone: false,
+      });
+
+      const { indexVerifiedScriptRepos } = await import(
+        "../verifiedIndexer.js"
+      );
+      const summary = await indexVerifiedScriptRepos(
+        {} as any,
+        [
+          { label: "missing", path: "/nowhere", branch: "main" },
+          {
+            label: "public",
+            url: "https://github.com/org/scripts.git",
+            branch: "staging",
+          },
+        ],
+        { dataDir: tempRoot },
+      );
+
+      expect(deleteFunctionsOutsideRepos).toHaveBeenCalledWith({} as any, [
+        "missing",
+        "public",
+      ]);
+      expect(deleteIndexStatesExcept).toHaveBeenCalledWith({} as any, [
+        "/nowhere",
+        path.join(tempRoot, "verified-scripts-repos", "public"),
+      ]);
+      expect(ensureLatest).toHaveBeenCalledWith(
+        path.join(tempRoot, "verified-scripts-repos", "public"),
+        { url: "https://github.com/org/scripts.git", branch: "staging" },
+      );
+      expect(summary.purgedFunctions).toBe(3);
+      expect(summary.repos.map((repo) => repo.repo)).toEqual(["public"]);
+      expect(summary.failures).toEqual([
+        { repo: "missing", error: "Repository path not found" },
+      ]);
+      // The previous model's vectors stay until every repository is indexed
+      expect(markVectorIndexReady).not.toHaveBeenCalled();
+    });
+  });
+
+  it("drops other vector indexes once every function has vectors", async () => {
+    await withTempDir(async (tempRoot) => {
+      vi.mocked(deleteFunctionsOutsideRepos).mockResolvedValue(0);
+      vi.mocked(ensureLatest).mockResolvedValue({
+        path: tempRoot,
+        files: [],
+        isNewClone: false,
+      });
+      const repos = [
+        {
+          label: "public",
+          url: "https://github.com/org/scripts.git",
+          branch: "main",
+        },
+      ];
+      const { indexVerifiedScriptRepos } = await import(
+        "../verifiedIndexer.js"
+      );
+
+      vi.mocked(listFunctionsMissingVectors).mockResolvedValue([
+        { id: 7, name: "a", code: "", filePath: "/a.js" },
+      ]);
+      await indexVerifiedScriptRepos({} as any, repos, { dataDir: tempRoot });
+      expect(markVectorIndexReady).not.toHaveBeenCalled();
+
+      vi.mocked(listFunctionsMissingVectors).mockResolvedValue([]);
+      await indexVerifiedScriptRepos({} as any, repos, { dataDir: tempRoot });
+      expect(markVectorIndexReady).toHaveBeenCalledWith({} as any, testIndex);
+    });
+  });
 });
@@ -6,7 +6,9 @@ import os from "os";
 import type { SimpleGit, StatusResult, PullResult } from "simple-git";
 import {
   ensureLatest,
+  githubPermalink,
   initialize,
+  openLocalRepository,
   resetInitialization,
   VerifiedScriptsError,
 } from "../verifiedScripts.js";
@@ -182,6 +184,21 @@ describe("verifiedScripts", () => {
         });
       });
 
+      it("should pull the configured branch", async () => {
+        mockCheckIsRepo.mockResolvedValue(true);
+        mockStatus.mockResolvedValue(createMockStatusResult(0));
+        mockPull.mockResolvedValue(createMockPullResult(0, []));
+
+        await ensureLatest(testClonePath, {
+          url: "https://github.com/org/scripts.git",
+          branch: "staging",
+        });
+
+        expect(mockPull).toHaveBeenCalledWith("origin", "staging", {
+          "--ff-only": null,
+        });
+      });
+
       it("should return updated files when pull has changes", async () => {
         mockCheckIsRepo.mockResolvedValue(true);
         mockStatus.mockResolvedValue(createMockStatusResult(0));
@@ -269,7 +286,24 @@ describe("verifiedScripts", () => {
         expect(mockClone).toHaveBeenCalledWith(
           "https://github.com/elephant-xyz/Counties-trasform-scripts.git",
           testClonePath,
-          { "--depth": 1 },
+          { "--depth": 1, "--branch": "main" },
+        );
+      });
+
+      it("should clone the configured remote and branch", async () => {
+        mockMkdir.mockResolvedValue(undefined);
+        mockClone.mockResolvedValue("");
+        mockReaddir.mockResolvedValue([]);
+
+        await ensureLatest(testClonePath, {
+          url: "git@github.com:org/private-scripts.git",
+          branch: "feature/lee",
+        });
+
+        expect(mockClone).toHaveBeenCalledWith(
+          "git@github.com:org/private-scripts.git",
+          testClonePath,
+          { "--depth": 1, "--branch": "feature/lee" },
         );
       });
 
@@ -469,4 +503,64 @@ describe("verifiedScripts", () => {
       expect(error.cause).toBe(cause);
     });
   });
+
+  describe("openLocalRepository", () => {
+    it("should index a local checkout without pulling", async () => {
+      mockStat.mockResolvedValue(createMockStats(true));
+      mockCheckIsRepo.mockResolvedValue(true);
+
+      const result = await openLocalRepository("/srv/scripts");
+
+      expect(result).toEqual({
+        path: "/srv/scripts",
+        files: [],
+        isNewClone: false,
+      });
+      expect(mockPull).not.toHaveBeenCalled();
+      expect(mockReset).not.toHaveBeenCalled();
+    });
+
+    it("should reject directories that are not git repositories", async () => {
+      mockStat.mockResolvedValue(createMockStats(true));
+      mockCheckIsRepo.mockResolvedValue(false);
+
+      await expect(openLocalRepository("/srv/scripts")).rejects.toThrow(
+        "Not a git repository: /srv/scripts",
+      );
+    });
+  });
+
+  describe("githubPermalink", () => {
+    it("should link to a line range at a commit", () => {
+      expect(
+        githubPermalink(
+          "https://github.com/elephant-xyz/Counties-trasform-scripts.git",
+          "abc123",
+          path.join("Lee", "scripts", "data_extractor.js"),
+          10,
+          42,
+        ),
+      ).toBe(
+        "https://github.com/elephant-xyz/Counties-trasform-scripts/blob/abc123/Lee/scripts/data_extractor.js#L10-L42",
+      );
+    });
+
+    it("should accept SSH remotes and single lines", () => {
+      expect(
+        githubPermalink(
+          "git@github.com:org/repo.git",
+          "abc123",
+          "a b.js",
+          7,
+          7,
+        ),
+      ).toBe("https://github.com/org/repo/blob/abc123/a%20b.js#L7");
+    });
+
+    it("should return null for remotes outside GitHub", () => {
+      expect(
+        githubPermalink("https://gitlab.com/org/repo.git", "abc123", "a.js"),
+      ).toBeNull();
+    });
+  });
 });
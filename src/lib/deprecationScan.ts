@@ -0,0 +1,72 @@
+import type { FunctionSource } from "../db/types.ts";
+
+export type DeprecatedTermKind = "relationship" | "property" | "enumValue";
+
+export interface CodeUsage {
+  functionName: string;
+  filePath: string;
+  /** 1-based line within the indexed function's code. */
+  line: number;
+  snippet: string;
+}
+
+const MAX_SNIPPET_LENGTH = 160;
+
+const REPLACEMENT_HINT =
+  /\b(?:use|replaced (?:by|with)|superseded by|in favou?r of|migrate to|see)\s+[`'"]?([A-Za-z_][\w.[\]]*)/i;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Builds the patterns that count as code emitting a term: a quoted string
+ * literal for every kind, plus `.key` and `key:` for property names.
+ */
+function usagePatterns(term: string, kind: DeprecatedTermKind): RegExp[] {
+  const escaped = escapeRegExp(term);
+  const patterns = [new RegExp(`(["'\`])${escaped}\\1`)];
+  if (kind === "property" && /^[A-Za-z_$][\w$]*$/.test(term)) {
+    patterns.push(new RegExp(`\\.${escaped}\\b`));
+    patterns.push(new RegExp(`(?<![\\w$.?])${escaped}\\s*:(?!:)`));
+  }
+  return patterns;
+}
+
+/** Finds lines in indexed functions that still emit a deprecated term. */
+export function findCodeUsages(
+  sources: FunctionSource[],
+  term: string,
+  kind: DeprecatedTermKind,
+): CodeUsage[] {
+  const patterns = usagePatterns(term, kind);
+  const usages: CodeUsage[] = [];
+  for (const source of sources) {
+    if (!source.code.includes(term)) continue;
+    source.code.split("\n").forEach((text, index) => {
+      if (!patterns.some((pattern) => pattern.test(text))) return;
+      const snippet = text.trim();
+      usages.push({
+        functionName: source.name,
+        filePath: source.filePath,
+        line: index + 1,
+        snippet:
+          snippet.length > MAX_SNIPPET_LENGTH
+            ? `${snippet.slice(0, MAX_SNIPPET_LENGTH)}…`
+            : snippet,
+      });
+    });
+  }
+  return usages;
+}
+
+/**
+ * Pulls a replacement name out of a deprecation note such as
+ * "Deprecated, use `unit_identifier` instead".
+ */
+export function replacementFromDescription(
+  description: string | null | undefined,
+): string | null {
+  if (!description) return null;
+  return REPLACEMENT_HINT.exec(description)?.[1] ?? null;
+}
@@ -0,0 +1,139 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+type EmbeddingsModule = typeof import("./embeddings.ts");
+
+interface RecordedRequest {
+  url: string | undefined;
+  headers: IncomingHttpHeaders;
+  body: { model: string; input: string[]; dimensions?: number };
+}
+
+const originalEnv = { ...process.env };
+
+describe("openai-compatible embedding provider", () => {
+  let server: Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+  // Vector size the stub server answers with
+  let dimensions: number;
+
+  async function loadEmbeddings(
+    env: Record<string, string>,
+  ): Promise<EmbeddingsModule> {
+    process.env = {
+      ...originalEnv,
+      EMBEDDING_PROVIDER: "openai-compatible",
+      EMBEDDING_BASE_URL: baseUrl,
+      EMBEDDING_MODEL: "nomic-embed-text",
+      EMBEDDING_DIMENSIONS: "1024",
+      ...env,
+    };
+    vi.resetModules();
+    return import("./embeddings.ts");
+  }
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = "";
+      req.on("data", (chunk) => (raw += chunk));
+      req.on("end", () => {
+        const body = JSON.parse(raw) as RecordedRequest["body"];
+        requests.push({ url: req.url, headers: req.headers, body });
+        res.setHeader("content-type", "application/json");
+        res.end(
+          JSON.stringify({
+            object: "list",
+            model: body.model,
+            data: body.input.map((_, index) => ({
+              object: "embedding",
+              index,
+              embedding: Array.from({ length: dimensions }, () => index),
+            })),
+            usage: { prompt_tokens: 1, total_tokens: 1 },
+          }),
+        );
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}/v1`;
+  });
+
+  afterAll(async () => {
+    process.env = originalEnv;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    dimensions = 1024;
+  });
+
+  it("embeds through the configured base URL and model", async () => {
+    const { embedManyTexts, getActiveEmbeddingModel } = await loadEmbeddings({
+      EMBEDDING_API_KEY: "local-secret",
+    });
+
+    const results = await embedManyTexts(["owner name", "sale date"]);
+
+    expect(results.map((result) => result.embedding[0])).toEqual([0, 1]);
+    expect(getActiveEmbeddingModel()).toBe(
+      "openai-compatible/nomic-embed-text",
+    );
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe("/v1/embeddings");
+    expect(requests[0].headers.authorization).toBe("Bearer local-secret");
+    expect(requests[0].body).toMatchObject({
+      model: "nomic-embed-text",
+      input: ["owner name", "sale date"],
+    });
+    // Self-hosted servers are not asked to resize their output
+    expect(requests[0].body.dimensions).toBeUndefined();
+  });
+
+  it("accepts models of any declared dimension", async () => {
+    dimensions = 768;
+    const { embedText, getActiveEmbeddingDimensions } = await loadEmbeddings({
+      EMBEDDING_DIMENSIONS: "768",
+    });
+
+    expect(await embedText("owner name")).toHaveLength(768);
+    expect(getActiveEmbeddingDimensions()).toBe(768);
+  });
+
+  it("rejects vectors that do not match the declared dimension", async () => {
+    dimensions = 768;
+    const { embedText } = await loadEmbeddings({});
+
+    await expect(embedText("owner name")).rejects.toThrow(
+      "Embedding dimension mismatch for openai-compatible/nomic-embed-text: expected 1024, got 768",
+    );
+  });
+
+  it("reports the server as the active provider", async () => {
+    await loadEmbeddings({});
+    const { verifyEmbeddingProvider, getEmbeddingProviderDescription } =
+      await import("../config.ts");
+
+    expect(await verifyEmbeddingProvider()).toEqual({
+      available: true,
+      provider: "openai-compatible",
+      source: `OpenAI-compatible server at ${baseUrl}`,
+    });
+    expect(getEmbeddingProviderDescription()).toBe(
+      `OpenAI-compatible (nomic-embed-text at ${baseUrl})`,
+    );
+  });
+});
@@ -362,4 +362,24 @@ describe("embedding provider selection", () => {
       "Failed to generate embeddings: Gateway authentication failed",
     );
   });
+
+  it("should embed locally without calling the AI SDK", async () => {
+    const { getEmbeddingProvider } = await import("../config.ts");
+    vi.mocked(getEmbeddingProvider).mockReturnValue("local");
+
+    const [single, many] = await Promise.all([
+      embedText("parcel identifier"),
+      embedManyTexts(["parcel identifier", "sale price"]),
+    ]);
+
+    expect(getActiveEmbeddingModel()).toBe("local/hashed-ngram-v1");
+    expect(single).toHaveLength(EMBEDDING_DIM);
+    expect(many.map((result) => result.text)).toEqual([
+      "parcel identifier",
+      "sale price",
+    ]);
+    expect(many[0].embedding).toEqual(single);
+    expect(embed).not.toHaveBeenCalled();
+    expect(embedMany).not.toHaveBeenCalled();
+  });
 });
@@ -1,13 +1,16 @@
 import { embedMany, embed, gateway } from "ai";
-import { openai } from "@ai-sdk/openai";
+import { openai, createOpenAI } from "@ai-sdk/openai";
 import { createAmazonBedrock } from "@ai-sdk/amazon-bedrock";
 import { fromNodeProviderChain } from "@aws-sdk/credential-providers";
 import { getEmbeddingProvider, getConfig } from "../config.ts";
+import { embedLocally, LOCAL_EMBEDDING_MODEL } from "./localEmbedding.ts";
 
-// All providers are configured to output 1024 dimensions.
+// Hosted providers are configured to output 1024 dimensions.
 // Direct OpenAI and Gateway's OpenAI model receive the same provider option;
 // the installed Gateway runtime forwards providerOptions to the upstream model.
-// Amazon Titan Embed Text V2 outputs 1024 dimensions by default
+// Amazon Titan Embed Text V2 outputs 1024 dimensions by default.
+// The local provider projects straight to EMBEDDING_DIM, while OpenAI-compatible
+// servers embed at the size declared in EMBEDDING_DIMENSIONS.
 export const EMBEDDING_DIM = 1024;
 
 // Model IDs
@@ -30,6 +33,31 @@ function getBedrockClient() {
   return cachedBedrockClient;
 }
 
+// Cached client for a self-hosted OpenAI-compatible server
+let cachedCompatibleClient: ReturnType<typeof createOpenAI> | null = null;
+
+function getCompatibleClient() {
+  if (!cachedCompatibleClient) {
+    const cfg = getConfig();
+    cachedCompatibleClient = createOpenAI({
+      name: "openai-compatible",
+      baseURL: cfg.EMBEDDING_BASE_URL,
+      // Many self-hosted servers run without authentication
+      apiKey: cfg.EMBEDDING_API_KEY ?? "",
+    });
+  }
+  return cachedCompatibleClient;
+}
+
+/**
+ * Self-hosted models embed at their native size and some servers reject the
+ * OpenAI `dimensions` parameter, so it is only sent to hosted providers.
+ */
+function getEmbeddingProviderOptions(): Record<string, { dimensions: number }> {
+  if (getEmbeddingProvider() === "openai-compatible") return {};
+  return { openai: { dimensions: EMBEDDING_DIM } };
+}
+
 export interface EmbeddingResult {
   embedding: number[];
   text: string;
@@ -47,6 +75,11 @@ function getEmbeddingModel() {
   if (provider === "vercel-ai-gateway") {
     return gateway.textEmbeddingModel(GATEWAY_EMBEDDING_MODEL);
   }
+  if (provider === "openai-compatible") {
+    return getCompatibleClient().textEmbeddingModel(
+      getConfig().EMBEDDING_MODEL ?? "",
+    );
+  }
   return getBedrockClient().embedding(BEDROCK_EMBEDDING_MODEL);
 }
 
@@ -54,25 +87,41 @@ export function getActiveEmbeddingModel(): string {
   const provider = getEmbeddingProvider();
   if (provider === "openai") return OPENAI_EMBEDDING_MODEL;
   if (provider === "vercel-ai-gateway") return GATEWAY_EMBEDDING_MODEL;
+  if (provider === "local") return LOCAL_EMBEDDING_MODEL;
+  // Prefixed so a self-hosted model never shares stored vectors with a hosted one
+  if (provider === "openai-compatible") {
+    return `openai-compatible/${getConfig().EMBEDDING_MODEL}`;
+  }
   return BEDROCK_EMBEDDING_MODEL;
 }
 
+/** Size of the vectors the active provider returns. */
+export function getActiveEmbeddingDimensions(): number {
+  if (getEmbeddingProvider() === "openai-compatible") {
+    return getConfig().EMBEDDING_DIMENSIONS ?? EMBEDDING_DIM;
+  }
+  return EMBEDDING_DIM;
+}
+
 export async function embedText(text: string): Promise<number[]> {
   if (!text || text.trim().length === 0) {
     throw new Error("Text cannot be empty");
   }
 
+  if (getEmbeddingProvider() === "local") {
+    return embedLocally(text, EMBEDDING_DIM);
+  }
+
   try {
     const result = await embed({
       model: getEmbeddingModel(),
       value: text,
-      providerOptions: {
-        openai: { dimensions: EMBEDDING_DIM },
-      },
+      providerOptions: getEmbeddingProviderOptions(),
     });
-    if (result.embedding.length !== EMBEDDING_DIM) {
+    const dimensions = getActiveEmbeddingDimensions();
+    if (result.embedding.length !== dimensions) {
       throw new Error(
-        `Embedding dimension mismatch for ${getActiveEmbeddingModel()}: expected ${EMBEDDING_DIM}, got ${result.embedding.length}`,
+        `Embedding dimension mismatch for ${getActiveEmbeddingModel()}: expected ${dimensions}, got ${result.embedding.length}`,
       );
     }
     return result.embedding;
@@ -96,13 +145,19 @@ export async function embedManyTexts(
     throw new Error("All texts must be non-empty strings");
   }
 
+  if (getEmbeddingProvider() === "local") {
+    options.abortSignal?.throwIfAborted();
+    return texts.map((text) => ({
+      embedding: embedLocally(text, EMBEDDING_DIM),
+      text,
+    }));
+  }
+
   try {
     const embeddings = await embedMany({
       model: getEmbeddingModel(),
       values: texts,
-      providerOptions: {
-        openai: { dimensions: EMBEDDING_DIM },
-      },
+      providerOptions: getEmbeddingProviderOptions(),
       ...(options.abortSignal === undefined
         ? {}
         : { abortSignal: options.abortSignal }),
@@ -114,10 +169,11 @@ export async function embedManyTexts(
       );
     }
 
+    const dimensions = getActiveEmbeddingDimensions();
     return embeddings.embeddings.map((value, index) => {
-      if (value.length !== EMBEDDING_DIM) {
+      if (value.length !== dimensions) {
         throw new Error(
-          `Embedding dimension mismatch for ${getActiveEmbeddingModel()}: expected ${EMBEDDING_DIM}, got ${value.length}`,
+          `Embedding dimension mismatch for ${getActiveEmbeddingModel()}: expected ${dimensions}, got ${value.length}`,
         );
       }
 
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { generateExample, sampleFromPattern } from "./exampleGenerator.ts";
+import { validateAgainstSchema } from "./schemaValidator.ts";
+import type { JsonSchemaNode } from "../types/lexicon.ts";
+
+const salesHistory: JsonSchemaNode = {
+  type: "object",
+  additionalProperties: false,
+  required: ["request_identifier", "ownership_transfer_date"],
+  properties: {
+    source_http_request: {
+      type: "object",
+      required: ["method", "url"],
+      properties: {
+        method: { type: "string", enum: ["GET", "POST"] },
+        url: { type: "string", pattern: "^https?://[^\\s/]+(/.*)?$" },
+      },
+    },
+    request_identifier: { type: ["string", "null"] },
+    ownership_transfer_date: { type: "string", format: "date" },
+    purchase_price_amount: {
+      type: ["number", "null"],
+      exclusiveMinimum: 0,
+      multipleOf: 0.01,
+    },
+    sale_type: {
+      type: ["string", "null"],
+      enum: ["Legacy", "ArmsLength", "Foreclosure", null],
+      deprecated_enum_values: ["Legacy"],
+    },
+    book_page: { type: "string", pattern: "^\\d{3,5}-[A-Z]{2}$" },
+    legacy_id: { type: "string", deprecated: true },
+  },
+};
+
+describe("sampleFromPattern", () => {
+  it("produces strings that match common lexicon patterns", () => {
+    for (const pattern of [
+      "^\\d{5}(-\\d{4})?$",
+      "^[A-Z]{2}\\d+$",
+      "^(?:N|S|E|W)$",
+      "^[^\\s]+@[a-z]+\\.com$",
+      "^\\d{4}-\\d{2}-\\d{2}$",
+    ]) {
+      const sample = sampleFromPattern(pattern);
+      expect(sample, pattern).not.toBeNull();
+      expect(new RegExp(pattern).test(sample as string)).toBe(true);
+    }
+  });
+
+  it("gives up on lookarounds", () => {
+    expect(sampleFromPattern("^(?=a)a$")).toBeNull();
+  });
+});
+
+describe("generateExample", () => {
+  it("fills only required fields and the source request in minimal mode", () => {
+    const example = generateExample(salesHistory, "minimal");
+
+    expect(example).toEqual({
+      source_http_request: { method: "GET", url: "http://a" },
+      request_identifier: "example",
+      ownership_transfer_date: "2024-01-01",
+    });
+    expect(validateAgainstSchema(salesHistory, example).valid).toBe(true);
+  });
+
+  it("fills every non-deprecated field and skips deprecated enum values", () => {
+    const example = generateExample(salesHistory, "maximal") as Record<
+      string,
+      unknown
+    >;
+
+    expect(Object.keys(example).sort()).toEqual([
+      "book_page",
+      "ownership_transfer_date",
+      "purchase_price_amount",
+      "request_identifier",
+      "sale_type",
+      "source_http_request",
+    ]);
+    expect(example.sale_type).toBe("ArmsLength");
+    expect(example.book_page).toBe("000-AA");
+    expect(example.purchase_price_amount).toBeGreaterThan(0);
+    expect(validateAgainstSchema(salesHistory, example).valid).toBe(true);
+  });
+
+  it("picks a oneOf branch that validates exactly once", () => {
+    const schema: JsonSchemaNode = {
+      type: "object",
+      properties: {
+        parcel_id: { type: "string" },
+        property_id: { type: "string" },
+        flood_zone: { type: "string" },
+      },
+      oneOf: [
+        { required: ["parcel_id"], not: { required: ["property_id"] } },
+        { required: ["property_id"], not: { required: ["parcel_id"] } },
+      ],
+    };
+
+    const minimal = generateExample(schema, "minimal");
+    const maximal = generateExample(schema, "maximal");
+
+    expect(minimal).toEqual({ parcel_id: "example" });
+    expect(maximal).toEqual({ parcel_id: "example", flood_zone: "example" });
+    expect(validateAgainstSchema(schema, maximal).valid).toBe(true);
+  });
+});
@@ -0,0 +1,393 @@
+import type { JsonSchemaNode } from "../types/lexicon.ts";
+import {
+  getDeprecatedEnumValues,
+  isPlainObject,
+  isSchemaNode,
+  validateAgainstSchema,
+} from "./schemaValidator.ts";
+
+export type ExampleMode = "minimal" | "maximal";
+
+/** Always emitted, even when not required, so transforms record provenance. */
+export const SOURCE_HTTP_REQUEST_KEY = "source_http_request";
+
+const MAX_DEPTH = 8;
+
+const FORMAT_SAMPLES: Record<string, string> = {
+  date: "2024-01-01",
+  "date-time": "2024-01-01T00:00:00Z",
+  time: "00:00:00Z",
+  email: "user@example.com",
+  uri: "https://example.com",
+  uuid: "00000000-0000-4000-8000-000000000000",
+  ipv4: "192.0.2.1",
+};
+
+function schemaTypes(node: JsonSchemaNode): string[] {
+  const type = node.type;
+  if (Array.isArray(type)) return type.map(String);
+  return typeof type === "string" ? [type] : [];
+}
+
+function testPattern(pattern: string, value: string): boolean {
+  try {
+    return new RegExp(pattern, "u").test(value);
+  } catch {
+    return new RegExp(pattern).test(value);
+  }
+}
+
+/**
+ * Builds the shortest string matching a regular expression made of literals,
+ * classes, groups, alternation and quantifiers. Returns null for patterns
+ * using lookarounds or backreferences, or when the result does not match.
+ */
+export function sampleFromPattern(pattern: string): string | null {
+  let pos = 0;
+  const peek = () => pattern[pos];
+
+  const escape = (inClass: boolean): string => {
+    const ch = pattern[pos++];
+    switch (ch) {
+      case "d":
+        return "0";
+      case "w":
+      case "D":
+      case "S":
+        return "a";
+      case "s":
+        return " ";
+      case "W":
+        return "-";
+      case "n":
+        return "\n";
+      case "t":
+        return "\t";
+      case "b":
+        if (inClass) return "\b";
+        return "";
+      case "B":
+        return "";
+      case "u": {
+        const braced = /^\{([0-9a-fA-F]+)\}/.exec(pattern.slice(pos));
+        const plain = /^[0-9a-fA-F]{4}/.exec(pattern.slice(pos));
+        const hex = braced?.[1] ?? plain?.[0];
+        if (!hex) return "u";
+        pos += braced ? braced[0].length : 4;
+        return String.fromCodePoint(parseInt(hex, 16));
+      }
+      case "x": {
+        const hex = /^[0-9a-fA-F]{2}/.exec(pattern.slice(pos));
+        if (!hex) return "x";
+        pos += 2;
+        return String.fromCharCode(parseInt(hex[0], 16));
+      }
+      default:
+        if (ch === undefined) throw new Error("Dangling escape");
+        if (/[1-9k]/.test(ch)) throw new Error("Backreferences unsupported");
+        return ch;
+    }
+  };
+
+  const charClass = (): string => {
+    const negated = peek() === "^";
+    if (negated) pos++;
+    const members: string[] = [];
+    const ranges: Array<[string, string]> = [];
+    while (pos < pattern.length && peek() !== "]") {
+      let ch = pattern[pos++];
+      if (ch === "\\") ch = escape(true);
+      if (
+        peek() === "-" &&
+        pattern[pos + 1] !== "]" &&
+        pos + 1 < pattern.length
+      ) {
+        pos++;
+        let end = pattern[pos++];
+        if (end === "\\") end = escape(true);
+        ranges.push([ch, end]);
+      } else {
+        members.push(ch);
+      }
+    }
+    if (peek() !== "]") throw new Error("Unterminated character class");
+    pos++;
+    if (!negated) return ranges[0]?.[0] ?? members[0] ?? "";
+    const excluded = (c: string) =>
+      members.includes(c) || ranges.some(([lo, hi]) => c >= lo && c <= hi);
+    return ["a", "A", "0", "x", "_", "-", " "].find((c) => !excluded(c)) ?? "";
+  };
+
+  const quantifier = (): number => {
+    const ch = peek();
+    let min = 1;
+    if (ch === "?" || ch === "*") {
+      min = 0;
+      pos++;
+    } else if (ch === "+") {
+      pos++;
+    } else if (ch === "{") {
+      const match = /^\{(\d+)(,\d*)?\}/.exec(pattern.slice(pos));
+      if (!match) return 1;
+      min = Number(match[1]);
+      pos += match[0].length;
+    } else {
+      return 1;
+    }
+    if (peek() === "?") pos++;
+    return min;
+  };
+
+  const alternation = (): string => {
+    const first = sequence();
+    while (peek() === "|") {
+      pos++;
+      sequence();
+    }
+    return first;
+  };
+
+  const sequence = (): string => {
+    let out = "";
+    while (pos < pattern.length && peek() !== "|" && peek() !== ")") {
+      const ch = pattern[pos++];
+      let atom: string;
+      if (ch === "^" || ch === "$") continue;
+      if (ch === "(") {
+        if (pattern.startsWith("?:", pos)) {
+          pos += 2;
+        } else if (
+          pattern.startsWith("?<", pos) &&
+          !/^\?<[=!]/.test(pattern.slice(pos))
+        ) {
+          pos = pattern.indexOf(">", pos) + 1;
+        } else if (peek() === "?") {
+          throw new Error("Lookarounds unsupported");
+        }
+        atom = alternation();
+        if (peek() !== ")") throw new Error("Unterminated group");
+        pos++;
+      } else if (ch === "[") {
+        atom = charClass();
+      } else if (ch === "\\") {
+        atom = escape(false);
+      } else if (ch === ".") {
+        atom = "a";
+      } else {
+        atom = ch;
+      }
+      out += atom.repeat(quantifier());
+    }
+    return out;
+  };
+
+  try {
+    const sample = alternation();
+    if (pos !== pattern.length) return null;
+    return testPattern(pattern, sample) ? sample : null;
+  } catch {
+    return null;
+  }
+}
+
+function sampleString(node: JsonSchemaNode): string {
+  if (typeof node.pattern === "string") {
+    const sample = sampleFromPattern(node.pattern);
+    if (sample !== null) return sample;
+  }
+  let value =
+    typeof node.format === "string" && FORMAT_SAMPLES[node.format]
+      ? FORMAT_SAMPLES[node.format]
+      : "example";
+  if (typeof node.maxLength === "number" && value.length > node.maxLength) {
+    value = value.slice(0, node.maxLength);
+  }
+  if (typeof node.minLength === "number" && value.length < node.minLength) {
+    value = value.padEnd(node.minLength, "x");
+  }
+  return value;
+}
+
+function sampleNumber(node: JsonSchemaNode, integer: boolean): number {
+  const step = integer ? 1 : 0.5;
+  let value = 0;
+  if (typeof node.minimum === "number") value = node.minimum;
+  if (typeof node.exclusiveMinimum === "number") {
+    value = Math.max(value, node.exclusiveMinimum + step);
+  }
+  if (typeof node.maximum === "number") value = Math.min(value, node.maximum);
+  if (typeof node.exclusiveMaximum === "number") {
+    value = Math.min(value, node.exclusiveMaximum - step);
+  }
+  if (typeof node.multipleOf === "number" && node.multipleOf > 0) {
+    value = Math.ceil(value / node.multipleOf) * node.multipleOf;
+  }
+  return integer ? Math.ceil(value) : value;
+}
+
+function objectKeys(
+  node: JsonSchemaNode,
+  mode: ExampleMode,
+  isRoot: boolean,
+): string[] {
+  const properties = node.properties ?? {};
+  const required = new Set(
+    Array.isArray(node.required) ? node.required.map(String) : [],
+  );
+  return Object.keys(properties).filter(
+    (key) =>
+      required.has(key) ||
+      (isRoot && key === SOURCE_HTTP_REQUEST_KEY) ||
+      (mode === "maximal" && properties[key].deprecated !== true),
+  );
+}
+
+function withoutCombinators(node: JsonSchemaNode): JsonSchemaNode {
+  const copy: JsonSchemaNode = { ...node };
+  delete copy.oneOf;
+  delete copy.anyOf;
+  return copy;
+}
+
+/** Merges a combinator branch's `properties` and `required` into its parent. */
+function withBranch(
+  node: JsonSchemaNode,
+  branch: JsonSchemaNode,
+): JsonSchemaNode {
+  return {
+    ...withoutCombinators(node),
+    ...branch,
+    properties: { ...node.properties, ...branch.properties },
+    required: [
+      ...new Set([
+        ...(Array.isArray(node.required) ? node.required : []),
+        ...(Array.isArray(branch.required) ? branch.required : []),
+      ]),
+    ],
+  };
+}
+
+class ExampleBuilder {
+  readonly #mode: ExampleMode;
+
+  constructor(mode: ExampleMode) {
+    this.#mode = mode;
+  }
+
+  build(node: JsonSchemaNode, depth = 0, isRoot = false): unknown {
+    if (depth > MAX_DEPTH) return null;
+    if (node.const !== undefined) return node.const;
+    if (Array.isArray(node.enum)) {
+      const deprecated = getDeprecatedEnumValues(node);
+      const allowed = node.enum.filter(
+        (v) => v !== null && !deprecated.includes(String(v)),
+      );
+      return allowed.length > 0 ? allowed[0] : (node.enum[0] ?? null);
+    }
+
+    const branches = node.oneOf ?? node.anyOf;
+    if (Array.isArray(branches) && branches.length > 0) {
+      return this.#firstValidBranch(node, branches, depth, isRoot);
+    }
+
+    const types = schemaTypes(node);
+    const type =
+      types.find((t) => t !== "null") ??
+      (node.properties ? "object" : node.items ? "array" : types[0]);
+    switch (type) {
+      case "string":
+        return sampleString(node);
+      case "integer":
+      case "number":
+        return sampleNumber(node, type === "integer");
+      case "boolean":
+        return true;
+      case "null":
+        return null;
+      case "array":
+        return this.#buildArray(node, depth);
+      case "object":
+        return this.#buildObject(node, depth, isRoot);
+      default:
+        return null;
+    }
+  }
+
+  #buildArray(node: JsonSchemaNode, depth: number): unknown[] {
+    const items = Array.isArray(node.items) ? node.items[0] : node.items;
+    const minItems = typeof node.minItems === "number" ? node.minItems : 0;
+    const count = this.#mode === "maximal" ? Math.max(1, minItems) : minItems;
+    if (!isSchemaNode(items)) return [];
+    return Array.from({ length: count }, () => this.build(items, depth + 1));
+  }
+
+  #buildObject(
+    node: JsonSchemaNode,
+    depth: number,
+    isRoot: boolean,
+  ): Record<string, unknown> {
+    const properties = node.properties ?? {};
+    const out: Record<string, unknown> = {};
+    for (const key of objectKeys(node, this.#mode, isRoot)) {
+      out[key] = this.build(properties[key], depth + 1);
+    }
+    return out;
+  }
+
+  /**
+   * Builds a candidate per combinator branch (merged into the parent when the
+   * parent declares properties) and keeps the first that validates. When a
+   * maximal object matches several `oneOf` branches, it falls back to the
+   * branch's required keys plus every optional key that keeps it valid.
+   */
+  #firstValidBranch(
+    node: JsonSchemaNode,
+    branches: JsonSchemaNode[],
+    depth: number,
+    isRoot: boolean,
+  ): unknown {
+    const merge = node.properties || schemaTypes(node).includes("object");
+    const variants = branches.map((branch) =>
+      merge
+        ? withBranch(node, branch)
+        : { ...withoutCombinators(node), ...branch },
+    );
+    const isValid = (value: unknown) =>
+      validateAgainstSchema(node, value).valid;
+
+    for (const variant of variants) {
+      const candidate = this.build(variant, depth, isRoot);
+      if (isValid(candidate)) return candidate;
+    }
+
+    if (merge && this.#mode === "maximal") {
+      const minimal = new ExampleBuilder("minimal");
+      for (const variant of variants) {
+        const candidate = minimal.build(variant, depth, isRoot);
+        if (!isPlainObject(candidate) || !isValid(candidate)) continue;
+        for (const [key, child] of Object.entries(variant.properties ?? {})) {
+          if (key in candidate || child.deprecated === true) continue;
+          const extended = {
+            ...candidate,
+            [key]: this.build(child, depth + 1),
+          };
+          if (isValid(extended)) candidate[key] = extended[key];
+        }
+        return candidate;
+      }
+    }
+    return this.build(variants[0], depth, isRoot);
+  }
+}
+
+/**
+ * Synthesizes an instance of a dereferenced schema: `minimal` fills only
+ * required properties, `maximal` every non-deprecated one. The top-level
+ * `source_http_request` is always filled in.
+ */
+export function generateExample(
+  schema: JsonSchemaNode,
+  mode: ExampleMode,
+): unknown {
+  return new ExampleBuilder(mode).build(schema, 0, true);
+}
@@ -5,6 +5,7 @@ import { sha256, sha512 } from "multiformats/hashes/sha2";
 import { identity } from "multiformats/hashes/identity";
 import { base32 } from "multiformats/bases/base32";
 import { equals as u8eq } from "uint8arrays/equals";
+import { getConfig } from "../config.ts";
 import { logger } from "../logger.ts";
 import Hash from "ipfs-only-hash";
 import { ShardFileSchema, type ShardFile } from "../types/oracleOpenData.ts";
@@ -76,7 +77,9 @@ export async function fetchFromIpfs(cid: string): Promise<string> {
   ];
   for (const gateway of ipfsGateways) {
     try {
-      const response = await fetch(`${gateway}/ipfs/${cid}`);
+      const response = await fetch(`${gateway}/ipfs/${cid}`, {
+        signal: AbortSignal.timeout(getConfig().IPFS_GATEWAY_TIMEOUT_MS),
+      });
       if (response.ok) {
         const buffer = await response.arrayBuffer();
         const content = new Uint8Array(buffer);
@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { existsSync, unlinkSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { randomUUID } from "node:crypto";
+import { initializeDatabase } from "../db/migrate.ts";
+import { setDbInstance } from "../db/connectionRef.ts";
+import {
+  getLastFetchedLexiconSnapshot,
+  listLexiconSnapshots,
+} from "../db/repository.ts";
+
+vi.mock("./ipfs.ts", () => ({
+  getJsonByCid: vi.fn(),
+}));
+
+import { getJsonByCid } from "./ipfs.ts";
+import { fetchManifestSnapshot } from "./manifest.ts";
+import { setLexiconSource, type LexiconSource } from "./lexiconSource.ts";
+import {
+  getLexiconJsonByCid,
+  getLexiconStalenessMarker,
+  prefetchLexiconSchemas,
+} from "./lexiconCache.ts";
+
+const manifest = {
+  Address: { ipfsCid: "cid-address", type: "class" as const },
+  Lot: { ipfsCid: "cid-lot", type: "class" as const },
+};
+
+describe("lexiconCache", () => {
+  let testDbPath: string;
+  let db: Awaited<ReturnType<typeof initializeDatabase>>["db"];
+  let client: Awaited<ReturnType<typeof initializeDatabase>>["client"];
+
+  beforeEach(async () => {
+    testDbPath = join(
+      tmpdir(),
+      `lexicon-cache-test-${process.pid}-${randomUUID()}.sqlite`,
+    );
+    const result = await initializeDatabase(testDbPath);
+    db = result.db;
+    client = result.client;
+    setDbInstance(db);
+    vi.mocked(getJsonByCid).mockReset();
+  });
+
+  afterEach(() => {
+    setLexiconSource(null);
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    client.close();
+    if (existsSync(testDbPath)) {
+      unlinkSync(testDbPath);
+    }
+  });
+
+  it("serves schemas from the cache after the first fetch", async () => {
+    vi.mocked(getJsonByCid).mockResolvedValueOnce({ title: "Address" });
+
+    const first = await getLexiconJsonByCid("cid-address");
+    const second = await getLexiconJsonByCid("cid-address");
+
+    expect(first).toEqual({ title: "Address" });
+    expect(second).toEqual({ title: "Address" });
+    expect(getJsonByCid).toHaveBeenCalledTimes(1);
+  });
+
+  it("prefetches only schemas that are not cached yet", async () => {
+    vi.mocked(getJsonByCid).mockResolvedValueOnce({ title: "Address" });
+    await getLexiconJsonByCid("cid-address");
+
+    vi.mocked(getJsonByCid).mockRejectedValueOnce(new Error("offline"));
+    const summary = await prefetchLexiconSchemas(db, manifest);
+
+    expect(summary).toEqual({
+      total: 2,
+      alreadyCached: 1,
+      fetched: 0,
+      failed: [{ key: "Lot", cid: "cid-lot", error: "offline" }],
+    });
+  });
+
+  it("serves the last known manifest with a staleness marker when offline", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify(manifest), { status: 200 }),
+      );
+    vi.stubGlobal("fetch", fetchMock);
+
+    vi.spyOn(Date, "now").mockReturnValue(1_000_000);
+    const fresh = await fetchManifestSnapshot();
+    expect(fresh.stale).toBe(false);
+    expect(fresh.fetchedAt).toBe(1000);
+    expect(getLexiconStalenessMarker()).toEqual({});
+
+    // Within the TTL the cached manifest is served without a request.
+    vi.spyOn(Date, "now").mockReturnValue(1_060_000);
+    const cached = await fetchManifestSnapshot();
+    expect(cached.cid).toBe(fresh.cid);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockRejectedValueOnce(new Error("getaddrinfo ENOTFOUND"));
+    vi.spyOn(Date, "now").mockReturnValue(10_000_000);
+    const stale = await fetchManifestSnapshot();
+
+    expect(stale).toMatchObject({ cid: fresh.cid, stale: true, manifest });
+    expect(getLexiconStalenessMarker()).toEqual({
+      lexicon: {
+        stale: true,
+        manifestCid: fresh.cid,
+        fetchedAt: new Date(1_000_000).toISOString(),
+        reason: "getaddrinfo ENOTFOUND",
+      },
+    });
+    expect((await getLastFetchedLexiconSnapshot(db))?.lastFetchedAt).toBe(1000);
+  });
+
+  it("does not record manifests read from a local lexicon", async () => {
+    const local: LexiconSource = {
+      kind: "dir",
+      immutable: false,
+      location: "/lexicon",
+      readManifest: async () =>
+        JSON.stringify({ ...manifest, Draft: manifest.Lot }),
+      readSchema: async () => ({}) as never,
+    };
+    setLexiconSource(local);
+
+    const snapshot = await fetchManifestSnapshot();
+    expect(snapshot.manifest).toHaveProperty("Draft");
+    expect(await listLexiconSnapshots(db)).toEqual([]);
+
+    // Back on the published lexicon, the local manifest is not a cache hit
+    setLexiconSource(null);
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify(manifest), { status: 200 }),
+      );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const published = await fetchManifestSnapshot();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(published.manifest).toEqual(manifest);
+  });
+
+  it("fails instead of serving the published manifest when a local lexicon breaks", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify(manifest), { status: 200 }),
+        ),
+    );
+    await fetchManifestSnapshot();
+
+    setLexiconSource({
+      kind: "dir",
+      immutable: false,
+      location: "/lexicon",
+      readManifest: async () => {
+        throw new Error("ENOENT: manifest.json");
+      },
+      readSchema: async () => ({}) as never,
+    });
+
+    await expect(fetchManifestSnapshot()).rejects.toThrow("ENOENT");
+  });
+});
@@ -0,0 +1,139 @@
+import type { LibSQLDatabase } from "drizzle-orm/libsql";
+import { getDbInstance } from "../db/connectionRef.ts";
+import {
+  getCachedLexiconSchema,
+  listCachedLexiconSchemaCids,
+  saveCachedLexiconSchema,
+} from "../db/repository.ts";
+import { logger } from "../logger.ts";
+import { getLexiconSource } from "./lexiconSource.ts";
+import type { Manifest } from "../types/lexicon.ts";
+
+const PREFETCH_CONCURRENCY = 8;
+
+export interface LexiconStaleness {
+  stale: true;
+  manifestCid: string;
+  /** ISO time the lexicon last served this manifest. */
+  fetchedAt: string;
+  reason: string;
+}
+
+export interface PrefetchSummary {
+  total: number;
+  alreadyCached: number;
+  fetched: number;
+  failed: Array<{ key: string; cid: string; error: string }>;
+}
+
+let lastStaleness: LexiconStaleness | null = null;
+
+/**
+ * Remembers whether the most recent manifest load was served from the cache
+ * because the lexicon was unreachable.
+ */
+export function recordManifestStaleness(staleness: LexiconStaleness | null) {
+  lastStaleness = staleness;
+}
+
+/**
+ * Returns `{ lexicon: ... }` when the last manifest load fell back to a cached
+ * copy, so tool results can be spread with it; otherwise an empty object.
+ */
+export function getLexiconStalenessMarker(): { lexicon?: LexiconStaleness } {
+  return lastStaleness ? { lexicon: lastStaleness } : {};
+}
+
+/**
+ * Reads a lexicon schema document by CID, serving it from the local database
+ * when present. Without a database, or with a local lexicon source whose files
+ * may change under the same CID, this reads straight from the source.
+ */
+export async function getLexiconJsonByCid<T>(cid: string): Promise<T> {
+  const source = getLexiconSource();
+  const db = source.immutable ? getDbInstance() : null;
+  if (db) {
+    try {
+      const cached = await getCachedLexiconSchema(db, cid);
+      if (cached !== null) return JSON.parse(cached) as T;
+    } catch (error) {
+      logger.warn(
+        {
+          cid,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        "Failed to read lexicon schema cache",
+      );
+    }
+  }
+
+  const data = await source.readSchema<T>(cid);
+  if (db) {
+    await storeSchema(db, cid, data);
+  }
+  return data;
+}
+
+async function storeSchema(
+  db: LibSQLDatabase,
+  cid: string,
+  data: unknown,
+): Promise<void> {
+  try {
+    await saveCachedLexiconSchema(db, cid, JSON.stringify(data));
+  } catch (error) {
+    logger.warn(
+      {
+        cid,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      "Failed to write lexicon schema cache",
+    );
+  }
+}
+
+/**
+ * Downloads every schema the manifest references that is not cached yet, so
+ * the lexicon tools can run offline afterwards.
+ */
+export async function prefetchLexiconSchemas(
+  db: LibSQLDatabase,
+  manifest: Manifest,
+): Promise<PrefetchSummary> {
+  const source = getLexiconSource();
+  const cached = new Set(await listCachedLexiconSchemaCids(db));
+  const entries = Object.entries(manifest);
+  const pending = entries.filter(([, entry]) => !cached.has(entry.ipfsCid));
+  const summary: PrefetchSummary = {
+    total: entries.length,
+    alreadyCached: entries.length - pending.length,
+    fetched: 0,
+    failed: [],
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (next < pending.length) {
+      const [key, entry] = pending[next++];
+      try {
+        const data = await source.readSchema<unknown>(entry.ipfsCid);
+        await saveCachedLexiconSchema(db, entry.ipfsCid, JSON.stringify(data));
+        summary.fetched++;
+      } catch (error) {
+        summary.failed.push({
+          key,
+          cid: entry.ipfsCid,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  };
+  await Promise.all(
+    Array.from(
+      { length: Math.min(PREFETCH_CONCURRENCY, pending.length) },
+      worker,
+    ),
+  );
+
+  return summary;
+}
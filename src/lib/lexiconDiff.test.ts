@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { diffClassSchemas, diffManifests } from "./lexiconDiff.ts";
+import type { ClassSchema, Manifest } from "../types/lexicon.ts";
+
+describe("diffManifests", () => {
+  it("reports added, removed and re-pinned entries per type", () => {
+    const from: Manifest = {
+      Address: { ipfsCid: "cid-address-1", type: "class" },
+      Lot: { ipfsCid: "cid-lot", type: "class" },
+      property_has_lot: { ipfsCid: "cid-rel", type: "relationship" },
+      Seed: { ipfsCid: "cid-seed", type: "dataGroup" },
+    };
+    const to: Manifest = {
+      Address: { ipfsCid: "cid-address-2", type: "class" },
+      Structure: { ipfsCid: "cid-structure", type: "class" },
+      property_has_lot: { ipfsCid: "cid-rel", type: "relationship" },
+      Seed: { ipfsCid: "cid-seed", type: "dataGroup" },
+    };
+
+    const diff = diffManifests(from, to);
+
+    expect(diff.class).toEqual({
+      added: ["Structure"],
+      removed: ["Lot"],
+      repinned: [
+        { key: "Address", fromCid: "cid-address-1", toCid: "cid-address-2" },
+      ],
+    });
+    expect(diff.relationship).toEqual({ added: [], removed: [], repinned: [] });
+    expect(diff.dataGroup).toEqual({ added: [], removed: [], repinned: [] });
+  });
+
+  it("treats a type change as remove plus add", () => {
+    const diff = diffManifests(
+      { Thing: { ipfsCid: "a", type: "class" } },
+      { Thing: { ipfsCid: "a", type: "dataGroup" } },
+    );
+    expect(diff.class.removed).toEqual(["Thing"]);
+    expect(diff.dataGroup.added).toEqual(["Thing"]);
+  });
+});
+
+describe("diffClassSchemas", () => {
+  it("drills into property, type, enum and deprecation changes", () => {
+    const from: ClassSchema = {
+      type: "object",
+      properties: {
+        city: { type: "string" },
+        zip: { type: "string" },
+        units: { type: "integer" },
+        kind: { type: "string", enum: ["A", "B"] },
+      },
+    };
+    const to: ClassSchema = {
+      type: "object",
+      properties: {
+        city: { type: "string" },
+        units: { type: ["integer", "null"] },
+        kind: {
+          type: "string",
+          enum: ["A", "B", "C"],
+          deprecated_enum_values: ["B"],
+        },
+        legacy_code: { type: "string", deprecated: true },
+      },
+    };
+
+    const diff = diffClassSchemas(from, to);
+
+    expect(diff.addedProperties).toEqual(["legacy_code"]);
+    expect(diff.removedProperties).toEqual(["zip"]);
+    expect(diff.typeChanges).toEqual([
+      { property: "units", from: "integer", to: "integer | null" },
+    ]);
+    expect(diff.enumChanges).toEqual([
+      { property: "kind", added: ["C"], removed: [] },
+    ]);
+    expect(diff.newlyDeprecatedProperties).toEqual(["legacy_code"]);
+    expect(diff.newlyDeprecatedEnumValues).toEqual([
+      { property: "kind", values: ["B"] },
+    ]);
+  });
+});
@@ -0,0 +1,187 @@
+import { getDeprecatedEnumValues } from "./schemaValidator.ts";
+import type {
+  ClassSchema,
+  JsonSchemaNode,
+  Manifest,
+  ManifestEntryType,
+} from "../types/lexicon.ts";
+
+export interface RepinnedEntry {
+  key: string;
+  fromCid: string;
+  toCid: string;
+}
+
+export interface EntryTypeDiff {
+  added: string[];
+  removed: string[];
+  repinned: RepinnedEntry[];
+}
+
+export type ManifestDiff = Record<ManifestEntryType, EntryTypeDiff>;
+
+export interface PropertyTypeChange {
+  property: string;
+  from: string;
+  to: string;
+}
+
+export interface EnumChange {
+  property: string;
+  added: string[];
+  removed: string[];
+}
+
+export interface DeprecatedEnumValuesChange {
+  property: string;
+  values: string[];
+}
+
+export interface ClassSchemaDiff {
+  addedProperties: string[];
+  removedProperties: string[];
+  typeChanges: PropertyTypeChange[];
+  enumChanges: EnumChange[];
+  newlyDeprecatedProperties: string[];
+  newlyDeprecatedEnumValues: DeprecatedEnumValuesChange[];
+}
+
+const ENTRY_TYPES: ManifestEntryType[] = ["class", "relationship", "dataGroup"];
+
+/**
+ * Compares two manifests entry by entry. An entry whose type changed is
+ * reported as removed under the old type and added under the new one.
+ */
+export function diffManifests(from: Manifest, to: Manifest): ManifestDiff {
+  const diff = Object.fromEntries(
+    ENTRY_TYPES.map((type) => [type, { added: [], removed: [], repinned: [] }]),
+  ) as unknown as ManifestDiff;
+
+  for (const [key, entry] of Object.entries(to)) {
+    const previous = from[key];
+    if (!previous || previous.type !== entry.type) {
+      diff[entry.type].added.push(key);
+    } else if (previous.ipfsCid !== entry.ipfsCid) {
+      diff[entry.type].repinned.push({
+        key,
+        fromCid: previous.ipfsCid,
+        toCid: entry.ipfsCid,
+      });
+    }
+  }
+  for (const [key, entry] of Object.entries(from)) {
+    if (!to[key] || to[key].type !== entry.type) {
+      diff[entry.type].removed.push(key);
+    }
+  }
+
+  for (const type of ENTRY_TYPES) {
+    diff[type].added.sort();
+    diff[type].removed.sort();
+    diff[type].repinned.sort((a, b) => a.key.localeCompare(b.key));
+  }
+  return diff;
+}
+
+/**
+ * Collects top-level properties plus those declared in combinator branches;
+ * the first declaration of a key wins, as in listPropertiesByClassName.
+ */
+export function collectProperties(
+  schema: JsonSchemaNode,
+): Map<string, JsonSchemaNode> {
+  const props = new Map<string, JsonSchemaNode>();
+  const add = (node: JsonSchemaNode | null | undefined) => {
+    for (const [key, prop] of Object.entries(node?.properties ?? {})) {
+      if (!props.has(key)) props.set(key, prop);
+    }
+  };
+  add(schema);
+  for (const comb of ["oneOf", "allOf", "anyOf"] as const) {
+    for (const sub of schema[comb] ?? []) add(sub);
+  }
+  return props;
+}
+
+function describeType(node: JsonSchemaNode): string {
+  const type = Array.isArray(node.type)
+    ? node.type.map(String).sort().join(" | ")
+    : node.type === undefined
+      ? "any"
+      : String(node.type);
+  const items = node.items as JsonSchemaNode | undefined;
+  if (type === "array" && items && typeof items === "object") {
+    return `array<${describeType(items)}>`;
+  }
+  return type;
+}
+
+function enumValues(node: JsonSchemaNode): string[] {
+  return Array.isArray(node.enum) ? node.enum.map(String) : [];
+}
+
+/** Drills into two versions of one class schema. */
+export function diffClassSchemas(
+  from: ClassSchema,
+  to: ClassSchema,
+): ClassSchemaDiff {
+  const before = collectProperties(from);
+  const after = collectProperties(to);
+  const diff: ClassSchemaDiff = {
+    addedProperties: [],
+    removedProperties: [],
+    typeChanges: [],
+    enumChanges: [],
+    newlyDeprecatedProperties: [],
+    newlyDeprecatedEnumValues: [],
+  };
+
+  for (const key of before.keys()) {
+    if (!after.has(key)) diff.removedProperties.push(key);
+  }
+
+  for (const [key, next] of after) {
+    const prev = before.get(key);
+    if (!prev) {
+      diff.addedProperties.push(key);
+      if (next.deprecated === true) diff.newlyDeprecatedProperties.push(key);
+      continue;
+    }
+
+    const prevType = describeType(prev);
+    const nextType = describeType(next);
+    if (prevType !== nextType) {
+      diff.typeChanges.push({ property: key, from: prevType, to: nextType });
+    }
+
+    const prevEnum = new Set(enumValues(prev));
+    const nextEnum = new Set(enumValues(next));
+    const added = [...nextEnum].filter((v) => !prevEnum.has(v)).sort();
+    const removed = [...prevEnum].filter((v) => !nextEnum.has(v)).sort();
+    if (added.length > 0 || removed.length > 0) {
+      diff.enumChanges.push({ property: key, added, removed });
+    }
+
+    if (next.deprecated === true && prev.deprecated !== true) {
+      diff.newlyDeprecatedProperties.push(key);
+    }
+
+    const prevDeprecated = new Set(getDeprecatedEnumValues(prev));
+    const values = getDeprecatedEnumValues(next)
+      .filter((v) => !prevDeprecated.has(v))
+      .sort();
+    if (values.length > 0) {
+      diff.newlyDeprecatedEnumValues.push({ property: key, values });
+    }
+  }
+
+  diff.addedProperties.sort();
+  diff.removedProperties.sort();
+  diff.newlyDeprecatedProperties.sort();
+  diff.typeChanges.sort((a, b) => a.property.localeCompare(b.property));
+  diff.enumChanges.sort((a, b) => a.property.localeCompare(b.property));
+  diff.newlyDeprecatedEnumValues.sort((a, b) =>
+    a.property.localeCompare(b.property),
+  );
+  return diff;
+}
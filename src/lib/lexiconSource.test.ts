@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { simpleGit } from "simple-git";
+
+vi.mock("./ipfs.ts", () => ({ getJsonByCid: vi.fn() }));
+
+import { getJsonByCid } from "./ipfs.ts";
+import {
+  DirectoryLexiconSource,
+  GitLexiconSource,
+  UrlLexiconSource,
+} from "./lexiconSource.ts";
+
+const manifest = {
+  Address: { ipfsCid: "cid-address", type: "class" },
+  Lot: { ipfsCid: "cid-lot", type: "class" },
+  County: { ipfsCid: "cid-county", type: "dataGroup" },
+};
+
+function writeLexicon(root: string) {
+  mkdirSync(join(root, "classes"), { recursive: true });
+  mkdirSync(join(root, "data-groups"), { recursive: true });
+  writeFileSync(join(root, "schema-manifest.json"), JSON.stringify(manifest));
+  writeFileSync(
+    join(root, "classes", "address.json"),
+    JSON.stringify({ title: "address" }),
+  );
+  writeFileSync(
+    join(root, "data-groups", "cid-county.json"),
+    JSON.stringify({ title: "County" }),
+  );
+}
+
+describe("lexiconSource", () => {
+  let root: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    root = mkdtempSync(join(tmpdir(), "lexicon-source-test-"));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("reads schemas from a directory by manifest key or CID", async () => {
+    writeLexicon(root);
+    vi.mocked(getJsonByCid).mockResolvedValue({ title: "from ipfs" });
+    const source = new DirectoryLexiconSource(root, "schema-manifest.json");
+
+    expect(JSON.parse(await source.readManifest())).toEqual(manifest);
+    expect(await source.readSchema("cid-address")).toEqual({
+      title: "address",
+    });
+    expect(await source.readSchema("cid-county")).toEqual({ title: "County" });
+    expect(await source.readSchema("cid-lot")).toEqual({ title: "from ipfs" });
+    expect(getJsonByCid).toHaveBeenCalledWith("cid-lot");
+    expect(source.immutable).toBe(false);
+  });
+
+  it("reads a git checkout at the configured ref, not the worktree", async () => {
+    writeLexicon(root);
+    const git = simpleGit(root);
+    await git.init();
+    await git.addConfig("user.name", "test");
+    await git.addConfig("user.email", "test@example.com");
+    await git.add(".");
+    await git.commit("lexicon");
+    writeFileSync(
+      join(root, "classes", "address.json"),
+      JSON.stringify({ title: "uncommitted" }),
+    );
+
+    const source = new GitLexiconSource(root, "HEAD", "schema-manifest.json");
+    expect(await source.readSchema("cid-address")).toEqual({
+      title: "address",
+    });
+  });
+
+  it("revalidates the manifest URL with its ETag", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        new Response('{"a":1}', { status: 200, headers: { ETag: '"v1"' } }),
+      )
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const source = new UrlLexiconSource("https://example.test/m.json", 1000);
+
+    expect(await source.readManifest()).toBe('{"a":1}');
+    expect(await source.readManifest()).toBe('{"a":1}');
+    expect(fetchMock.mock.calls[0][1].headers).toEqual({});
+    expect(fetchMock.mock.calls[1][1].headers).toEqual({
+      "If-None-Match": '"v1"',
+    });
+  });
+
+  it("reports a manifest fetch timeout", async () => {
+    const timeout = new Error("aborted");
+    timeout.name = "TimeoutError";
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(timeout));
+    const source = new UrlLexiconSource("https://example.test/m.json", 250);
+
+    await expect(source.readManifest()).rejects.toThrow(
+      "Timed out after 250ms fetching manifest from https://example.test/m.json",
+    );
+  });
+});
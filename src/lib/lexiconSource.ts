@@ -0,0 +1,254 @@
+import { existsSync } from "node:fs";
+import { readFile, readdir } from "node:fs/promises";
+import path from "node:path";
+import { simpleGit, type SimpleGit } from "simple-git";
+import { getConfig, type Config } from "../config.ts";
+import { logger } from "../logger.ts";
+import { getJsonByCid } from "./ipfs.ts";
+
+export type LexiconSourceKind = Config["LEXICON_SOURCE"];
+
+/**
+ * Where lexicon manifests and schemas come from. Schemas are requested by the
+ * CID the manifest lists for them.
+ */
+export interface LexiconSource {
+  readonly kind: LexiconSourceKind;
+  /**
+   * True when a CID always names the same bytes, so schemas may be cached by
+   * CID forever and the manifest reused for its TTL. Local sources are not:
+   * an unpublished build can change under the same manifest.
+   */
+  readonly immutable: boolean;
+  /** Human-readable location, for logs and errors. */
+  readonly location: string;
+  readManifest(): Promise<string>;
+  readSchema<T>(cid: string): Promise<T>;
+}
+
+/**
+ * The published lexicon: the manifest from a URL, revalidated with
+ * `If-None-Match`/`If-Modified-Since`, and schemas from IPFS.
+ */
+export class UrlLexiconSource implements LexiconSource {
+  readonly kind = "url" as const;
+  readonly immutable = true;
+  readonly location: string;
+  #timeoutMs: number;
+  #validated: {
+    etag: string | null;
+    lastModified: string | null;
+    text: string;
+  } | null = null;
+
+  constructor(url: string, timeoutMs: number) {
+    this.location = url;
+    this.#timeoutMs = timeoutMs;
+  }
+
+  async readManifest(): Promise<string> {
+    const headers: Record<string, string> = {};
+    if (this.#validated?.etag) headers["If-None-Match"] = this.#validated.etag;
+    if (this.#validated?.lastModified) {
+      headers["If-Modified-Since"] = this.#validated.lastModified;
+    }
+
+    let res: Response;
+    try {
+      res = await fetch(this.location, {
+        headers,
+        signal: AbortSignal.timeout(this.#timeoutMs),
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === "TimeoutError") {
+        throw new Error(
+          `Timed out after ${this.#timeoutMs}ms fetching manifest from ${this.location}`,
+        );
+      }
+      throw error;
+    }
+
+    if (res.status === 304 && this.#validated) {
+      logger.debug({ url: this.location }, "Lexicon manifest not modified");
+      return this.#validated.text;
+    }
+    if (!res.ok) {
+      throw new Error(
+        `Failed to fetch manifest: ${res.status} ${res.statusText}`,
+      );
+    }
+
+    const text = await res.text();
+    const etag = res.headers.get("etag");
+    const lastModified = res.headers.get("last-modified");
+    this.#validated =
+      etag || lastModified ? { etag, lastModified, text } : null;
+    return text;
+  }
+
+  readSchema<T>(cid: string): Promise<T> {
+    return getJsonByCid<T>(cid);
+  }
+}
+
+/**
+ * Shared logic for unpublished lexicon builds: schemas are files named after
+ * their manifest key (`address.json`) or their CID (`<cid>.json`) anywhere
+ * under the root. CIDs not found locally, such as `$ref`s to published
+ * schemas, are fetched from IPFS.
+ */
+abstract class LocalLexiconSource implements LexiconSource {
+  abstract readonly kind: LexiconSourceKind;
+  readonly immutable = false;
+  abstract readonly location: string;
+  protected readonly manifestFile: string;
+  #keysByCid = new Map<string, string>();
+
+  constructor(manifestFile: string) {
+    this.manifestFile = manifestFile;
+  }
+
+  protected abstract readText(relativePath: string): Promise<string>;
+  protected abstract listJsonFiles(): Promise<string[]>;
+
+  async readManifest(): Promise<string> {
+    const text = await this.readText(this.manifestFile);
+    this.#keysByCid = new Map();
+    try {
+      const manifest = JSON.parse(text) as Record<string, { ipfsCid?: string }>;
+      for (const [key, entry] of Object.entries(manifest)) {
+        if (typeof entry?.ipfsCid === "string") {
+          this.#keysByCid.set(entry.ipfsCid, key);
+        }
+      }
+    } catch {
+      // Left to the manifest schema check, which reports it properly.
+    }
+    return text;
+  }
+
+  async readSchema<T>(cid: string): Promise<T> {
+    if (this.#keysByCid.size === 0) await this.readManifest();
+
+    const names = new Set([cid.toLowerCase()]);
+    const key = this.#keysByCid.get(cid);
+    if (key) names.add(key.trim().toLowerCase());
+
+    const file = (await this.listJsonFiles()).find((candidate) =>
+      names.has(path.posix.basename(candidate, ".json").toLowerCase()),
+    );
+    if (!file) {
+      logger.debug(
+        { cid, key, location: this.location },
+        "Schema not in local lexicon; fetching from IPFS",
+      );
+      return getJsonByCid<T>(cid);
+    }
+    return JSON.parse(await this.readText(file)) as T;
+  }
+}
+
+export class DirectoryLexiconSource extends LocalLexiconSource {
+  readonly kind = "dir" as const;
+  readonly location: string;
+
+  constructor(root: string, manifestFile: string) {
+    super(manifestFile);
+    this.location = path.resolve(root);
+  }
+
+  protected readText(relativePath: string): Promise<string> {
+    return readFile(path.join(this.location, relativePath), "utf8");
+  }
+
+  protected async listJsonFiles(): Promise<string[]> {
+    const entries = await readdir(this.location, {
+      recursive: true,
+      withFileTypes: true,
+    });
+    return entries
+      .filter((entry) => entry.isFile() && entry.name.endsWith(".json"))
+      .map((entry) =>
+        path
+          .relative(this.location, path.join(entry.parentPath, entry.name))
+          .split(path.sep)
+          .join("/"),
+      )
+      .sort();
+  }
+}
+
+/**
+ * A lexicon repository read at a fixed ref (default HEAD), so the manifest
+ * CID identifies a committed state rather than whatever is in the worktree.
+ */
+export class GitLexiconSource extends LocalLexiconSource {
+  readonly kind = "git" as const;
+  readonly location: string;
+  #git: SimpleGit;
+  #ref: string;
+
+  constructor(repoPath: string, ref: string, manifestFile: string) {
+    super(manifestFile);
+    this.#git = simpleGit(path.resolve(repoPath));
+    this.#ref = ref;
+    this.location = `${path.resolve(repoPath)}@${ref}`;
+  }
+
+  protected readText(relativePath: string): Promise<string> {
+    return this.#git.show([`${this.#ref}:${relativePath}`]);
+  }
+
+  protected async listJsonFiles(): Promise<string[]> {
+    const output = await this.#git.raw([
+      "ls-tree",
+      "-r",
+      "--name-only",
+      this.#ref,
+    ]);
+    return output
+      .split("\n")
+      .filter((name) => name.endsWith(".json"))
+      .sort();
+  }
+}
+
+export function createLexiconSource(config: Config): LexiconSource {
+  if (config.LEXICON_SOURCE === "url") {
+    return new UrlLexiconSource(
+      config.LEXICON_MANIFEST_URL,
+      config.LEXICON_FETCH_TIMEOUT_MS,
+    );
+  }
+
+  const root = config.LEXICON_PATH ?? "";
+  if (!existsSync(root)) {
+    throw new Error(`LEXICON_PATH '${root}' does not exist`);
+  }
+  return config.LEXICON_SOURCE === "dir"
+    ? new DirectoryLexiconSource(root, config.LEXICON_MANIFEST_FILE)
+    : new GitLexiconSource(
+        root,
+        config.LEXICON_GIT_REF,
+        config.LEXICON_MANIFEST_FILE,
+      );
+}
+
+let source: LexiconSource | null = null;
+
+/** The lexicon source selected by config, created on first use. */
+export function getLexiconSource(): LexiconSource {
+  if (!source) {
+    source = createLexiconSource(getConfig());
+    logger.info(
+      { kind: source.kind, location: source.location },
+      "Lexicon source configured",
+    );
+  }
+  return source;
+}
+
+/** Replaces the configured source; pass null to re-read config. */
+export function setLexiconSource(next: LexiconSource | null): void {
+  source = next;
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { embedLocally, tokenize } from "./localEmbedding.ts";
+
+const cosine = (a: number[], b: number[]) =>
+  a.reduce((sum, value, index) => sum + value * b[index], 0);
+
+describe("localEmbedding", () => {
+  it("splits words, punctuation and camelCase", () => {
+    expect(tokenize("parseParcelId(row.PIN_number)")).toEqual([
+      "parse",
+      "parcel",
+      "id",
+      "row",
+      "pin",
+      "number",
+    ]);
+  });
+
+  it("is deterministic and unit length", () => {
+    const first = embedLocally("function extractOwnerName(html)", 1024);
+    const second = embedLocally("function extractOwnerName(html)", 1024);
+
+    expect(first).toEqual(second);
+    expect(first).toHaveLength(1024);
+    expect(Math.hypot(...first)).toBeCloseTo(1, 6);
+  });
+
+  it("ranks texts with shared vocabulary closer", () => {
+    const query = embedLocally("owner name", 1024);
+    const related = embedLocally("extract the owner name from the deed", 1024);
+    const unrelated = embedLocally("compute building square footage", 1024);
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  it("embeds text without word characters", () => {
+    const vector = embedLocally("—", 64);
+
+    expect(Math.hypot(...vector)).toBeCloseTo(1, 6);
+  });
+});
@@ -0,0 +1,75 @@
+// Offline embedding model for air-gapped installs and tests. Word unigrams,
+// word bigrams and character trigrams are hashed into a fixed number of
+// buckets with a random sign (the "hashing trick"), weighted by sublinear
+// term frequency and L2-normalized, so cosine distance tracks shared
+// vocabulary. It is deterministic across processes and platforms.
+
+// Bump the version whenever the feature set changes so stored vectors are
+// never compared with vectors from a different projection
+export const LOCAL_EMBEDDING_MODEL = "local/hashed-ngram-v1";
+
+const WORD_WEIGHT = 1;
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.5;
+
+/** 32-bit FNV-1a over the UTF-16 code units of `value`. */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i += 1) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** Splits on non-alphanumerics and camelCase boundaries, lowercased. */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 0);
+}
+
+function countFeatures(
+  text: string,
+): Map<string, { weight: number; count: number }> {
+  const tokens = tokenize(text);
+  if (tokens.length === 0) tokens.push(text.trim());
+
+  const features = new Map<string, { weight: number; count: number }>();
+  const add = (feature: string, weight: number) => {
+    const entry = features.get(feature);
+    if (entry) entry.count += 1;
+    else features.set(feature, { weight, count: 1 });
+  };
+
+  tokens.forEach((token, index) => {
+    add(`w:${token}`, WORD_WEIGHT);
+    if (index > 0) add(`b:${tokens[index - 1]} ${token}`, BIGRAM_WEIGHT);
+    const padded = `^${token}$`;
+    for (let i = 0; i + 3 <= padded.length; i += 1) {
+      add(`c:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+    }
+  });
+
+  return features;
+}
+
+/**
+ * Projects `text` onto a unit vector of `dimensions` entries. Feature counts
+ * are dampened with 1 + ln(tf) so repeated boilerplate does not dominate.
+ */
+export function embedLocally(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+
+  for (const [feature, { weight, count }] of countFeatures(text)) {
+    const hash = fnv1a(feature);
+    // The sign spreads collisions around zero instead of piling them up
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % dimensions] += sign * weight * (1 + Math.log(count));
+  }
+
+  const norm = Math.hypot(...vector);
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+}
@@ -1,8 +1,16 @@
 import { z } from "zod";
+import Hash from "ipfs-only-hash";
 import type { Manifest } from "../types/lexicon.ts";
-
-export const MANIFEST_URL =
-  "https://lexicon.elephant.xyz/json-schemas/schema-manifest.json";
+import { getConfig } from "../config.ts";
+import { logger } from "../logger.ts";
+import { getDbInstance } from "../db/connectionRef.ts";
+import {
+  getLastFetchedLexiconSnapshot,
+  markLexiconSnapshotFetched,
+  saveLexiconSnapshot,
+} from "../db/repository.ts";
+import { recordManifestStaleness } from "./lexiconCache.ts";
+import { getLexiconSource } from "./lexiconSource.ts";
 
 export const manifestSchema = z.record(
   z.object({
@@ -11,18 +19,89 @@ export const manifestSchema = z.record(
   }),
 );
 
+export interface ManifestSnapshot {
+  manifest: Manifest;
+  /** Content CID of the raw manifest bytes; identifies the lexicon version. */
+  cid: string;
+  /** Seconds since epoch when the lexicon last served this manifest. */
+  fetchedAt: number;
+  /** True when the lexicon was unreachable and a cached copy was served. */
+  stale: boolean;
+}
+
 export function normalizeKey(key: string): string {
   return key.trim().toLowerCase();
 }
 
 export async function fetchManifest(): Promise<Manifest> {
-  const res = await fetch(MANIFEST_URL);
-  if (!res.ok) {
-    throw new Error(
-      `Failed to fetch manifest: ${res.status} ${res.statusText}`,
+  const { manifest } = await fetchManifestSnapshot();
+  return manifest;
+}
+
+/**
+ * Fetches the manifest together with the CID of its exact bytes, so callers
+ * can tell which lexicon version a schema was resolved from.
+ *
+ * With a database, the manifest is cached for LEXICON_MANIFEST_TTL_SECONDS.
+ * If the lexicon cannot be reached afterwards, the last known manifest is
+ * served with `stale: true` instead of failing. Local lexicon sources skip
+ * the TTL and are re-read on every call, so edits show up immediately; their
+ * unpublished manifests are not recorded as lexicon versions, and read or
+ * parse errors are thrown instead of falling back to a cached manifest.
+ */
+export async function fetchManifestSnapshot(): Promise<ManifestSnapshot> {
+  const source = getLexiconSource();
+  const db = getDbInstance();
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  // Only the published lexicon may stand in for itself; a local one that
+  // cannot be read must fail rather than turn into the published manifest
+  const cached =
+    db && source.immutable ? await getLastFetchedLexiconSnapshot(db) : null;
+
+  if (
+    source.immutable &&
+    cached?.lastFetchedAt != null &&
+    nowSeconds - cached.lastFetchedAt < getConfig().LEXICON_MANIFEST_TTL_SECONDS
+  ) {
+    recordManifestStaleness(null);
+    return {
+      manifest: cached.manifest as Manifest,
+      cid: cached.manifestCid,
+      fetchedAt: cached.lastFetchedAt,
+      stale: false,
+    };
+  }
+
+  let text: string;
+  try {
+    text = await source.readManifest();
+  } catch (error) {
+    if (cached?.lastFetchedAt == null) throw error;
+    const reason = error instanceof Error ? error.message : String(error);
+    logger.warn(
+      { manifestCid: cached.manifestCid, error: reason },
+      "Lexicon unreachable; serving cached manifest",
     );
+    recordManifestStaleness({
+      stale: true,
+      manifestCid: cached.manifestCid,
+      fetchedAt: new Date(cached.lastFetchedAt * 1000).toISOString(),
+      reason,
+    });
+    return {
+      manifest: cached.manifest as Manifest,
+      cid: cached.manifestCid,
+      fetchedAt: cached.lastFetchedAt,
+      stale: true,
+    };
+  }
+
+  const parsed = manifestSchema.parse(JSON.parse(text)) as Manifest;
+  const cid = await Hash.of(Buffer.from(text, "utf8"));
+  if (db && source.immutable) {
+    await saveLexiconSnapshot(db, cid, parsed);
+    await markLexiconSnapshotFetched(db, cid, nowSeconds);
   }
-  const json = await res.json();
-  const parsed = manifestSchema.parse(json);
-  return parsed as Manifest;
+  recordManifestStaleness(null);
+  return { manifest: parsed, cid, fetchedAt: nowSeconds, stale: false };
 }
@@ -1,26 +1,42 @@
 import { promises as fs } from "fs";
 import path from "path";
-// NOTE: tree-sitter and tree-sitter-javascript are native (node-gyp) addons and
+// NOTE: tree-sitter and its grammar packages are native (node-gyp) addons and
 // are declared in optionalDependencies. They may be absent in environments where
 // the native build fails (e.g. some CI/Vercel build machines). They are therefore
 // lazy-loaded below so importing this module never crashes at load time; the
 // code-indexer feature throws a clear, catchable error when they are unavailable.
 // Import the query file as raw text using Vite's ?raw suffix
 import querySourceRaw from "../queries/functions.scm?raw";
+import type { FunctionKind } from "../db/types.js";
 
-type ExtractedFunction = {
+export type ExtractedFunction = {
   name: string;
   code: string;
   filePath: string;
+  kind: FunctionKind;
+  /** Name of the enclosing class for methods, otherwise null. */
+  className: string | null;
+  exported: boolean;
+  /** 1-based, inclusive line range of `code` within the file. */
+  startLine: number;
+  endLine: number;
 };
 
+export type Grammar = "javascript" | "typescript" | "tsx";
+
 // Minimal structural types for the tree-sitter API we use, so the rest of this
 // module stays typed without a top-level static import of the native module.
 type SyntaxNodeLike = {
+  type: string;
   text: string;
   startIndex: number;
   endIndex: number;
+  startPosition: { row: number };
+  endPosition: { row: number };
   hasError: boolean;
+  parent: SyntaxNodeLike | null;
+  namedChildren: SyntaxNodeLike[];
+  childForFieldName(name: string): SyntaxNodeLike | null;
 };
 type QueryMatchLike = {
   captures: { name: string; node: SyntaxNodeLike }[];
@@ -38,13 +54,23 @@ type TreeSitterModule = {
   ) => {
     matches(rootNode: SyntaxNodeLike): QueryMatchLike[];
   };
-  JavaScript: unknown;
 };
 
 let treeSitterPromise: Promise<TreeSitterModule> | null = null;
+const grammarPromises = new Map<Grammar, Promise<unknown>>();
+
+function unavailable(packages: string, error: unknown): Error {
+  return new Error(
+    `Code indexer unavailable in this environment: the optional native ` +
+      `dependencies ${packages} are not installed ` +
+      `or failed to build. ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+  );
+}
 
 /**
- * Lazily load the optional native tree-sitter dependencies. Throws a clear,
+ * Lazily load the optional native tree-sitter runtime. Throws a clear,
  * catchable error if the native modules are not installed/buildable in this
  * environment. Callers (the code indexer) surface this as a feature-unavailable
  * condition rather than crashing the process or the build.
@@ -54,29 +80,65 @@ async function loadTreeSitter(): Promise<TreeSitterModule> {
     treeSitterPromise = (async () => {
       try {
         const parserMod = await import("tree-sitter");
-        const jsMod = await import("tree-sitter-javascript");
         const Parser = (parserMod.default ??
           parserMod) as TreeSitterModule["Parser"];
         const Query = (parserMod.Query ??
           (parserMod.default as unknown as { Query: unknown })?.Query ??
           (parserMod as unknown as { Query: unknown })
             .Query) as TreeSitterModule["Query"];
-        const JavaScript = (jsMod.default ?? jsMod) as unknown;
-        return { Parser, Query, JavaScript };
+        return { Parser, Query };
       } catch (error) {
-        throw new Error(
-          `Code indexer unavailable in this environment: the optional native ` +
-            `dependencies "tree-sitter"/"tree-sitter-javascript" are not installed ` +
-            `or failed to build. ${
-              error instanceof Error ? error.message : String(error)
-            }`,
-        );
+        throw unavailable(`"tree-sitter"`, error);
       }
     })();
   }
   return treeSitterPromise;
 }
 
+/**
+ * Lazily load one grammar. TypeScript and TSX share the
+ * "tree-sitter-typescript" package, so a missing TypeScript grammar only
+ * affects typed files; plain JavaScript keeps indexing.
+ */
+async function loadGrammar(grammar: Grammar): Promise<unknown> {
+  let promise = grammarPromises.get(grammar);
+  if (!promise) {
+    promise = (async () => {
+      if (grammar === "javascript") {
+        try {
+          const jsMod = await import("tree-sitter-javascript");
+          return (jsMod.default ?? jsMod) as unknown;
+        } catch (error) {
+          throw unavailable(`"tree-sitter-javascript"`, error);
+        }
+      }
+      try {
+        const tsMod = await import("tree-sitter-typescript");
+        const languages = (tsMod.default ?? tsMod) as Record<Grammar, unknown>;
+        return languages[grammar];
+      } catch (error) {
+        throw unavailable(`"tree-sitter-typescript"`, error);
+      }
+    })();
+    grammarPromises.set(grammar, promise);
+  }
+  return promise;
+}
+
+/** Picks the grammar for a file from its extension. */
+export function grammarForFile(filePath: string): Grammar {
+  switch (path.extname(filePath).toLowerCase()) {
+    case ".ts":
+    case ".mts":
+    case ".cts":
+      return "typescript";
+    case ".tsx":
+      return "tsx";
+    default:
+      return "javascript";
+  }
+}
+
 async function loadQuerySource(): Promise<Buffer> {
   return Buffer.from(querySourceRaw, "utf8");
 }
@@ -99,15 +161,17 @@ export async function extractFunctions(
     );
   }
 
-  const { Parser, Query, JavaScript } = await loadTreeSitter();
+  const grammar = grammarForFile(normalizedPath);
+  const { Parser, Query } = await loadTreeSitter();
+  const language = await loadGrammar(grammar);
 
   const parser = new Parser();
 
   try {
-    parser.setLanguage(JavaScript);
+    parser.setLanguage(language);
   } catch (error) {
     throw new Error(
-      `Failed to set JavaScript language: ${error instanceof Error ? error.message : String(error)}`,
+      `Failed to set ${grammar} language: ${error instanceof Error ? error.message : String(error)}`,
     );
   }
 
@@ -124,8 +188,8 @@ export async function extractFunctions(
     );
   }
 
-  const language = parser.getLanguage();
-  if (!language) {
+  const parserLanguage = parser.getLanguage();
+  if (!parserLanguage) {
     throw new Error("Failed to get language from parser");
   }
 
@@ -133,7 +197,7 @@ export async function extractFunctions(
 
   let query: InstanceType<TreeSitterModule["Query"]>;
   try {
-    query = new Query(language, querySource);
+    query = new Query(parserLanguage, querySource);
   } catch (error) {
     throw new Error(
       `Failed to create query: ${error instanceof Error ? error.message : String(error)}`,
@@ -141,6 +205,7 @@ export async function extractFunctions(
   }
 
   const results: ExtractedFunction[] = [];
+  const seen = new Set<number>();
   const matches: QueryMatchLike[] = query.matches(tree.rootNode);
 
   for (const m of matches) {
@@ -152,16 +217,111 @@ export async function extractFunctions(
       if (cap.name === "function.decl") declNode = cap.node;
     }
 
-    if (!nameNode || !declNode) continue;
+    if (!declNode || seen.has(declNode.startIndex)) continue;
 
-    const name = nameNode.text;
+    const entry = describeDeclaration(declNode, nameNode);
+    if (!entry) continue;
+
+    const name = entry.name;
     if (!name || name.trim() === "") continue;
 
-    const code = content.slice(declNode.startIndex, declNode.endIndex);
+    const code = content.slice(entry.node.startIndex, entry.node.endIndex);
     if (!code || code.trim() === "") continue;
 
-    results.push({ name, code, filePath: normalizedPath });
+    seen.add(declNode.startIndex);
+    results.push({
+      name,
+      code,
+      filePath: normalizedPath,
+      kind: entry.kind,
+      className: entry.className,
+      exported: entry.exported,
+      startLine: entry.node.startPosition.row + 1,
+      endLine: entry.node.endPosition.row + 1,
+    });
   }
 
   return results;
 }
+
+const CLASS_NODE_TYPES = new Set([
+  "class_declaration",
+  "abstract_class_declaration",
+  "class",
+]);
+
+function isExportedStatement(node: SyntaxNodeLike): boolean {
+  return node.parent?.type === "export_statement";
+}
+
+/**
+ * Classifies a captured declaration and picks the node whose source is
+ * indexed: a single-declarator `const`/`let` statement is kept whole so the
+ * snippet includes its keyword. Returns null for captures that are not
+ * indexed, such as exported `let` bindings that are not functions.
+ */
+function describeDeclaration(
+  decl: SyntaxNodeLike,
+  nameNode: SyntaxNodeLike | undefined,
+): {
+  name: string;
+  node: SyntaxNodeLike;
+  kind: FunctionKind;
+  className: string | null;
+  exported: boolean;
+} | null {
+  switch (decl.type) {
+    case "function_declaration":
+    case "generator_function_declaration":
+      return {
+        name: nameNode?.text ?? "",
+        node: decl,
+        kind: decl.type === "function_declaration" ? "function" : "generator",
+        className: null,
+        exported: isExportedStatement(decl),
+      };
+    case "method_definition": {
+      let owner = decl.parent;
+      while (owner && !CLASS_NODE_TYPES.has(owner.type)) owner = owner.parent;
+      return {
+        name: nameNode?.text ?? "",
+        node: decl,
+        kind: "method",
+        className: owner?.childForFieldName("name")?.text ?? null,
+        exported: owner ? isExportedStatement(owner) : false,
+      };
+    }
+    case "variable_declarator": {
+      const statement = decl.parent;
+      const keyword = statement?.childForFieldName("kind")?.text;
+      const value = decl.childForFieldName("value")?.type;
+      const kind: FunctionKind =
+        value === "arrow_function"
+          ? "arrow"
+          : value === "function_expression"
+            ? "function"
+            : value === "generator_function"
+              ? "generator"
+              : "const";
+      if (kind === "const" && keyword !== "const") return null;
+      const whole =
+        statement && statement.namedChildren.length === 1 ? statement : decl;
+      return {
+        name: nameNode?.text ?? "",
+        node: whole,
+        kind,
+        className: null,
+        exported: statement ? isExportedStatement(statement) : false,
+      };
+    }
+    default:
+      // Anonymous `export default` function or arrow function
+      return {
+        name: "default",
+        node: decl,
+        kind: decl.type === "arrow_function" ? "arrow" : "function",
+        className: null,
+        exported: true,
+      };
+  }
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { reciprocalRankFusion } from "./rankFusion.ts";
+
+describe("reciprocalRankFusion", () => {
+  it("rewards keys ranked by several lists and keeps best ranks", () => {
+    const fused = reciprocalRankFusion(
+      [
+        ["a", "b", "b", "c"],
+        ["b", "c"],
+      ],
+      (key) => key,
+    );
+
+    expect(fused.map((entry) => [entry.key, entry.ranks])).toEqual([
+      ["b", [2, 1]],
+      ["c", [3, 2]],
+      ["a", [1, null]],
+    ]);
+    expect(fused[0].score).toBeCloseTo(1 / 62 + 1 / 61);
+  });
+});
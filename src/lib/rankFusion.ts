@@ -0,0 +1,42 @@
+/** Damping constant from the original reciprocal-rank fusion paper. */
+export const RRF_K = 60;
+
+export interface FusedResult<K> {
+  key: K;
+  /** Sum of 1 / (k + rank) over the rankings that contain the key. */
+  score: number;
+  /** 1-based rank in each input ranking, or null when absent from it. */
+  ranks: (number | null)[];
+}
+
+/**
+ * Merges several rankings with reciprocal-rank fusion. Only ranks are used,
+ * so rankings with incomparable scores (cosine distance, BM25) can be
+ * combined. A key repeated within one ranking keeps its best rank. Ties keep
+ * the order in which keys were first seen.
+ */
+export function reciprocalRankFusion<T, K>(
+  rankings: T[][],
+  keyOf: (item: T) => K,
+  k: number = RRF_K,
+): FusedResult<K>[] {
+  const fused = new Map<K, FusedResult<K>>();
+
+  rankings.forEach((ranking, listIndex) => {
+    let rank = 0;
+    for (const item of ranking) {
+      const key = keyOf(item);
+      let entry = fused.get(key);
+      if (!entry) {
+        entry = { key, score: 0, ranks: rankings.map(() => null) };
+        fused.set(key, entry);
+      }
+      if (entry.ranks[listIndex] !== null) continue;
+      rank += 1;
+      entry.ranks[listIndex] = rank;
+      entry.score += 1 / (k + rank);
+    }
+  });
+
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,183 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  SchemaRefResolver,
+  flattenSchema,
+  parseCidRef,
+  parsePropertyPath,
+} from "./schemaRefs.ts";
+import type { JsonSchemaNode } from "../types/lexicon.ts";
+
+vi.mock("./ipfs.ts", () => ({ getJsonByCid: vi.fn() }));
+
+const CID = "bafkreiaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+
+describe("parsePropertyPath", () => {
+  it("parses dotted paths with array markers", () => {
+    expect(parsePropertyPath("layouts[].space_type")).toEqual([
+      { kind: "property", name: "layouts" },
+      { kind: "items" },
+      { kind: "property", name: "space_type" },
+    ]);
+    expect(parsePropertyPath("address.unit_identifier")).toHaveLength(2);
+  });
+
+  it("parses JSON Pointers", () => {
+    expect(parsePropertyPath("/layouts/0/space_type")).toEqual(
+      parsePropertyPath("layouts[0].space_type"),
+    );
+  });
+
+  it("rejects malformed paths", () => {
+    expect(() => parsePropertyPath("a..b")).toThrow("Invalid property path");
+    expect(() => parsePropertyPath("a[x]")).toThrow("Invalid property path");
+  });
+});
+
+describe("parseCidRef", () => {
+  it("recognizes ipfs URIs, gateway URLs and bare CIDs", () => {
+    expect(parseCidRef(`ipfs://${CID}#/definitions/a`)).toEqual({
+      cid: CID,
+      pointer: "#/definitions/a",
+    });
+    expect(parseCidRef(`https://ipfs.io/ipfs/${CID}`)).toEqual({
+      cid: CID,
+      pointer: "#",
+    });
+    expect(parseCidRef(CID)?.cid).toBe(CID);
+    expect(parseCidRef("#/definitions/a")).toBeNull();
+  });
+});
+
+describe("SchemaRefResolver", () => {
+  const shared: JsonSchemaNode = {
+    definitions: {
+      unit: {
+        type: "object",
+        properties: { unit_identifier: { type: "string" } },
+      },
+    },
+  };
+  const classSchema: JsonSchemaNode = {
+    type: "object",
+    properties: {
+      address: { $ref: `ipfs://${CID}#/definitions/unit` },
+      layouts: {
+        type: "array",
+        items: { $ref: "#/definitions/layout" },
+      },
+    },
+    definitions: {
+      layout: {
+        allOf: [
+          { properties: { space_type: { type: "string", enum: ["Bed"] } } },
+          {
+            properties: { size: { type: "number" } },
+            required: ["size"],
+          },
+        ],
+      },
+    },
+  };
+
+  it("walks nested paths through local and CID refs", async () => {
+    const load = vi.fn(async () => shared);
+    const resolver = new SchemaRefResolver(load);
+
+    const unit = await resolver.findAtPath(
+      classSchema,
+      parsePropertyPath("address.unit_identifier"),
+    );
+    expect(unit?.node).toEqual({ type: "string" });
+
+    const space = await resolver.findAtPath(
+      classSchema,
+      parsePropertyPath("layouts[].space_type"),
+    );
+    expect(space).toMatchObject({
+      node: { enum: ["Bed"] },
+      propertyKey: "space_type",
+      deprecated: false,
+    });
+
+    // An array property without [] steps into its items
+    expect(
+      await resolver.findAtPath(classSchema, parsePropertyPath("layouts.size")),
+    ).not.toBeNull();
+    expect(
+      await resolver.findAtPath(classSchema, parsePropertyPath("layouts.nope")),
+    ).toBeNull();
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("dereferences and flattens a whole schema", async () => {
+    const resolver = new SchemaRefResolver(async () => shared);
+    const flat = flattenSchema(
+      await resolver.dereference(classSchema, classSchema),
+    );
+
+    expect(flat).toEqual({
+      type: "object",
+      properties: {
+        address: {
+          type: "object",
+          properties: { unit_identifier: { type: "string" } },
+        },
+        layouts: {
+          type: "array",
+          items: {
+            properties: {
+              space_type: { type: "string", enum: ["Bed"] },
+              size: { type: "number" },
+            },
+            required: ["size"],
+          },
+        },
+      },
+    });
+  });
+
+  it("leaves recursive refs in place", async () => {
+    const tree: JsonSchemaNode = {
+      type: "object",
+      properties: { child: { $ref: "#" } },
+    };
+    const resolver = new SchemaRefResolver(async () => ({}));
+
+    expect(await resolver.dereference(tree, tree)).toEqual({
+      type: "object",
+      properties: { child: { $ref: "#" } },
+    });
+  });
+
+  it("keeps the definitions a recursive ref points into", async () => {
+    const schema: JsonSchemaNode = {
+      type: "object",
+      definitions: {
+        node: {
+          type: "object",
+          properties: {
+            label: { $ref: "#/definitions/label" },
+            children: { type: "array", items: { $ref: "#/definitions/node" } },
+          },
+        },
+        label: { type: "string" },
+      },
+      properties: { tree: { $ref: "#/definitions/node" } },
+    };
+    const resolver = new SchemaRefResolver(async () => ({}));
+
+    const out = await resolver.dereference(schema, schema);
+
+    expect(out.properties?.tree).toEqual({
+      type: "object",
+      properties: {
+        label: { type: "string" },
+        children: { type: "array", items: { $ref: "#/definitions/node" } },
+      },
+    });
+    expect(out.definitions).toEqual({
+      node: out.properties?.tree,
+      label: { type: "string" },
+    });
+  });
+});
@@ -0,0 +1,359 @@
+import type { JsonSchemaNode } from "../types/lexicon.ts";
+import { getLexiconJsonByCid } from "./lexiconCache.ts";
+import { normalizeKey } from "./manifest.ts";
+import { isSchemaNode, resolveLocalRef } from "./schemaValidator.ts";
+
+/** One step of a property path: a named property or "any array item". */
+export type PathSegment =
+  | { kind: "property"; name: string }
+  | { kind: "items" };
+
+export interface ResolvedSchema {
+  node: JsonSchemaNode;
+  /** Document that local `#/...` refs inside `node` resolve against. */
+  root: JsonSchemaNode;
+}
+
+export interface PathMatch extends ResolvedSchema {
+  /** Declared name of the last property on the path, if any. */
+  propertyKey: string | null;
+  /** True when any property along the path is marked deprecated. */
+  deprecated: boolean;
+}
+
+export type SchemaLoader = (cid: string) => Promise<JsonSchemaNode>;
+
+const COMBINATORS = ["oneOf", "allOf", "anyOf"] as const;
+const SCHEMA_MAP_KEYWORDS = ["properties", "patternProperties"] as const;
+const SCHEMA_KEYWORDS = [
+  "items",
+  "additionalProperties",
+  "contains",
+  "not",
+  "if",
+  "then",
+  "else",
+] as const;
+const DEFINITION_KEYWORDS = ["definitions", "$defs"];
+const CID_PATTERN = /^(Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{50,})$/;
+
+function isArraySchema(node: JsonSchemaNode): boolean {
+  const type = node.type;
+  return Array.isArray(type) ? type.includes("array") : type === "array";
+}
+
+/**
+ * Parses `address.unit_identifier`, `layouts[].space_type` (`[0]` also
+ * accepted) or a JSON Pointer such as `/layouts/0/space_type`, where numeric
+ * and `-` tokens step into array items.
+ */
+export function parsePropertyPath(path: string): PathSegment[] {
+  const trimmed = path.trim();
+  const invalid = () => new Error(`Invalid property path '${path}'`);
+  if (trimmed.length === 0) throw invalid();
+
+  const segments: PathSegment[] = [];
+  if (trimmed.startsWith("/")) {
+    for (const raw of trimmed.slice(1).split("/")) {
+      const token = raw.replace(/~1/g, "/").replace(/~0/g, "~");
+      if (token.length === 0) throw invalid();
+      segments.push(
+        token === "-" || /^\d+$/.test(token)
+          ? { kind: "items" }
+          : { kind: "property", name: token },
+      );
+    }
+    return segments;
+  }
+
+  for (const part of trimmed.split(".")) {
+    const match = /^([^[\]]*)((?:\[\d*\])*)$/.exec(part);
+    if (!match || (match[1] === "" && match[2] === "")) throw invalid();
+    if (match[1]) segments.push({ kind: "property", name: match[1] });
+    const itemSteps = match[2].match(/\[/g)?.length ?? 0;
+    for (let i = 0; i < itemSteps; i++) segments.push({ kind: "items" });
+  }
+  return segments;
+}
+
+/**
+ * Recognizes CID-based refs: `ipfs://<cid>`, gateway URLs containing
+ * `/ipfs/<cid>`, and bare CIDs, each with an optional `#/pointer`.
+ */
+export function parseCidRef(
+  ref: string,
+): { cid: string; pointer: string } | null {
+  const hash = ref.indexOf("#");
+  const base = hash === -1 ? ref : ref.slice(0, hash);
+  const pointer = hash === -1 ? "#" : ref.slice(hash);
+
+  let cid: string | undefined;
+  if (base.startsWith("ipfs://")) {
+    cid = base.slice("ipfs://".length).split("/")[0];
+  } else {
+    cid = /\/ipfs\/([^/?]+)/.exec(base)?.[1];
+    if (!cid && CID_PATTERN.test(base)) cid = base;
+  }
+  return cid ? { cid, pointer } : null;
+}
+
+/**
+ * Resolves local (`#/...`) and CID-based `$ref`s, walks property paths through
+ * them, and produces fully dereferenced schemas. Fetched documents are
+ * memoized per instance, so one resolver should serve one request.
+ */
+export class SchemaRefResolver {
+  #load: SchemaLoader;
+  #documents = new Map<string, Promise<JsonSchemaNode>>();
+
+  constructor(
+    load: SchemaLoader = (cid) => getLexiconJsonByCid<JsonSchemaNode>(cid),
+  ) {
+    this.#load = load;
+  }
+
+  #document(cid: string): Promise<JsonSchemaNode> {
+    let pending = this.#documents.get(cid);
+    if (!pending) {
+      pending = this.#load(cid);
+      this.#documents.set(cid, pending);
+    }
+    return pending;
+  }
+
+  async #resolveRef(
+    ref: string,
+    root: JsonSchemaNode,
+  ): Promise<ResolvedSchema | null> {
+    if (ref.startsWith("#")) {
+      const node = resolveLocalRef(root, ref);
+      return node ? { node, root } : null;
+    }
+    const parsed = parseCidRef(ref);
+    if (!parsed) return null;
+    const document = await this.#document(parsed.cid);
+    const node = resolveLocalRef(document, parsed.pointer);
+    return node ? { node, root: document } : null;
+  }
+
+  /**
+   * Follows a chain of `$ref`s to a node without one. Keywords written next
+   * to a `$ref` (such as `description` or `deprecated`) override the target.
+   */
+  async deref(
+    node: JsonSchemaNode,
+    root: JsonSchemaNode,
+  ): Promise<ResolvedSchema> {
+    const seen = new Set<string>();
+    let current: ResolvedSchema = { node, root };
+    while (typeof current.node.$ref === "string") {
+      const ref = current.node.$ref;
+      if (seen.has(ref)) throw new Error(`Circular $ref '${ref}'`);
+      seen.add(ref);
+
+      const target = await this.#resolveRef(ref, current.root);
+      if (!target) throw new Error(`Cannot resolve $ref '${ref}'`);
+      const siblings: JsonSchemaNode = { ...current.node };
+      delete siblings.$ref;
+      current = {
+        node:
+          Object.keys(siblings).length > 0
+            ? ({ ...target.node, ...siblings } as JsonSchemaNode)
+            : target.node,
+        root: target.root,
+      };
+    }
+    return current;
+  }
+
+  async #stepProperty(
+    context: ResolvedSchema,
+    name: string,
+  ): Promise<{ match: ResolvedSchema; key: string } | null> {
+    const { node, root } = await this.deref(context.node, context.root);
+
+    const props = node.properties;
+    if (props) {
+      const key = Object.keys(props).find(
+        (k) => normalizeKey(k) === normalizeKey(name),
+      );
+      if (key) return { match: { node: props[key], root }, key };
+    }
+
+    for (const comb of COMBINATORS) {
+      for (const sub of node[comb] ?? []) {
+        const found = await this.#stepProperty({ node: sub, root }, name);
+        if (found) return found;
+      }
+    }
+
+    // Let `layouts.space_type` mean the same as `layouts[].space_type`.
+    if (!props && isArraySchema(node)) {
+      const items = await this.#stepItems({ node, root });
+      if (items) return this.#stepProperty(items, name);
+    }
+    return null;
+  }
+
+  async #stepItems(context: ResolvedSchema): Promise<ResolvedSchema | null> {
+    const { node, root } = await this.deref(context.node, context.root);
+    const items = Array.isArray(node.items) ? node.items[0] : node.items;
+    if (isSchemaNode(items)) return { node: items, root };
+
+    for (const comb of COMBINATORS) {
+      for (const sub of node[comb] ?? []) {
+        const found = await this.#stepItems({ node: sub, root });
+        if (found) return found;
+      }
+    }
+    return null;
+  }
+
+  /** Walks a parsed property path from `root`; null if any step is missing. */
+  async findAtPath(
+    root: JsonSchemaNode,
+    segments: PathSegment[],
+  ): Promise<PathMatch | null> {
+    let current: ResolvedSchema = { node: root, root };
+    let propertyKey: string | null = null;
+    let deprecated = false;
+
+    for (const segment of segments) {
+      if (segment.kind === "items") {
+        const next = await this.#stepItems(current);
+        if (!next) return null;
+        current = next;
+        continue;
+      }
+      const next = await this.#stepProperty(current, segment.name);
+      if (!next) return null;
+      current = await this.deref(next.match.node, next.match.root);
+      propertyKey = next.key;
+      if (current.node.deprecated === true) deprecated = true;
+    }
+
+    return { ...current, propertyKey, deprecated };
+  }
+
+  /**
+   * Returns a copy of `node` with every `$ref` inlined and definition blocks
+   * dropped. A ref back into one of its own ancestors is left in place; the
+   * definition blocks of `root` are then kept, dereferenced, so the ref still
+   * resolves.
+   */
+  async dereference(
+    node: JsonSchemaNode,
+    root: JsonSchemaNode,
+  ): Promise<JsonSchemaNode> {
+    const unresolvedRoots = new Set<JsonSchemaNode>();
+    const out = await this.#dereference(node, root, [], unresolvedRoots);
+    if (!unresolvedRoots.has(root)) return out;
+
+    for (const key of DEFINITION_KEYWORDS) {
+      const definitions = root[key];
+      if (!isSchemaNode(definitions)) continue;
+      const copy: Record<string, unknown> = {};
+      for (const [name, child] of Object.entries(definitions)) {
+        copy[name] = isSchemaNode(child)
+          ? await this.#dereference(child, root, [], unresolvedRoots)
+          : child;
+      }
+      out[key] = copy;
+    }
+    return out;
+  }
+
+  async #dereference(
+    node: JsonSchemaNode,
+    root: JsonSchemaNode,
+    ancestors: JsonSchemaNode[],
+    unresolvedRoots: Set<JsonSchemaNode>,
+  ): Promise<JsonSchemaNode> {
+    let resolved: ResolvedSchema;
+    try {
+      resolved = await this.deref(node, root);
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith("Circular")) {
+        unresolvedRoots.add(root);
+        return { ...node };
+      }
+      throw error;
+    }
+    if (ancestors.includes(resolved.node)) {
+      unresolvedRoots.add(root);
+      return { ...node };
+    }
+    const stack = [...ancestors, resolved.node];
+    const visit = (child: JsonSchemaNode) =>
+      this.#dereference(child, resolved.root, stack, unresolvedRoots);
+
+    const out: JsonSchemaNode = {};
+    for (const [key, value] of Object.entries(resolved.node)) {
+      if (DEFINITION_KEYWORDS.includes(key)) continue;
+      out[key] = value;
+    }
+    for (const key of SCHEMA_MAP_KEYWORDS) {
+      const map = resolved.node[key];
+      if (!isSchemaNode(map)) continue;
+      const copy: Record<string, unknown> = {};
+      for (const [name, child] of Object.entries(map)) {
+        copy[name] = isSchemaNode(child) ? await visit(child) : child;
+      }
+      out[key] = copy as Record<string, JsonSchemaNode>;
+    }
+    for (const key of SCHEMA_KEYWORDS) {
+      const child = resolved.node[key];
+      if (isSchemaNode(child)) out[key] = await visit(child);
+      else if (Array.isArray(child)) {
+        out[key] = await Promise.all(
+          child.map((c) => (isSchemaNode(c) ? visit(c) : c)),
+        );
+      }
+    }
+    for (const comb of COMBINATORS) {
+      const branches = resolved.node[comb];
+      if (Array.isArray(branches)) {
+        out[comb] = await Promise.all(branches.map(visit));
+      }
+    }
+    return out;
+  }
+}
+
+/**
+ * Merges `allOf` branches into their parent (properties and `required` are
+ * unioned, the parent wins on other keywords) throughout a dereferenced
+ * schema. `oneOf`/`anyOf` alternatives are kept as they are.
+ */
+export function flattenSchema(node: JsonSchemaNode): JsonSchemaNode {
+  const { allOf, ...rest } = node;
+  const out: JsonSchemaNode = { ...rest };
+
+  for (const branch of allOf ?? []) {
+    const flat = flattenSchema(branch);
+    for (const [key, value] of Object.entries(flat)) {
+      if (key === "properties" && isSchemaNode(value)) {
+        out.properties = { ...(value as object), ...out.properties };
+      } else if (key === "required" && Array.isArray(value)) {
+        const required = Array.isArray(out.required) ? out.required : [];
+        out.required = [...new Set([...required, ...value])];
+      } else if (!(key in out)) {
+        out[key] = value;
+      }
+    }
+  }
+
+  if (out.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(out.properties).map(([key, child]) => [
+        key,
+        flattenSchema(child),
+      ]),
+    );
+  }
+  if (isSchemaNode(out.items)) out.items = flattenSchema(out.items);
+  for (const comb of ["oneOf", "anyOf"] as const) {
+    if (Array.isArray(out[comb])) out[comb] = out[comb].map(flattenSchema);
+  }
+  return out;
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import { validateAgainstSchema } from "./schemaValidator.ts";
+import type { JsonSchemaNode } from "../types/lexicon.ts";
+
+const addressSchema: JsonSchemaNode = {
+  type: "object",
+  required: ["street_name", "postal_code"],
+  additionalProperties: false,
+  properties: {
+    street_name: { type: "string", minLength: 1 },
+    postal_code: { type: "string", pattern: "^\\d{5}$" },
+    unit_identifier: { type: ["string", "null"] },
+    county_name: {
+      type: "string",
+      enum: ["Lee", "Broward", "Dade"],
+      deprecated_enum_values: { Dade: "Miami Dade" },
+    },
+    legacy_code: { type: "string", deprecated: true },
+    request_date: { type: "string", format: "date" },
+    layouts: {
+      type: "array",
+      items: { $ref: "#/definitions/layout" },
+    },
+  },
+  definitions: {
+    layout: {
+      type: "object",
+      required: ["space_type"],
+      properties: {
+        space_type: { type: "string", enum: ["Bedroom", "Kitchen"] },
+        size_square_feet: { type: "number", minimum: 0 },
+      },
+    },
+  },
+};
+
+describe("validateAgainstSchema", () => {
+  it("accepts a valid object", () => {
+    const report = validateAgainstSchema(addressSchema, {
+      street_name: "Main",
+      postal_code: "33901",
+      unit_identifier: null,
+      layouts: [{ space_type: "Kitchen", size_square_feet: 120 }],
+    });
+
+    expect(report).toEqual({
+      valid: true,
+      errors: [],
+      unknownProperties: [],
+      deprecatedProperties: [],
+      deprecatedEnumValues: [],
+    });
+  });
+
+  it("reports errors per JSON path, including through local $refs", () => {
+    const report = validateAgainstSchema(addressSchema, {
+      street_name: "",
+      request_date: "2024-02-30",
+      layouts: [{ size_square_feet: -1 }, { space_type: "Garage" }],
+    });
+
+    expect(report.valid).toBe(false);
+    expect(report.errors.map((e) => [e.path, e.keyword]).sort()).toEqual(
+      [
+        ["$.layouts[0].size_square_feet", "minimum"],
+        ["$.layouts[0].space_type", "required"],
+        ["$.layouts[1].space_type", "enum"],
+        ["$.postal_code", "required"],
+        ["$.request_date", "format"],
+        ["$.street_name", "minLength"],
+      ].sort(),
+    );
+  });
+
+  it("flags unknown keys, deprecated properties and deprecated enum values", () => {
+    const report = validateAgainstSchema(addressSchema, {
+      street_name: "Main",
+      postal_code: "33901",
+      county_name: "Dade",
+      legacy_code: "X",
+      parcel: "1",
+    });
+
+    expect(report.unknownProperties).toEqual(["$.parcel"]);
+    expect(report.deprecatedProperties).toEqual(["$.legacy_code"]);
+    expect(report.deprecatedEnumValues).toEqual([
+      { path: "$.county_name", value: "Dade", replacement: "Miami Dade" },
+    ]);
+    expect(report.errors).toEqual([
+      {
+        path: "$.parcel",
+        keyword: "additionalProperties",
+        message: "Property 'parcel' is not allowed",
+      },
+    ]);
+  });
+
+  it("treats keys declared by any combinator branch as known", () => {
+    const schema: JsonSchemaNode = {
+      type: "object",
+      oneOf: [
+        { required: ["a"], properties: { a: { type: "string" } } },
+        { required: ["b"], properties: { b: { type: "number" } } },
+      ],
+    };
+
+    expect(validateAgainstSchema(schema, { a: "x" }).valid).toBe(true);
+    expect(validateAgainstSchema(schema, { a: "x" }).unknownProperties).toEqual(
+      [],
+    );
+
+    const both = validateAgainstSchema(schema, { a: "x", b: 1 });
+    expect(both.errors.map((e) => e.keyword)).toEqual(["oneOf"]);
+
+    const neither = validateAgainstSchema(schema, { c: true });
+    expect(neither.unknownProperties).toEqual(["$.c"]);
+    expect(neither.errors[0]).toMatchObject({ path: "$", keyword: "oneOf" });
+  });
+
+  it("applies allOf and anyOf", () => {
+    const schema: JsonSchemaNode = {
+      allOf: [{ type: "object", required: ["id"] }],
+      anyOf: [
+        { properties: { id: { type: "string" } } },
+        { properties: { id: { type: "integer" } } },
+      ],
+    };
+
+    expect(validateAgainstSchema(schema, { id: 3 }).valid).toBe(true);
+    expect(
+      validateAgainstSchema(schema, {}).errors.map((e) => e.keyword),
+    ).toEqual(["required"]);
+    expect(
+      validateAgainstSchema(schema, { id: 1.5 }).errors.map((e) => e.keyword),
+    ).toContain("anyOf");
+  });
+});
@@ -0,0 +1,517 @@
+import type { JsonSchemaNode } from "../types/lexicon.ts";
+
+export interface SchemaIssue {
+  /** JSON path of the offending value, e.g. `$.layouts[0].space_type`. */
+  path: string;
+  /** JSON Schema keyword that failed, e.g. `required` or `enum`. */
+  keyword: string;
+  message: string;
+}
+
+export interface DeprecatedEnumUse {
+  path: string;
+  value: unknown;
+  /** Replacement hint when `deprecated_enum_values` is an object. */
+  replacement?: unknown;
+}
+
+export interface SchemaValidationReport {
+  valid: boolean;
+  errors: SchemaIssue[];
+  /** Paths of object keys not declared by any schema at that level. */
+  unknownProperties: string[];
+  /** Paths of present keys whose schema is marked `deprecated: true`. */
+  deprecatedProperties: string[];
+  deprecatedEnumValues: DeprecatedEnumUse[];
+}
+
+interface Findings {
+  errors: SchemaIssue[];
+  unknownProperties: string[];
+  deprecatedProperties: string[];
+  deprecatedEnumValues: DeprecatedEnumUse[];
+}
+
+const COMBINATORS = ["oneOf", "allOf", "anyOf"] as const;
+
+function emptyFindings(): Findings {
+  return {
+    errors: [],
+    unknownProperties: [],
+    deprecatedProperties: [],
+    deprecatedEnumValues: [],
+  };
+}
+
+function mergeFindings(target: Findings, source: Findings): void {
+  target.errors.push(...source.errors);
+  target.unknownProperties.push(...source.unknownProperties);
+  target.deprecatedProperties.push(...source.deprecatedProperties);
+  target.deprecatedEnumValues.push(...source.deprecatedEnumValues);
+}
+
+/** True for JSON objects, excluding arrays and null. */
+export function isPlainObject(
+  value: unknown,
+): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** True for values that can be read as a schema node. */
+export function isSchemaNode(value: unknown): value is JsonSchemaNode {
+  return isPlainObject(value);
+}
+
+function childPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key)
+    ? `${path}.${key}`
+    : `${path}[${JSON.stringify(key)}]`;
+}
+
+function jsonType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = jsonType(value);
+  if (type === "number") return actual === "number" || actual === "integer";
+  return actual === type;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => deepEqual(v, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    return (
+      keysA.length === keysB.length &&
+      keysA.every((k) => Object.hasOwn(b, k) && deepEqual(a[k], b[k]))
+    );
+  }
+  return false;
+}
+
+const FORMAT_CHECKS: Record<string, (value: string) => boolean> = {
+  date: (v) => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(v)) return false;
+    const d = new Date(`${v}T00:00:00Z`);
+    return !Number.isNaN(d.getTime()) && d.toISOString().startsWith(v);
+  },
+  "date-time": (v) =>
+    /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i.test(
+      v,
+    ) && !Number.isNaN(Date.parse(v)),
+  time: (v) => /^\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/i.test(v),
+  email: (v) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v),
+  uri: (v) => {
+    try {
+      return new URL(v).protocol.length > 1;
+    } catch {
+      return false;
+    }
+  },
+  uuid: (v) =>
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(v),
+  ipv4: (v) =>
+    /^(25[0-5]|2[0-4]\d|1?\d?\d)(\.(25[0-5]|2[0-4]\d|1?\d?\d)){3}$/.test(v),
+};
+
+/** Formats checked by the validator; any other format is an annotation. */
+export const SUPPORTED_FORMATS = Object.keys(FORMAT_CHECKS);
+
+export function checkFormat(format: string, value: string): boolean {
+  const check = FORMAT_CHECKS[format];
+  return check ? check(value) : true;
+}
+
+/** Returns the deprecated enum values declared on a schema node. */
+export function getDeprecatedEnumValues(node: JsonSchemaNode): string[] {
+  const deprecated = node.deprecated_enum_values;
+  if (!deprecated) return [];
+  return Array.isArray(deprecated)
+    ? deprecated.map(String)
+    : Object.keys(deprecated);
+}
+
+/**
+ * Resolves a local JSON Pointer `$ref` (`#/definitions/x`) against the root
+ * schema. Returns null for refs that cannot be resolved locally.
+ */
+export function resolveLocalRef(
+  root: JsonSchemaNode,
+  ref: string,
+): JsonSchemaNode | null {
+  if (ref === "#") return root;
+  if (!ref.startsWith("#/")) return null;
+  let current: unknown = root;
+  for (const raw of ref.slice(2).split("/")) {
+    const segment = decodeURIComponent(raw)
+      .replace(/~1/g, "/")
+      .replace(/~0/g, "~");
+    if (!isPlainObject(current) && !Array.isArray(current)) return null;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return isSchemaNode(current) ? current : null;
+}
+
+/**
+ * Collects every property key declared on a node, including keys declared in
+ * combinator branches, mirroring how listPropertiesByClassName unions them.
+ */
+export function collectDeclaredKeys(
+  node: JsonSchemaNode,
+  root: JsonSchemaNode,
+  seen = new Set<JsonSchemaNode>(),
+): Set<string> {
+  const keys = new Set<string>();
+  if (seen.has(node)) return keys;
+  seen.add(node);
+
+  const target =
+    typeof node.$ref === "string" ? resolveLocalRef(root, node.$ref) : null;
+  if (target) {
+    for (const key of collectDeclaredKeys(target, root, seen)) keys.add(key);
+  }
+  if (node.properties) {
+    for (const key of Object.keys(node.properties)) keys.add(key);
+  }
+  for (const comb of COMBINATORS) {
+    for (const sub of node[comb] ?? []) {
+      for (const key of collectDeclaredKeys(sub, root, seen)) keys.add(key);
+    }
+  }
+  for (const branch of ["then", "else"] as const) {
+    const sub = node[branch];
+    if (isSchemaNode(sub)) {
+      for (const key of collectDeclaredKeys(sub, root, seen)) keys.add(key);
+    }
+  }
+  return keys;
+}
+
+function allowsAdditional(node: JsonSchemaNode): boolean {
+  return node.additionalProperties !== false;
+}
+
+class Walker {
+  readonly #root: JsonSchemaNode;
+
+  constructor(root: JsonSchemaNode) {
+    this.#root = root;
+  }
+
+  /**
+   * Validates `value` against `node`. `isBranch` marks combinator branches so
+   * unknown-key detection only runs once per value location, against the
+   * union of keys declared by every branch.
+   */
+  walk(
+    node: JsonSchemaNode,
+    value: unknown,
+    path: string,
+    isBranch = false,
+  ): Findings {
+    const out = emptyFindings();
+    const error = (keyword: string, message: string) =>
+      out.errors.push({ path, keyword, message });
+
+    if (typeof node.$ref === "string") {
+      const target = resolveLocalRef(this.#root, node.$ref);
+      if (!target) {
+        error("$ref", `Cannot resolve $ref '${node.$ref}'`);
+      } else {
+        mergeFindings(out, this.walk(target, value, path, true));
+      }
+    }
+
+    if (node.type !== undefined) {
+      const types = Array.isArray(node.type) ? node.type : [node.type];
+      if (!types.some((t) => matchesType(value, String(t)))) {
+        error("type", `Expected ${types.join(" | ")}, got ${jsonType(value)}`);
+        // Further keyword checks would only repeat the type mismatch.
+        return out;
+      }
+    }
+
+    if (node.const !== undefined && !deepEqual(value, node.const)) {
+      error("const", `Must equal ${JSON.stringify(node.const)}`);
+    }
+
+    if (Array.isArray(node.enum)) {
+      if (!node.enum.some((candidate) => deepEqual(candidate, value))) {
+        error(
+          "enum",
+          `Must be one of ${node.enum.map((v) => JSON.stringify(v)).join(", ")}`,
+        );
+      }
+      const deprecated = getDeprecatedEnumValues(node);
+      if (value !== null && deprecated.includes(String(value))) {
+        const hints = node.deprecated_enum_values;
+        const replacement =
+          hints && !Array.isArray(hints) ? hints[String(value)] : undefined;
+        out.deprecatedEnumValues.push(
+          replacement === undefined || replacement === null
+            ? { path, value }
+            : { path, value, replacement },
+        );
+      }
+    }
+
+    if (typeof value === "string") this.#checkString(node, value, error);
+    if (typeof value === "number") this.#checkNumber(node, value, error);
+    if (Array.isArray(value)) this.#checkArray(node, value, path, out);
+    if (isPlainObject(value)) {
+      this.#checkObject(node, value, path, out, isBranch);
+    }
+
+    this.#checkCombinators(node, value, path, out);
+    return out;
+  }
+
+  #checkString(
+    node: JsonSchemaNode,
+    value: string,
+    error: (keyword: string, message: string) => void,
+  ): void {
+    if (typeof node.minLength === "number" && value.length < node.minLength) {
+      error("minLength", `Must be at least ${node.minLength} characters`);
+    }
+    if (typeof node.maxLength === "number" && value.length > node.maxLength) {
+      error("maxLength", `Must be at most ${node.maxLength} characters`);
+    }
+    if (typeof node.pattern === "string") {
+      let matched = true;
+      try {
+        matched = new RegExp(node.pattern, "u").test(value);
+      } catch {
+        matched = new RegExp(node.pattern).test(value);
+      }
+      if (!matched) error("pattern", `Must match pattern ${node.pattern}`);
+    }
+    if (typeof node.format === "string" && !checkFormat(node.format, value)) {
+      error("format", `Must be a valid ${node.format}`);
+    }
+  }
+
+  #checkNumber(
+    node: JsonSchemaNode,
+    value: number,
+    error: (keyword: string, message: string) => void,
+  ): void {
+    if (typeof node.minimum === "number" && value < node.minimum) {
+      error("minimum", `Must be >= ${node.minimum}`);
+    }
+    if (typeof node.maximum === "number" && value > node.maximum) {
+      error("maximum", `Must be <= ${node.maximum}`);
+    }
+    if (
+      typeof node.exclusiveMinimum === "number" &&
+      value <= node.exclusiveMinimum
+    ) {
+      error("exclusiveMinimum", `Must be > ${node.exclusiveMinimum}`);
+    }
+    if (
+      typeof node.exclusiveMaximum === "number" &&
+      value >= node.exclusiveMaximum
+    ) {
+      error("exclusiveMaximum", `Must be < ${node.exclusiveMaximum}`);
+    }
+    if (typeof node.multipleOf === "number" && node.multipleOf > 0) {
+      const quotient = value / node.multipleOf;
+      if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+        error("multipleOf", `Must be a multiple of ${node.multipleOf}`);
+      }
+    }
+  }
+
+  #checkArray(
+    node: JsonSchemaNode,
+    value: unknown[],
+    path: string,
+    out: Findings,
+  ): void {
+    const error = (keyword: string, message: string) =>
+      out.errors.push({ path, keyword, message });
+
+    if (typeof node.minItems === "number" && value.length < node.minItems) {
+      error("minItems", `Must contain at least ${node.minItems} items`);
+    }
+    if (typeof node.maxItems === "number" && value.length > node.maxItems) {
+      error("maxItems", `Must contain at most ${node.maxItems} items`);
+    }
+    if (node.uniqueItems === true) {
+      const duplicate = value.findIndex((item, i) =>
+        value.slice(0, i).some((prev) => deepEqual(prev, item)),
+      );
+      if (duplicate >= 0) {
+        error("uniqueItems", `Item ${duplicate} duplicates an earlier item`);
+      }
+    }
+
+    const items = node.items;
+    value.forEach((item, index) => {
+      const itemSchema = Array.isArray(items) ? items[index] : items;
+      if (isSchemaNode(itemSchema)) {
+        mergeFindings(out, this.walk(itemSchema, item, `${path}[${index}]`));
+      }
+    });
+  }
+
+  #checkObject(
+    node: JsonSchemaNode,
+    value: Record<string, unknown>,
+    path: string,
+    out: Findings,
+    isBranch: boolean,
+  ): void {
+    const properties = node.properties ?? {};
+
+    if (Array.isArray(node.required)) {
+      for (const key of node.required) {
+        if (typeof key === "string" && !Object.hasOwn(value, key)) {
+          out.errors.push({
+            path: childPath(path, key),
+            keyword: "required",
+            message: `Missing required property '${key}'`,
+          });
+        }
+      }
+    }
+
+    const declared = isBranch ? null : collectDeclaredKeys(node, this.#root);
+
+    for (const [key, child] of Object.entries(value)) {
+      const propPath = childPath(path, key);
+      const propSchema = properties[key];
+
+      if (propSchema) {
+        if (propSchema.deprecated === true) {
+          out.deprecatedProperties.push(propPath);
+        }
+        mergeFindings(out, this.walk(propSchema, child, propPath));
+        continue;
+      }
+
+      if (declared && !declared.has(key)) {
+        out.unknownProperties.push(propPath);
+      }
+
+      const additional = node.additionalProperties;
+      if (isSchemaNode(additional)) {
+        mergeFindings(out, this.walk(additional, child, propPath));
+      } else if (!allowsAdditional(node)) {
+        out.errors.push({
+          path: propPath,
+          keyword: "additionalProperties",
+          message: `Property '${key}' is not allowed`,
+        });
+      }
+    }
+  }
+
+  #checkCombinators(
+    node: JsonSchemaNode,
+    value: unknown,
+    path: string,
+    out: Findings,
+  ): void {
+    for (const sub of node.allOf ?? []) {
+      mergeFindings(out, this.walk(sub, value, path, true));
+    }
+
+    for (const comb of ["anyOf", "oneOf"] as const) {
+      const branches = node[comb];
+      if (!Array.isArray(branches) || branches.length === 0) continue;
+
+      const results = branches.map((sub) => this.walk(sub, value, path, true));
+      const passing = results.filter((r) => r.errors.length === 0);
+
+      if (passing.length === 0) {
+        // Report the closest branch so callers get actionable detail.
+        const closest = results.reduce((best, r) =>
+          r.errors.length < best.errors.length ? r : best,
+        );
+        out.errors.push({
+          path,
+          keyword: comb,
+          message: `Must match ${comb === "oneOf" ? "exactly one" : "at least one"} schema in ${comb}; closest branch failed with ${closest.errors.length} error(s)`,
+        });
+        mergeFindings(out, closest);
+      } else if (comb === "oneOf" && passing.length > 1) {
+        out.errors.push({
+          path,
+          keyword: "oneOf",
+          message: `Must match exactly one schema in oneOf, matched ${passing.length}`,
+        });
+        mergeFindings(out, { ...passing[0], errors: [] });
+      } else {
+        mergeFindings(out, passing[0]);
+      }
+    }
+
+    if (isSchemaNode(node.not)) {
+      if (this.walk(node.not, value, path, true).errors.length === 0) {
+        out.errors.push({
+          path,
+          keyword: "not",
+          message: "Must not match the schema in 'not'",
+        });
+      }
+    }
+
+    if (isSchemaNode(node.if)) {
+      const branch =
+        this.walk(node.if, value, path, true).errors.length === 0
+          ? node.then
+          : node.else;
+      if (isSchemaNode(branch)) {
+        mergeFindings(out, this.walk(branch, value, path, true));
+      }
+    }
+  }
+}
+
+function uniqueBy<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const k = key(item);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+/**
+ * Validates a JSON value against a lexicon JSON Schema, including the
+ * `oneOf`/`allOf`/`anyOf` combinators and local `$ref`s, and reports unknown
+ * keys and use of deprecated properties and enum values alongside errors.
+ */
+export function validateAgainstSchema(
+  schema: JsonSchemaNode,
+  value: unknown,
+): SchemaValidationReport {
+  const findings = new Walker(schema).walk(schema, value, "$");
+  const errors = uniqueBy(
+    findings.errors,
+    (e) => `${e.path}\u0000${e.keyword}\u0000${e.message}`,
+  );
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    unknownProperties: [...new Set(findings.unknownProperties)].sort(),
+    deprecatedProperties: [...new Set(findings.deprecatedProperties)].sort(),
+    deprecatedEnumValues: uniqueBy(
+      findings.deprecatedEnumValues,
+      (d) => `${d.path}\u0000${String(d.value)}`,
+    ),
+  };
+}
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { LibSQLDatabase } from "drizzle-orm/libsql";
+import type { IndexerOptions } from "../types/entities.js";
+
+vi.mock("./verifiedIndexer.js", () => ({
+  indexVerifiedScriptRepos: vi.fn(),
+}));
+
+const { indexVerifiedScriptRepos } = await import("./verifiedIndexer.js");
+const {
+  getScriptIndexStatus,
+  isScriptIndexRunning,
+  onScriptIndexStatus,
+  resetScriptIndexStatus,
+  runScriptIndexing,
+} = await import("./scriptIndexStatus.js");
+
+const db = {} as LibSQLDatabase;
+const repos = [{ label: "public", url: "https://x/y.git", branch: "main" }];
+const summary = { purgedFunctions: 0, repos: [], failures: [] };
+
+describe("scriptIndexStatus", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetScriptIndexStatus();
+  });
+
+  it("starts idle", () => {
+    expect(getScriptIndexStatus()).toMatchObject({
+      state: "idle",
+      filesProcessed: 0,
+      lastError: null,
+    });
+  });
+
+  it("tracks progress across repositories and returns to idle", async () => {
+    const seen: string[] = [];
+    onScriptIndexStatus((status) =>
+      seen.push(`${status.state}:${status.filesProcessed}`),
+    );
+    vi.mocked(indexVerifiedScriptRepos).mockImplementation(
+      async (_db, _repos, opts) => {
+        const onProgress = (opts as IndexerOptions).onProgress!;
+        onProgress({
+          repo: "public",
+          phase: "embedding",
+          filesProcessed: 1,
+          filesTotal: 3,
+          functionsSaved: 2,
+        });
+        onProgress({
+          repo: "private",
+          phase: "embedding",
+          filesProcessed: 1,
+          filesTotal: 2,
+          functionsSaved: 1,
+        });
+        expect(getScriptIndexStatus()).toMatchObject({
+          state: "embedding",
+          repo: "private",
+          filesProcessed: 2,
+          filesRemaining: 3,
+          functionsSaved: 3,
+        });
+        return summary;
+      },
+    );
+
+    await runScriptIndexing(db, repos, { dataDir: "/data" });
+
+    expect(seen).toEqual(["cloning:0", "embedding:1", "embedding:2", "idle:2"]);
+    expect(getScriptIndexStatus().finishedAt).not.toBeNull();
+    expect(isScriptIndexRunning()).toBe(false);
+  });
+
+  it("joins a run in progress", async () => {
+    let finish: (value: typeof summary) => void = () => undefined;
+    vi.mocked(indexVerifiedScriptRepos).mockReturnValue(
+      new Promise((resolve) => {
+        finish = resolve;
+      }),
+    );
+
+    const first = runScriptIndexing(db, repos, {
+      dataDir: "/data",
+      fullRescan: true,
+    });
+    const second = runScriptIndexing(db, repos, { dataDir: "/data" });
+    const third = runScriptIndexing(db, repos, {
+      dataDir: "/data",
+      fullRescan: true,
+    });
+    expect(isScriptIndexRunning()).toBe(true);
+    finish(summary);
+
+    expect(await second).toBe(await first);
+    expect(await third).toBe(await first);
+    expect(indexVerifiedScriptRepos).toHaveBeenCalledTimes(1);
+  });
+
+  it("queues one full rescan requested during an incremental run", async () => {
+    let finish: (value: typeof summary) => void = () => undefined;
+    const fullSummary = { ...summary, purgedFunctions: 4 };
+    vi.mocked(indexVerifiedScriptRepos)
+      .mockReturnValueOnce(
+        new Promise((resolve) => {
+          finish = resolve;
+        }),
+      )
+      .mockResolvedValueOnce(fullSummary);
+
+    const incremental = runScriptIndexing(db, repos, { dataDir: "/data" });
+    const full = runScriptIndexing(db, repos, {
+      dataDir: "/data",
+      fullRescan: true,
+    });
+    const fullAgain = runScriptIndexing(db, repos, {
+      dataDir: "/data",
+      fullRescan: true,
+    });
+    expect(indexVerifiedScriptRepos).toHaveBeenCalledTimes(1);
+    finish(summary);
+
+    expect(await incremental).toBe(summary);
+    expect(await full).toBe(fullSummary);
+    expect(await fullAgain).toBe(fullSummary);
+    expect(indexVerifiedScriptRepos).toHaveBeenCalledTimes(2);
+    expect(
+      vi.mocked(indexVerifiedScriptRepos).mock.calls[1]?.[2],
+    ).toMatchObject({ fullRescan: true });
+    expect(isScriptIndexRunning()).toBe(false);
+  });
+
+  it("reports failed repositories and thrown errors", async () => {
+    vi.mocked(indexVerifiedScriptRepos).mockResolvedValueOnce({
+      ...summary,
+      failures: [{ repo: "private", error: "auth failed" }],
+    });
+    await runScriptIndexing(db, repos, { dataDir: "/data" });
+    expect(getScriptIndexStatus()).toMatchObject({
+      state: "failed",
+      lastError: "private: auth failed",
+    });
+
+    vi.mocked(indexVerifiedScriptRepos).mockRejectedValueOnce(
+      new Error("disk full"),
+    );
+    await expect(
+      runScriptIndexing(db, repos, { dataDir: "/data" }),
+    ).rejects.toThrow("disk full");
+    expect(getScriptIndexStatus()).toMatchObject({
+      state: "failed",
+      lastError: "disk full",
+    });
+  });
+});
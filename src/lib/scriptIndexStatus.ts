@@ -0,0 +1,154 @@
+import type { LibSQLDatabase } from "drizzle-orm/libsql";
+import { indexVerifiedScriptRepos } from "./verifiedIndexer.js";
+import type { VerifiedScriptsRepo } from "../config.js";
+import type {
+  IndexProgress,
+  RepositoriesIndexSummary,
+} from "../types/entities.js";
+
+export type ScriptIndexState = "idle" | "cloning" | "embedding" | "failed";
+
+export interface ScriptIndexStatus {
+  state: ScriptIndexState;
+  /** Repository currently being indexed. */
+  repo: string | null;
+  /** Totals across the repositories of the current or last run. */
+  filesProcessed: number;
+  filesRemaining: number;
+  functionsSaved: number;
+  lastError: string | null;
+  /** ISO timestamps of the current or last run. */
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+type StatusListener = (status: ScriptIndexStatus) => void;
+
+const IDLE: ScriptIndexStatus = {
+  state: "idle",
+  repo: null,
+  filesProcessed: 0,
+  filesRemaining: 0,
+  functionsSaved: 0,
+  lastError: null,
+  startedAt: null,
+  finishedAt: null,
+};
+
+let status: ScriptIndexStatus = { ...IDLE };
+let currentRun: Promise<RepositoriesIndexSummary> | null = null;
+let currentRunIsFull = false;
+let queuedFullRun: Promise<RepositoriesIndexSummary> | null = null;
+const progressByRepo = new Map<string, IndexProgress>();
+const listeners = new Set<StatusListener>();
+
+function update(patch: Partial<ScriptIndexStatus>): void {
+  status = { ...status, ...patch };
+  const snapshot = getScriptIndexStatus();
+  for (const listener of listeners) listener(snapshot);
+}
+
+function recordProgress(progress: IndexProgress): void {
+  progressByRepo.set(progress.repo, progress);
+  let filesProcessed = 0;
+  let filesRemaining = 0;
+  let functionsSaved = 0;
+  for (const entry of progressByRepo.values()) {
+    filesProcessed += entry.filesProcessed;
+    filesRemaining += entry.filesTotal - entry.filesProcessed;
+    functionsSaved += entry.functionsSaved;
+  }
+  update({
+    state: progress.phase,
+    repo: progress.repo,
+    filesProcessed,
+    filesRemaining,
+    functionsSaved,
+  });
+}
+
+export function getScriptIndexStatus(): ScriptIndexStatus {
+  return { ...status };
+}
+
+/** Calls `listener` on every status change; returns an unsubscribe function. */
+export function onScriptIndexStatus(listener: StatusListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function isScriptIndexRunning(): boolean {
+  return currentRun !== null || queuedFullRun !== null;
+}
+
+/**
+ * Indexes the configured repositories while tracking progress. Only one run
+ * happens at a time: a call during a run joins it instead of starting another.
+ * A full rescan requested during an incremental run, which would skip
+ * unchanged files, is queued once and starts when that run finishes.
+ */
+export function runScriptIndexing(
+  db: LibSQLDatabase,
+  repos: VerifiedScriptsRepo[],
+  opts: { dataDir: string; fullRescan?: boolean },
+): Promise<RepositoriesIndexSummary> {
+  if (currentRun) {
+    if (!opts.fullRescan || currentRunIsFull) return currentRun;
+    queuedFullRun ??= currentRun
+      .catch(() => undefined)
+      .then(() => {
+        queuedFullRun = null;
+        return runScriptIndexing(db, repos, opts);
+      });
+    return queuedFullRun;
+  }
+
+  progressByRepo.clear();
+  update({
+    ...IDLE,
+    state: "cloning",
+    startedAt: new Date().toISOString(),
+  });
+
+  currentRunIsFull = opts.fullRescan === true;
+  currentRun = indexVerifiedScriptRepos(db, repos, {
+    ...opts,
+    onProgress: recordProgress,
+  })
+    .then((summary) => {
+      const failures = summary.failures.map(
+        (failure) => `${failure.repo}: ${failure.error}`,
+      );
+      update({
+        state: failures.length > 0 ? "failed" : "idle",
+        repo: null,
+        lastError: failures.length > 0 ? failures.join("; ") : null,
+        finishedAt: new Date().toISOString(),
+      });
+      return summary;
+    })
+    .catch((error: unknown) => {
+      update({
+        state: "failed",
+        lastError: error instanceof Error ? error.message : String(error),
+        finishedAt: new Date().toISOString(),
+      });
+      throw error;
+    })
+    .finally(() => {
+      currentRun = null;
+    });
+  return currentRun;
+}
+
+/** Test helper. */
+export function resetScriptIndexStatus(): void {
+  status = { ...IDLE };
+  currentRun = null;
+  currentRunIsFull = false;
+  queuedFullRun = null;
+  progressByRepo.clear();
+  listeners.clear();
+}
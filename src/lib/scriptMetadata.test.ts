@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import path from "path";
+import {
+  deriveScriptFileMetadata,
+  findLexiconClasses,
+} from "./scriptMetadata.ts";
+
+describe("deriveScriptFileMetadata", () => {
+  const root = path.join("/data", "verified-scripts");
+
+  it("takes the county from the top-level directory", () => {
+    expect(
+      deriveScriptFileMetadata(
+        root,
+        path.join(root, "Lee", "scripts", "owner_mapping.js"),
+      ),
+    ).toEqual({ county: "Lee", fileRole: "owner-mapping" });
+    expect(
+      deriveScriptFileMetadata(root, path.join(root, "shared.js")),
+    ).toEqual({ county: null, fileRole: "helper" });
+  });
+
+  it("infers file roles from file names", () => {
+    const role = (name: string) =>
+      deriveScriptFileMetadata(root, path.join(root, "Lee", name)).fileRole;
+
+    expect(role("data_extractor.js")).toBe("extractor");
+    expect(role("structureMapping.ts")).toBe("structure-mapping");
+    expect(role("utility_mapping.js")).toBe("utility-mapping");
+    expect(role("layout_mapping.js")).toBe("layout-mapping");
+    expect(role("owner_mapping.test.js")).toBe("test");
+    expect(role("dates.js")).toBe("helper");
+  });
+});
+
+describe("findLexiconClasses", () => {
+  const classes = ["address", "property", "sales_history", "tax"];
+
+  it("finds class names used as whole tokens in string literals", () => {
+    const code = [
+      'write("address.json", out);',
+      "const rel = `relationship_property_has_address`;",
+      "const key = 'sales_history_1';",
+      "const taxonomy = row.taxonomy; // tax",
+      'const label = "taxonomy";',
+    ].join("\n");
+
+    expect(findLexiconClasses(code, classes)).toEqual([
+      "address",
+      "property",
+      "sales_history",
+    ]);
+  });
+});
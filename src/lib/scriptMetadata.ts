@@ -0,0 +1,80 @@
+import path from "path";
+
+/**
+ * What a verified script file does in a county's transform, inferred from its
+ * file name. Files that match none of the known patterns are helpers.
+ */
+export type FileRole =
+  | "extractor"
+  | "owner-mapping"
+  | "structure-mapping"
+  | "utility-mapping"
+  | "layout-mapping"
+  | "test"
+  | "helper";
+
+const FILE_ROLE_PATTERNS: [RegExp, FileRole][] = [
+  [/(^|[._-])(test|spec)([._-]|$)/, "test"],
+  [/extract/, "extractor"],
+  [/owner/, "owner-mapping"],
+  [/structure/, "structure-mapping"],
+  [/utilit/, "utility-mapping"],
+  [/layout/, "layout-mapping"],
+];
+
+const STRING_LITERAL = /(["'`])((?:\\.|(?!\1)[^\\\n])*)\1/g;
+
+export interface ScriptFileMetadata {
+  /** Top-level directory of the file; null for files at the repo root. */
+  county: string | null;
+  fileRole: FileRole;
+}
+
+/**
+ * The verified scripts repository keeps one top-level directory per county
+ * (`<County>/scripts/data_extractor.js`), so the county is the first path
+ * segment below the repository root.
+ */
+export function deriveScriptFileMetadata(
+  repoRoot: string,
+  filePath: string,
+): ScriptFileMetadata {
+  const segments = path
+    .relative(repoRoot, filePath)
+    .split(path.sep)
+    .filter((segment) => segment.length > 0);
+  const county =
+    segments.length > 1 && !segments[0].startsWith("..") ? segments[0] : null;
+
+  const base = path.basename(filePath, path.extname(filePath)).toLowerCase();
+  const role =
+    FILE_ROLE_PATTERNS.find(([pattern]) => pattern.test(base))?.[1] ?? "helper";
+
+  return { county, fileRole: role };
+}
+
+/**
+ * Returns the lexicon classes a function refers to in its string literals,
+ * such as `"address.json"`, `"property_has_address"` or `"sales_history_1"`.
+ * Class names must appear as whole tokens, delimited by anything that is not
+ * a letter or digit, so `tax` does not match `taxonomy`.
+ */
+export function findLexiconClasses(
+  code: string,
+  classNames: string[],
+): string[] {
+  const literals: string[] = [];
+  for (const match of code.matchAll(STRING_LITERAL)) {
+    literals.push(match[2].toLowerCase());
+  }
+  if (literals.length === 0) return [];
+
+  return classNames
+    .filter((className) => {
+      const token = new RegExp(
+        `(^|[^a-z0-9])${className.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}([^a-z0-9]|$)`,
+      );
+      return literals.some((literal) => token.test(literal));
+    })
+    .sort();
+}
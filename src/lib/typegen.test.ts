@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { generateTypeModule, toTypeName } from "./typegen.ts";
+
+const address = {
+  key: "address",
+  cid: "cid-address",
+  schema: {
+    type: "object",
+    description: "A postal address",
+    required: ["street_name", "unit_identifier"],
+    properties: {
+      unit_identifier: {
+        type: ["string", "null"],
+        description: "Unit or apartment number",
+      },
+      street_name: { type: "string", minLength: 1 },
+      street_suffix_type: {
+        type: ["string", "null"],
+        enum: ["Ave", "St", "Blvd", null],
+        deprecated_enum_values: ["Blvd"],
+      },
+      "zip+4": { type: "string", pattern: "^\\d{4}$" },
+      legacy_code: { type: "string", deprecated: true },
+    },
+  },
+};
+
+const lot = {
+  key: "lot_detail",
+  cid: "cid-lot",
+  schema: {
+    type: "object",
+    properties: {
+      lot_area_sqft: { type: "integer", minimum: 0 },
+      survey_date: { type: "string", format: "date" },
+      corners: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["x"],
+          properties: { x: { type: "number" }, y: { type: "number" } },
+        },
+      },
+      shape: { oneOf: [{ type: "string" }, { type: "null" }] },
+    },
+  },
+};
+
+describe("toTypeName", () => {
+  it("PascalCases lexicon keys", () => {
+    expect(toTypeName("property_improvement")).toBe("PropertyImprovement");
+    expect(toTypeName("Address")).toBe("Address");
+    expect(toTypeName("1st_floor")).toBe("_1stFloor");
+  });
+});
+
+describe("generateTypeModule", () => {
+  it("renders an interface and zod schema per class", () => {
+    const code = generateTypeModule([address]);
+
+    expect(code).toContain(`/** A postal address */
+export interface Address {
+  /** @deprecated */
+  legacy_code?: string;
+  street_name: string;
+  street_suffix_type?: "Ave" | "St" | null;
+  /** Unit or apartment number */
+  unit_identifier: string | null;
+  "zip+4"?: string;
+}`);
+    expect(code).toContain(`export const AddressSchema = z.object({
+  legacy_code: z.string().optional(),
+  street_name: z.string().min(1),
+  street_suffix_type: z.enum(["Ave", "St"]).nullable().optional(),
+  unit_identifier: z.string().nullable(),
+  "zip+4": z.string().regex(new RegExp("^\\\\d{4}$")).optional(),
+});`);
+  });
+
+  it("handles nested objects, arrays, formats and unions", () => {
+    const code = generateTypeModule([lot]);
+
+    expect(code).toContain(`export interface LotDetail {
+  corners?: Array<{
+    x: number;
+    y?: number;
+  }>;
+  lot_area_sqft?: number;
+  shape?: string | null;
+  /** @format date */
+  survey_date?: string;
+}`);
+    expect(code).toContain(`  corners: z.array(z.object({
+    x: z.number(),
+    y: z.number().optional(),
+  })).optional(),`);
+    expect(code).toContain("lot_area_sqft: z.number().int().gte(0).optional()");
+    expect(code).toContain("survey_date: z.string().date().optional()");
+    expect(code).toContain("shape: z.string().nullable().optional()");
+  });
+
+  it("is stable regardless of input order", () => {
+    const first = generateTypeModule([lot, address]);
+    const second = generateTypeModule([address, lot]);
+
+    expect(first).toBe(second);
+    expect(first.split("\n").slice(0, 5)).toEqual([
+      "// Generated from the Elephant lexicon. Do not edit by hand.",
+      "// address: ipfs://cid-address",
+      "// lot_detail: ipfs://cid-lot",
+      "",
+      'import { z } from "zod";',
+    ]);
+  });
+});
@@ -0,0 +1,414 @@
+import type { JsonSchemaNode } from "../types/lexicon.ts";
+import { getDeprecatedEnumValues, isSchemaNode } from "./schemaValidator.ts";
+
+/** A lexicon class whose schema is already dereferenced and flattened. */
+export interface TypegenClass {
+  key: string;
+  cid: string;
+  schema: JsonSchemaNode;
+}
+
+interface FieldModel {
+  key: string;
+  description: string | null;
+  required: boolean;
+  deprecated: boolean;
+  type: TypeModel;
+}
+
+type TypeModel = { nullable: boolean; format?: string } & (
+  | { kind: "enum"; values: Array<string | number | boolean> }
+  | {
+      kind: "string";
+      pattern?: string;
+      minLength?: number;
+      maxLength?: number;
+    }
+  | {
+      kind: "number";
+      integer: boolean;
+      minimum?: number;
+      maximum?: number;
+      exclusiveMinimum?: number;
+      exclusiveMaximum?: number;
+    }
+  | { kind: "boolean" }
+  | { kind: "null" }
+  | { kind: "array"; items: TypeModel }
+  | { kind: "object"; fields: FieldModel[] }
+  | { kind: "record"; values: TypeModel }
+  | { kind: "union"; options: TypeModel[] }
+  | { kind: "unknown" }
+);
+
+/** zod string refinements for JSON Schema formats; others stay annotations. */
+const ZOD_STRING_FORMATS: Record<string, string> = {
+  date: ".date()",
+  "date-time": ".datetime({ offset: true })",
+  time: ".time()",
+  email: ".email()",
+  uri: ".url()",
+  uuid: ".uuid()",
+  ipv4: '.ip({ version: "v4" })',
+};
+
+const INDENT = "  ";
+
+function numberKeyword(node: JsonSchemaNode, key: string): number | undefined {
+  const value = node[key];
+  return typeof value === "number" ? value : undefined;
+}
+
+function schemaTypes(node: JsonSchemaNode): string[] {
+  const type = node.type;
+  if (Array.isArray(type)) return type.map(String);
+  return typeof type === "string" ? [type] : [];
+}
+
+function buildEnum(node: JsonSchemaNode, nullable: boolean): TypeModel {
+  const deprecated = new Set(getDeprecatedEnumValues(node));
+  const raw = Array.isArray(node.enum) ? node.enum : [node.const];
+  const values: Array<string | number | boolean> = [];
+  for (const value of raw) {
+    if (value === null) {
+      nullable = true;
+    } else if (
+      (typeof value === "string" ||
+        typeof value === "number" ||
+        typeof value === "boolean") &&
+      !deprecated.has(String(value))
+    ) {
+      values.push(value);
+    }
+  }
+  if (values.length === 0) {
+    return nullable ? { kind: "null", nullable: false } : unknownType();
+  }
+  return { kind: "enum", values, nullable };
+}
+
+function unknownType(): TypeModel {
+  return { kind: "unknown", nullable: false };
+}
+
+function buildFields(node: JsonSchemaNode): FieldModel[] {
+  const required = new Set(
+    Array.isArray(node.required) ? node.required.map(String) : [],
+  );
+  return Object.entries(node.properties ?? {})
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, child]) => ({
+      key,
+      description:
+        typeof child.description === "string" ? child.description : null,
+      required: required.has(key),
+      deprecated: child.deprecated === true,
+      type: buildType(child),
+    }));
+}
+
+function buildSimple(node: JsonSchemaNode, type: string): TypeModel {
+  const format = typeof node.format === "string" ? node.format : undefined;
+  switch (type) {
+    case "string":
+      return {
+        kind: "string",
+        nullable: false,
+        format,
+        pattern: typeof node.pattern === "string" ? node.pattern : undefined,
+        minLength: numberKeyword(node, "minLength"),
+        maxLength: numberKeyword(node, "maxLength"),
+      };
+    case "number":
+    case "integer":
+      return {
+        kind: "number",
+        nullable: false,
+        integer: type === "integer",
+        minimum: numberKeyword(node, "minimum"),
+        maximum: numberKeyword(node, "maximum"),
+        exclusiveMinimum: numberKeyword(node, "exclusiveMinimum"),
+        exclusiveMaximum: numberKeyword(node, "exclusiveMaximum"),
+      };
+    case "boolean":
+      return { kind: "boolean", nullable: false };
+    case "null":
+      return { kind: "null", nullable: false };
+    case "array": {
+      const items = Array.isArray(node.items) ? node.items[0] : node.items;
+      return {
+        kind: "array",
+        nullable: false,
+        items: isSchemaNode(items) ? buildType(items) : unknownType(),
+      };
+    }
+    case "object":
+      if (node.properties) {
+        return { kind: "object", nullable: false, fields: buildFields(node) };
+      }
+      return {
+        kind: "record",
+        nullable: false,
+        values: isSchemaNode(node.additionalProperties)
+          ? buildType(node.additionalProperties)
+          : unknownType(),
+      };
+    default:
+      return unknownType();
+  }
+}
+
+function withNullable(type: TypeModel, nullable: boolean): TypeModel {
+  if (!nullable || type.kind === "null" || type.kind === "unknown") {
+    return type;
+  }
+  return { ...type, nullable: true };
+}
+
+function buildUnion(branches: JsonSchemaNode[], nullable: boolean): TypeModel {
+  const options: TypeModel[] = [];
+  for (const branch of branches) {
+    const option = buildType(branch);
+    if (option.kind === "null") {
+      nullable = true;
+      continue;
+    }
+    if (option.kind === "unknown") return unknownType();
+    if (option.nullable) nullable = true;
+    options.push({ ...option, nullable: false });
+  }
+  if (options.length === 0) {
+    return nullable ? { kind: "null", nullable: false } : unknownType();
+  }
+  if (options.length === 1) return withNullable(options[0], nullable);
+  return { kind: "union", options, nullable };
+}
+
+/** Maps a dereferenced, flattened schema node onto the generator's model. */
+function buildType(node: JsonSchemaNode): TypeModel {
+  const types = schemaTypes(node);
+  const nullable = types.includes("null");
+
+  if (Array.isArray(node.enum) || "const" in node) {
+    return buildEnum(node, nullable);
+  }
+
+  const branches = node.oneOf ?? node.anyOf;
+  const concrete = types.filter((t) => t !== "null");
+  if (Array.isArray(branches) && concrete.length === 0 && !node.properties) {
+    return buildUnion(branches, nullable);
+  }
+
+  if (concrete.length === 0) {
+    const implied = node.properties ? "object" : node.items ? "array" : null;
+    if (implied) return withNullable(buildSimple(node, implied), nullable);
+    return nullable ? { kind: "null", nullable: false } : unknownType();
+  }
+  if (concrete.length === 1) {
+    return withNullable(buildSimple(node, concrete[0]), nullable);
+  }
+  return {
+    kind: "union",
+    nullable,
+    options: concrete.map((t) => buildSimple(node, t)),
+  };
+}
+
+/** `property_improvement` -> `PropertyImprovement`. */
+export function toTypeName(key: string): string {
+  const name = key
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+  return /^[A-Za-z_]/.test(name) ? name : `_${name}`;
+}
+
+function propertyName(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function jsDoc(lines: string[], indent: string): string[] {
+  const body = lines
+    .flatMap((line) => line.split(/\r?\n/))
+    .map((line) => line.replace(/\*\//g, "*\\/").trimEnd());
+  while (body.length > 0 && body[body.length - 1] === "") body.pop();
+  if (body.length === 0) return [];
+  if (body.length === 1) return [`${indent}/** ${body[0]} */`];
+  return [
+    `${indent}/**`,
+    ...body.map((line) => (line ? `${indent} * ${line}` : `${indent} *`)),
+    `${indent} */`,
+  ];
+}
+
+function fieldDoc(field: FieldModel, indent: string): string[] {
+  const lines: string[] = [];
+  if (field.description) lines.push(field.description);
+  if (field.type.format) lines.push(`@format ${field.type.format}`);
+  if (field.deprecated) lines.push("@deprecated");
+  return jsDoc(lines, indent);
+}
+
+function renderTs(type: TypeModel, indent: string): string {
+  let out: string;
+  switch (type.kind) {
+    case "enum":
+      out = type.values.map((v) => JSON.stringify(v)).join(" | ");
+      break;
+    case "string":
+    case "boolean":
+    case "null":
+    case "unknown":
+      out = type.kind;
+      break;
+    case "number":
+      out = "number";
+      break;
+    case "array": {
+      const items = renderTs(type.items, indent);
+      out = /^[\w.]+$/.test(items) ? `${items}[]` : `Array<${items}>`;
+      break;
+    }
+    case "object":
+      out = renderTsObject(type.fields, indent);
+      break;
+    case "record":
+      out = `Record<string, ${renderTs(type.values, indent)}>`;
+      break;
+    case "union":
+      out = type.options.map((o) => renderTs(o, indent)).join(" | ");
+      break;
+  }
+  return type.nullable ? `${out} | null` : out;
+}
+
+function renderTsObject(fields: FieldModel[], indent: string): string {
+  const inner = indent + INDENT;
+  const lines = ["{"];
+  for (const field of fields) {
+    lines.push(...fieldDoc(field, inner));
+    const optional = field.required ? "" : "?";
+    lines.push(
+      `${inner}${propertyName(field.key)}${optional}: ${renderTs(field.type, inner)};`,
+    );
+  }
+  lines.push(`${indent}}`);
+  return lines.join("\n");
+}
+
+function renderZodString(type: Extract<TypeModel, { kind: "string" }>): string {
+  let out = "z.string()";
+  if (type.format && ZOD_STRING_FORMATS[type.format]) {
+    out += ZOD_STRING_FORMATS[type.format];
+  }
+  if (type.pattern !== undefined) {
+    out += `.regex(new RegExp(${JSON.stringify(type.pattern)}))`;
+  }
+  if (type.minLength !== undefined) out += `.min(${type.minLength})`;
+  if (type.maxLength !== undefined) out += `.max(${type.maxLength})`;
+  return out;
+}
+
+function renderZodNumber(type: Extract<TypeModel, { kind: "number" }>): string {
+  let out = type.integer ? "z.number().int()" : "z.number()";
+  if (type.minimum !== undefined) out += `.gte(${type.minimum})`;
+  if (type.exclusiveMinimum !== undefined) {
+    out += `.gt(${type.exclusiveMinimum})`;
+  }
+  if (type.maximum !== undefined) out += `.lte(${type.maximum})`;
+  if (type.exclusiveMaximum !== undefined) {
+    out += `.lt(${type.exclusiveMaximum})`;
+  }
+  return out;
+}
+
+function renderZodEnum(values: Array<string | number | boolean>): string {
+  if (values.length === 1) return `z.literal(${JSON.stringify(values[0])})`;
+  if (values.every((v) => typeof v === "string")) {
+    return `z.enum([${values.map((v) => JSON.stringify(v)).join(", ")}])`;
+  }
+  const literals = values.map((v) => `z.literal(${JSON.stringify(v)})`);
+  return `z.union([${literals.join(", ")}])`;
+}
+
+function renderZod(type: TypeModel, indent: string): string {
+  let out: string;
+  switch (type.kind) {
+    case "enum":
+      out = renderZodEnum(type.values);
+      break;
+    case "string":
+      out = renderZodString(type);
+      break;
+    case "number":
+      out = renderZodNumber(type);
+      break;
+    case "boolean":
+    case "null":
+    case "unknown":
+      out = `z.${type.kind}()`;
+      break;
+    case "array":
+      out = `z.array(${renderZod(type.items, indent)})`;
+      break;
+    case "object":
+      out = renderZodObject(type.fields, indent);
+      break;
+    case "record":
+      out = `z.record(${renderZod(type.values, indent)})`;
+      break;
+    case "union":
+      out = `z.union([${type.options.map((o) => renderZod(o, indent)).join(", ")}])`;
+      break;
+  }
+  return type.nullable ? `${out}.nullable()` : out;
+}
+
+function renderZodObject(fields: FieldModel[], indent: string): string {
+  const inner = indent + INDENT;
+  const lines = ["z.object({"];
+  for (const field of fields) {
+    const optional = field.required ? "" : ".optional()";
+    lines.push(
+      `${inner}${propertyName(field.key)}: ${renderZod(field.type, inner)}${optional},`,
+    );
+  }
+  lines.push(`${indent}})`);
+  return lines.join("\n");
+}
+
+/**
+ * Renders one module with a TypeScript interface and a matching zod schema
+ * per class. Classes and properties are sorted and nothing time-dependent is
+ * emitted, so regenerating against the same schemas yields identical output.
+ */
+export function generateTypeModule(classes: TypegenClass[]): string {
+  const sorted = [...classes].sort((a, b) =>
+    a.key < b.key ? -1 : a.key > b.key ? 1 : 0,
+  );
+  const lines = [
+    "// Generated from the Elephant lexicon. Do not edit by hand.",
+    ...sorted.map((c) => `// ${c.key}: ipfs://${c.cid}`),
+    "",
+    'import { z } from "zod";',
+  ];
+
+  for (const { key, schema } of sorted) {
+    const typeName = toTypeName(key);
+    const model = buildType(schema);
+    const fields = model.kind === "object" ? model.fields : [];
+    const description =
+      typeof schema.description === "string" ? schema.description : null;
+
+    lines.push("");
+    lines.push(...jsDoc(description ? [description] : [], ""));
+    lines.push(`export interface ${typeName} ${renderTsObject(fields, "")}`);
+    lines.push("");
+    lines.push(
+      `export const ${typeName}Schema = ${renderZodObject(fields, "")};`,
+    );
+  }
+
+  return `${lines.join("\n")}\n`;
+}
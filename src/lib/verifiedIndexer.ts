@@ -1,19 +1,48 @@
 import path from "path";
 import { promises as fs } from "fs";
+import { createHash } from "node:crypto";
 import type { LibSQLDatabase } from "drizzle-orm/libsql";
 import { logger } from "../logger.js";
-import { ensureLatest } from "./verifiedScripts.js";
+import { ensureLatest, openLocalRepository } from "./verifiedScripts.js";
 import { extractFunctions } from "./parser.js";
-import { embedManyTexts } from "./embeddings.js";
+import {
+  embedManyTexts,
+  getActiveEmbeddingDimensions,
+  getActiveEmbeddingModel,
+} from "./embeddings.js";
+import { fetchManifest } from "./manifest.js";
+import {
+  deriveScriptFileMetadata,
+  findLexiconClasses,
+} from "./scriptMetadata.js";
 import {
   getFunctionsByFilePath,
+  findEmbeddingsByContentHash,
   deleteFunction,
+  deleteFunctionsByFilePath,
+  moveFunctions,
+  listFunctionFilePaths,
   saveFunction,
+  deleteFunctionsOutsideRepos,
+  deleteIndexStatesExcept,
   getIndexState,
   setIndexState,
+  ensureVectorIndex,
+  listFunctionsMissingVectors,
+  markVectorIndexReady,
+  saveFunctionVectors,
+  type VectorIndex,
 } from "../db/index.js";
-import type { IndexerOptions, IndexSummary } from "../types/entities.js";
-import simpleGit from "simple-git";
+import {
+  DEFAULT_VERIFIED_SCRIPTS_REPO,
+  type VerifiedScriptsRepo,
+} from "../config.js";
+import type {
+  IndexerOptions,
+  IndexSummary,
+  RepositoriesIndexSummary,
+} from "../types/entities.js";
+import simpleGit, { type SimpleGit } from "simple-git";
 import { getEncoding } from "js-tiktoken";
 
 const JS_EXTENSIONS = new Set([".js", ".mjs", ".cjs", ".ts", ".tsx"]);
@@ -51,6 +80,77 @@ function splitByTokens(
   return chunks;
 }
 
+/**
+ * Identifies a function's vectors within one vector index: the same code
+ * yields the same vectors. Line endings and trailing whitespace are ignored.
+ */
+function functionContentHash(code: string): string {
+  const normalized = code
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .join("\n")
+    .trim();
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+/** Embeds the token-bounded chunks of `code`; empty when nothing is left. */
+async function embedFunctionCode(
+  enc: TokenEncoder,
+  code: string,
+): Promise<number[][]> {
+  const chunks = splitByTokens(enc, code, MAX_TOKENS_PER_CHUNK);
+  if (chunks.length === 0) return [];
+  const results = await embedManyTexts(chunks);
+  return results
+    .map((r) => r?.embedding)
+    .filter((e): e is number[] => Array.isArray(e) && e.length > 0);
+}
+
+/**
+ * Adds vectors to `vectorIndex` for functions of `repoLabel` indexed under
+ * another model, so switching models does not require re-parsing scripts.
+ * Returns how many functions received vectors.
+ */
+async function backfillMissingVectors(
+  db: LibSQLDatabase,
+  vectorIndex: VectorIndex,
+  repoLabel: string,
+  enc: TokenEncoder,
+): Promise<number> {
+  const missing = await listFunctionsMissingVectors(db, vectorIndex, repoLabel);
+  if (missing.length === 0) return 0;
+
+  logger.info(
+    { repo: repoLabel, count: missing.length, model: vectorIndex.model },
+    "Embedding indexed functions for the active model",
+  );
+
+  let backfilled = 0;
+  for (const func of missing) {
+    try {
+      const contentHash = functionContentHash(func.code);
+      const embeddings =
+        (await findEmbeddingsByContentHash(db, vectorIndex, contentHash)) ??
+        (await embedFunctionCode(enc, func.code));
+      if (embeddings.length === 0) continue;
+
+      await saveFunctionVectors(db, vectorIndex, func.id, embeddings);
+      backfilled += 1;
+    } catch (error) {
+      logger.error(
+        {
+          filePath: func.filePath,
+          function: func.name,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        "Failed to embed indexed function",
+      );
+    }
+  }
+  return backfilled;
+}
+
 async function listFilesRecursively(rootDir: string): Promise<string[]> {
   const entries = await fs.readdir(rootDir, { withFileTypes: true });
   const results: string[] = [];
@@ -68,6 +168,44 @@ async function listFilesRecursively(rootDir: string): Promise<string[]> {
   return results;
 }
 
+/**
+ * Lexicon class names used to tag functions. Indexing proceeds without tags
+ * when the lexicon cannot be loaded.
+ */
+async function loadLexiconClassNames(): Promise<string[]> {
+  try {
+    const manifest = await fetchManifest();
+    return Object.entries(manifest)
+      .filter(([, entry]) => entry.type === "class")
+      .map(([key]) => key);
+  } catch (error) {
+    logger.warn(
+      { error: error instanceof Error ? error.message : String(error) },
+      "Failed to load lexicon classes; indexing without class tags",
+    );
+    return [];
+  }
+}
+
+async function lastCommitFor(
+  git: SimpleGit,
+  repoRoot: string,
+  filePath: string,
+): Promise<string | null> {
+  try {
+    const output = await git.raw([
+      "log",
+      "-1",
+      "--format=%H",
+      "--",
+      path.relative(repoRoot, filePath),
+    ]);
+    return output.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
 function filterJsFiles(files: string[]): string[] {
   return files.filter((f) => {
     const ext = path.extname(f);
@@ -75,83 +213,309 @@ function filterJsFiles(files: string[]): string[] {
   });
 }
 
+function isInside(root: string, filePath: string): boolean {
+  const relative = path.relative(root, filePath);
+  return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+type FileChange =
+  | { status: "changed" | "deleted"; path: string }
+  | { status: "renamed"; from: string; to: string; similarity: number };
+
+/**
+ * Parses `git diff --name-status -z`. Added, modified and copied files are
+ * all `changed`; renames carry git's similarity percentage.
+ */
+function parseNameStatus(output: string): FileChange[] {
+  const fields = output.split("\0").filter((field) => field.length > 0);
+  const changes: FileChange[] = [];
+  let i = 0;
+  while (i < fields.length) {
+    const status = fields[i++];
+    if (status.startsWith("R")) {
+      const from = fields[i++];
+      const to = fields[i++];
+      changes.push({
+        status: "renamed",
+        from,
+        to,
+        similarity: Number(status.slice(1)) || 0,
+      });
+    } else if (status.startsWith("C")) {
+      i += 1; // copy source is unchanged
+      changes.push({ status: "changed", path: fields[i++] });
+    } else {
+      changes.push({
+        status: status === "D" ? "deleted" : "changed",
+        path: fields[i++],
+      });
+    }
+  }
+  return changes;
+}
+
+async function changesBetween(
+  git: SimpleGit,
+  fromCommit: string,
+  toCommit: string,
+): Promise<FileChange[]> {
+  const output = await git.raw([
+    "diff",
+    "--name-status",
+    "-M",
+    "-z",
+    `${fromCommit}..${toCommit}`,
+  ]);
+  return parseNameStatus(output);
+}
+
+/**
+ * Removes functions whose file no longer exists on disk. Catches deletions
+ * the incremental diff cannot see, such as files removed while a previous
+ * run failed. Returns how many functions were removed.
+ */
+export async function sweepMissingFiles(
+  db: LibSQLDatabase,
+  repo: string,
+): Promise<number> {
+  let removed = 0;
+  for (const filePath of await listFunctionFilePaths(db, repo)) {
+    try {
+      await fs.access(filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") continue;
+      removed += await deleteFunctionsByFilePath(db, filePath);
+    }
+  }
+  return removed;
+}
+
+/**
+ * Where a repository is checked out. Local repositories are used in place;
+ * the default repository keeps the clone directory it had before other
+ * repositories could be configured.
+ */
+export function repositoryCheckoutPath(
+  dataDir: string,
+  repo: VerifiedScriptsRepo,
+): string {
+  if (repo.path) return path.resolve(repo.path);
+  if (
+    repo.label === DEFAULT_VERIFIED_SCRIPTS_REPO.label &&
+    repo.url === DEFAULT_VERIFIED_SCRIPTS_REPO.url
+  ) {
+    return path.join(dataDir, "verified-scripts");
+  }
+  return path.join(dataDir, "verified-scripts-repos", repo.label);
+}
+
 export async function indexVerifiedScripts(
   db: LibSQLDatabase,
   opts: IndexerOptions = {},
 ): Promise<IndexSummary> {
-  const { clonePath, fullRescan } = opts;
+  const { clonePath, fullRescan, onProgress } = opts;
+  const config: VerifiedScriptsRepo =
+    opts.repo ?? DEFAULT_VERIFIED_SCRIPTS_REPO;
+  onProgress?.({
+    repo: config.label,
+    phase: "cloning",
+    filesProcessed: 0,
+    filesTotal: 0,
+    functionsSaved: 0,
+  });
 
-  const repo = await ensureLatest(clonePath);
+  const repo = config.path
+    ? await openLocalRepository(path.resolve(config.path))
+    : await ensureLatest(clonePath, {
+        url: config.url ?? DEFAULT_VERIFIED_SCRIPTS_REPO.url,
+        branch: config.branch,
+      });
+  // County directories live below the optional subdirectory
+  const scriptsRoot = config.subdir
+    ? path.join(repo.path, config.subdir)
+    : repo.path;
 
   // Resolve current HEAD commit of the verified repo
   const git = simpleGit(repo.path);
   const headCommit = (await git.revparse(["HEAD"])).trim();
 
-  let targetFiles: string[];
-
-  if (fullRescan || repo.isNewClone) {
-    const all = await listFilesRecursively(repo.path);
-    targetFiles = filterJsFiles(all);
-  } else {
-    // repo.files are relative to repo.path
-    const candidate = repo.files.map((rel) => path.join(repo.path, rel));
-    targetFiles = filterJsFiles(candidate);
-
-    // If pull had no changed files, decide based on commit state
-    if (targetFiles.length === 0) {
-      const state = await getIndexState(db, repo.path);
-      if (!state || state.lastIndexedCommit !== headCommit) {
-        const all = await listFilesRecursively(repo.path);
-        targetFiles = filterJsFiles(all);
+  // A path is indexed when it is a script below the scripts root
+  const isScript = (filePath: string) =>
+    isInside(scriptsRoot, filePath) && filterJsFiles([filePath]).length > 0;
+
+  let targetFiles: string[] = [];
+  const deletedFiles: string[] = [];
+  const renamedFiles: { from: string; to: string }[] = [];
+
+  // Vectors from different models are not comparable, so each model and
+  // dimension has its own index
+  const modelId = getActiveEmbeddingModel();
+  const vectorIndex = await ensureVectorIndex(
+    db,
+    "functions",
+    modelId,
+    getActiveEmbeddingDimensions(),
+  );
+  const state =
+    fullRescan || repo.isNewClone ? null : await getIndexState(db, repo.path);
+  if (!state) {
+    targetFiles = filterJsFiles(await listFilesRecursively(scriptsRoot));
+  } else if (state.lastIndexedCommit !== headCommit) {
+    try {
+      const changes = await changesBetween(
+        git,
+        state.lastIndexedCommit,
+        headCommit,
+      );
+      for (const change of changes) {
+        if (change.status === "renamed") {
+          const from = path.join(repo.path, change.from);
+          const to = path.join(repo.path, change.to);
+          if (isScript(from) && isScript(to) && change.similarity === 100) {
+            renamedFiles.push({ from, to });
+            continue;
+          }
+          if (isScript(from)) deletedFiles.push(from);
+          if (isScript(to)) targetFiles.push(to);
+        } else {
+          const filePath = path.join(repo.path, change.path);
+          if (!isScript(filePath)) continue;
+          if (change.status === "deleted") deletedFiles.push(filePath);
+          else targetFiles.push(filePath);
+        }
       }
+    } catch (error) {
+      logger.warn(
+        {
+          from: state.lastIndexedCommit,
+          to: headCommit,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        "Failed to diff against the last indexed commit; rescanning all files",
+      );
+      targetFiles = filterJsFiles(await listFilesRecursively(scriptsRoot));
     }
   }
 
+  let removedFunctions = 0;
+  for (const filePath of deletedFiles) {
+    removedFunctions += await deleteFunctionsByFilePath(db, filePath);
+  }
+  let movedFunctions = 0;
+  for (const { from, to } of renamedFiles) {
+    movedFunctions += await moveFunctions(db, from, to, {
+      ...deriveScriptFileMetadata(scriptsRoot, to),
+      lastCommit: await lastCommitFor(git, repo.path, to),
+    });
+  }
+
   logger.info(
-    { count: targetFiles.length, root: repo.path },
+    { count: targetFiles.length, root: scriptsRoot, repo: config.label },
     "Indexing verified scripts",
   );
 
   let savedFunctions = 0;
+  let embeddedFunctions = 0;
+  let reusedFunctions = 0;
+  const parseFailures: IndexSummary["parseFailures"] = [];
+  let filesProcessed = 0;
+  const reportProgress = () =>
+    onProgress?.({
+      repo: config.label,
+      phase: "embedding",
+      filesProcessed,
+      filesTotal: targetFiles.length,
+      functionsSaved: savedFunctions,
+    });
+  reportProgress();
 
   const enc: TokenEncoder = getEncoding("cl100k_base");
+  const classNames =
+    targetFiles.length > 0 ? await loadLexiconClassNames() : [];
   for (const filePath of targetFiles) {
+    let deletedInFile = 0;
+    let savedInFile = 0;
     try {
-      // Clean previous entries for the file
-      const existing = await getFunctionsByFilePath(db, path.resolve(filePath));
+      // Clean previous entries for the file, keeping their vectors for reuse
+      const existing = await getFunctionsByFilePath(
+        db,
+        path.resolve(filePath),
+        vectorIndex,
+      );
+      const previousEmbeddings = new Map<string, number[][]>();
       for (const func of existing) {
+        if (func.embeddings.length > 0) {
+          previousEmbeddings.set(
+            functionContentHash(func.code),
+            func.embeddings,
+          );
+        }
         await deleteFunction(db, func.id);
+        deletedInFile += 1;
       }
 
-      // Extract functions
-      const functions = await extractFunctions(filePath);
+      // Extract functions; a file that fails to parse is reported, not fatal
+      let functions: Awaited<ReturnType<typeof extractFunctions>>;
+      try {
+        functions = await extractFunctions(filePath);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn({ filePath, error: message }, "Failed to parse file");
+        parseFailures.push({ filePath, error: message });
+        continue;
+      }
       if (functions.length === 0) {
         continue;
       }
 
+      const fileMetadata = deriveScriptFileMetadata(scriptsRoot, filePath);
+      const lastCommit = await lastCommitFor(git, repo.path, filePath);
+
       // For each function, split into token-bounded equal parts and embed per function
       for (const fn of functions) {
         const chunks = splitByTokens(enc, fn.code, MAX_TOKENS_PER_CHUNK);
         if (chunks.length === 0) continue;
 
-        logger.debug(
-          { filePath: fn.filePath, function: fn.name, chunks: chunks.length },
-          "Embedding function in chunks",
-        );
+        const contentHash = functionContentHash(fn.code);
+        let embeddings =
+          previousEmbeddings.get(contentHash) ??
+          (await findEmbeddingsByContentHash(db, vectorIndex, contentHash));
+        const reused = embeddings !== null;
+
+        if (!embeddings) {
+          logger.debug(
+            { filePath: fn.filePath, function: fn.name, chunks: chunks.length },
+            "Embedding function in chunks",
+          );
 
-        const results = await embedManyTexts(chunks);
-        const embeddings = results
-          .map((r) => r?.embedding)
-          .filter((e): e is number[] => Array.isArray(e) && e.length > 0);
-        if (embeddings.length === 0) continue;
+          const results = await embedManyTexts(chunks);
+          embeddings = results
+            .map((r) => r?.embedding)
+            .filter((e): e is number[] => Array.isArray(e) && e.length > 0);
+          if (embeddings.length === 0) continue;
+        }
 
-        await saveFunction(db, {
+        await saveFunction(db, vectorIndex, {
           name: fn.name,
           code: fn.code,
           filePath: fn.filePath, // already absolute per parser
+          kind: fn.kind,
+          className: fn.className,
+          exported: fn.exported,
+          startLine: fn.startLine,
+          endLine: fn.endLine,
+          county: fileMetadata.county,
+          fileRole: fileMetadata.fileRole,
+          lexiconClasses: findLexiconClasses(fn.code, classNames),
+          lastCommit,
+          repo: config.label,
+          contentHash,
           embeddings,
         });
         savedFunctions += 1;
+        savedInFile += 1;
+        if (reused) reusedFunctions += 1;
+        else embeddedFunctions += 1;
       }
     } catch (error) {
       logger.error(
@@ -162,13 +526,31 @@ export async function indexVerifiedScripts(
         "Failed to index file",
       );
       // continue with other files
+    } finally {
+      // Functions the new version of the file no longer has
+      removedFunctions += Math.max(0, deletedInFile - savedInFile);
+      filesProcessed += 1;
+      reportProgress();
     }
   }
 
-  // Update last indexed commit only if we actually saved something
-  if (savedFunctions > 0) {
+  removedFunctions += await sweepMissingFiles(db, config.label);
+  const backfilledFunctions = await backfillMissingVectors(
+    db,
+    vectorIndex,
+    config.label,
+    enc,
+  );
+
+  // Update last indexed commit and model only if the index actually changed
+  if (
+    savedFunctions > 0 ||
+    movedFunctions > 0 ||
+    removedFunctions > 0 ||
+    backfilledFunctions > 0
+  ) {
     try {
-      await setIndexState(db, repo.path, headCommit);
+      await setIndexState(db, repo.path, headCommit, modelId);
     } catch (err) {
       logger.warn(
         {
@@ -181,5 +563,92 @@ export async function indexVerifiedScripts(
     }
   }
 
-  return { processedFiles: targetFiles, savedFunctions };
+  return {
+    repo: config.label,
+    processedFiles: targetFiles,
+    savedFunctions,
+    embeddedFunctions,
+    reusedFunctions,
+    movedFunctions,
+    removedFunctions,
+    backfilledFunctions,
+    parseFailures,
+  };
+}
+
+/**
+ * Indexes every configured repository independently, after purging functions
+ * and index state of repositories that were removed from the configuration.
+ * A repository that fails does not stop the others. Once every function has
+ * vectors for the active model, indexes of other models are dropped.
+ */
+export async function indexVerifiedScriptRepos(
+  db: LibSQLDatabase,
+  repos: VerifiedScriptsRepo[],
+  opts: Pick<IndexerOptions, "fullRescan" | "onProgress"> & {
+    dataDir: string;
+  },
+): Promise<RepositoriesIndexSummary> {
+  const purgedFunctions = await deleteFunctionsOutsideRepos(
+    db,
+    repos.map((repo) => repo.label),
+  );
+  await deleteIndexStatesExcept(
+    db,
+    repos.map((repo) => repositoryCheckoutPath(opts.dataDir, repo)),
+  );
+  if (purgedFunctions > 0) {
+    logger.info(
+      { purgedFunctions },
+      "Removed functions of repositories that are no longer configured",
+    );
+  }
+
+  const summary: RepositoriesIndexSummary = {
+    purgedFunctions,
+    repos: [],
+    failures: [],
+  };
+  for (const repo of repos) {
+    try {
+      summary.repos.push(
+        await indexVerifiedScripts(db, {
+          clonePath: repositoryCheckoutPath(opts.dataDir, repo),
+          fullRescan: opts.fullRescan,
+          onProgress: opts.onProgress,
+          repo,
+        }),
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(
+        { repo: repo.label, error: message },
+        "Failed to index verified scripts repository",
+      );
+      summary.failures.push({ repo: repo.label, error: message });
+    }
+  }
+
+  if (summary.failures.length === 0) {
+    const vectorIndex = await ensureVectorIndex(
+      db,
+      "functions",
+      getActiveEmbeddingModel(),
+      getActiveEmbeddingDimensions(),
+    );
+    const missing = await listFunctionsMissingVectors(db, vectorIndex);
+    if (missing.length === 0) {
+      const dropped = await markVectorIndexReady(db, vectorIndex);
+      if (dropped.length > 0) {
+        logger.info(
+          {
+            model: vectorIndex.model,
+            dropped: dropped.map((index) => index.model),
+          },
+          "Dropped vector indexes of previous embedding models",
+        );
+      }
+    }
+  }
+  return summary;
 }
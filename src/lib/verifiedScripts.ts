@@ -3,9 +3,7 @@ import path from "path";
 import os from "os";
 import { simpleGit, GitError } from "simple-git";
 import { logger } from "../logger.js";
-
-const VERIFIED_SCRIPTS_REPO =
-  "https://github.com/elephant-xyz/Counties-trasform-scripts.git";
+import { DEFAULT_VERIFIED_SCRIPTS_REPO } from "../config.js";
 const DEFAULT_CLONE_PATH = path.join(
   os.homedir(),
   ".local",
@@ -23,6 +21,36 @@ export class VerifiedScriptsError extends Error {
   }
 }
 
+/**
+ * Builds a link to a line range of a file at a fixed commit. Returns null for
+ * remotes that are not hosted on GitHub.
+ */
+export function githubPermalink(
+  remoteUrl: string,
+  commit: string,
+  relativePath: string,
+  startLine?: number | null,
+  endLine?: number | null,
+): string | null {
+  const match = remoteUrl.match(
+    /^(?:https:\/\/|git@)github\.com[/:]([^/]+)\/(.+?)(?:\.git)?\/?$/,
+  );
+  if (!match) return null;
+
+  const filePath = relativePath
+    .split(path.sep)
+    .map((segment) => encodeURIComponent(segment))
+    .join("/");
+  let url = `https://github.com/${match[1]}/${match[2]}/blob/${commit}/${filePath}`;
+  if (startLine) {
+    url +=
+      endLine && endLine !== startLine
+        ? `#L${startLine}-L${endLine}`
+        : `#L${startLine}`;
+  }
+  return url;
+}
+
 async function dirExists(dir: string): Promise<boolean> {
   try {
     const stats = await fs.stat(dir);
@@ -44,6 +72,11 @@ export interface EnsureLatestResult {
   isNewClone: boolean;
 }
 
+export interface RemoteRepository {
+  url: string;
+  branch: string;
+}
+
 async function listAllFiles(dir: string): Promise<string[]> {
   const files: string[] = [];
 
@@ -70,6 +103,7 @@ async function listAllFiles(dir: string): Promise<string[]> {
 
 export async function ensureLatest(
   clonePath?: string,
+  remote: RemoteRepository = DEFAULT_VERIFIED_SCRIPTS_REPO,
 ): Promise<EnsureLatestResult> {
   const targetPath = clonePath ?? DEFAULT_CLONE_PATH;
 
@@ -104,7 +138,7 @@ export async function ensureLatest(
         await git.reset(["--hard", "HEAD"]);
       }
 
-      const pullResult = await git.pull("origin", "main", {
+      const pullResult = await git.pull("origin", remote.branch, {
         "--ff-only": null,
       });
 
@@ -123,8 +157,9 @@ export async function ensureLatest(
       await fs.mkdir(parentDir, { recursive: true });
 
       const git = simpleGit();
-      await git.clone(VERIFIED_SCRIPTS_REPO, targetPath, {
+      await git.clone(remote.url, targetPath, {
         "--depth": 1,
+        "--branch": remote.branch,
       });
       logger.info({ path: targetPath }, "Successfully cloned repository");
       isNewClone = true;
@@ -156,6 +191,28 @@ export async function ensureLatest(
   }
 }
 
+/**
+ * Uses a repository the user already has on disk. It is indexed as checked
+ * out: nothing is pulled or reset, and changes are found by comparing HEAD
+ * with the last indexed commit.
+ */
+export async function openLocalRepository(
+  repoPath: string,
+): Promise<EnsureLatestResult> {
+  if (!path.isAbsolute(repoPath)) {
+    throw new VerifiedScriptsError(
+      `Repository path must be absolute: ${repoPath}`,
+    );
+  }
+  if (!(await dirExists(repoPath))) {
+    throw new VerifiedScriptsError(`Repository path not found: ${repoPath}`);
+  }
+  if (!(await simpleGit(repoPath).checkIsRepo())) {
+    throw new VerifiedScriptsError(`Not a git repository: ${repoPath}`);
+  }
+  return { path: repoPath, files: [], isNewClone: false };
+}
+
 let initializationPromise: Promise<EnsureLatestResult> | null = null;
 
 export async function initialize(
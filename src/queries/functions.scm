@@ -1,10 +1,27 @@
-;; Match only named function declarations
+;; Match named functions, class methods and exported consts
 ;; Captures:
-;;  - @function.name: identifier of the function
-;;  - @function.decl: entire function declaration node (for source extraction)
+;;  - @function.name: identifier of the function (absent for anonymous
+;;    `export default` functions)
+;;  - @function.decl: declaration node (for source extraction); the parser
+;;    derives kind, enclosing class and export status from it
 
 (function_declaration
   name: (identifier) @function.name) @function.decl
 
 (generator_function_declaration
   name: (identifier) @function.name) @function.decl
+
+(variable_declarator
+  name: (identifier) @function.name
+  value: [(arrow_function) (function_expression) (generator_function)]) @function.decl
+
+(export_statement
+  declaration: (lexical_declaration
+    (variable_declarator
+      name: (identifier) @function.name) @function.decl))
+
+(method_definition
+  name: [(property_identifier) (private_property_identifier)] @function.name) @function.decl
+
+(export_statement
+  value: [(arrow_function) (function_expression)] @function.decl)
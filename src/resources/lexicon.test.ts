@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  buildLexiconResourceUri,
+  completeLexiconResourceName,
+  listLexiconResources,
+  parseLexiconResourceUri,
+  readLexiconResource,
+} from "./lexicon.ts";
+import { registerAllResources } from "./registry.ts";
+import { fetchManifestSnapshot } from "../lib/manifest.ts";
+import type { Manifest } from "../types/lexicon.ts";
+
+vi.mock("../lib/ipfs.ts", () => ({
+  getJsonByCid: vi.fn(),
+}));
+
+vi.mock("../lib/manifest.ts", () => ({
+  fetchManifestSnapshot: vi.fn(),
+  normalizeKey: (key: string) => key.trim().toLowerCase(),
+}));
+
+vi.mock("../logger.ts", () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), info: vi.fn(), debug: vi.fn() },
+}));
+
+const { getJsonByCid } = await import("../lib/ipfs.ts");
+const mockGetJsonByCid = vi.mocked(getJsonByCid);
+const mockFetchManifestSnapshot = vi.mocked(fetchManifestSnapshot);
+
+const manifest: Manifest = {
+  County: { ipfsCid: "cid-county", type: "dataGroup" },
+  property: { ipfsCid: "cid-property", type: "class" },
+  address: { ipfsCid: "cid-address", type: "class" },
+  property_has_address: { ipfsCid: "cid-rel", type: "relationship" },
+};
+
+describe("lexicon resources", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockFetchManifestSnapshot.mockResolvedValue({
+      manifest,
+      cid: "QmManifest",
+      fetchedAt: 1000,
+      stale: false,
+    });
+  });
+
+  it("round-trips resource URIs with the manifest CID", () => {
+    const uri = buildLexiconResourceUri("class", "property", "QmManifest");
+    expect(uri).toBe("elephant://class/property?manifest=QmManifest");
+    expect(parseLexiconResourceUri(new URL(uri))).toEqual({
+      name: "property",
+      manifestCid: "QmManifest",
+    });
+    expect(
+      parseLexiconResourceUri(new URL("elephant://data-group/County")),
+    ).toEqual({ name: "County", manifestCid: null });
+  });
+
+  it("lists only entries of the requested kind, sorted, with manifest CID", async () => {
+    const result = await listLexiconResources("class");
+
+    expect(result.resources.map((r) => r.uri)).toEqual([
+      "elephant://class/address?manifest=QmManifest",
+      "elephant://class/property?manifest=QmManifest",
+    ]);
+    expect(result.resources[1]._meta).toEqual({
+      manifestCid: "QmManifest",
+      schemaCid: "cid-property",
+    });
+  });
+
+  it("reads a class schema case-insensitively and pins the manifest CID", async () => {
+    mockGetJsonByCid.mockResolvedValue({ title: "property" });
+
+    const result = await readLexiconResource(
+      "class",
+      new URL("elephant://class/PROPERTY"),
+    );
+
+    expect(mockGetJsonByCid).toHaveBeenCalledWith("cid-property");
+    expect(result.contents[0].uri).toBe(
+      "elephant://class/property?manifest=QmManifest",
+    );
+    const [content] = result.contents;
+    expect("text" in content && JSON.parse(content.text)).toEqual({
+      title: "property",
+    });
+  });
+
+  it("rejects a read pinned to a different manifest CID", async () => {
+    await expect(
+      readLexiconResource(
+        "relationship",
+        new URL("elephant://relationship/property_has_address?manifest=QmOld"),
+      ),
+    ).rejects.toThrow("no longer current");
+    expect(mockGetJsonByCid).not.toHaveBeenCalled();
+  });
+
+  it("rejects unknown entries and entries of another kind", async () => {
+    await expect(
+      readLexiconResource(
+        "data-group",
+        new URL("elephant://data-group/property"),
+      ),
+    ).rejects.toThrow("Unknown data group 'property'");
+  });
+
+  it("completes names by case-insensitive prefix", async () => {
+    expect(await completeLexiconResourceName("class", "PRO")).toEqual([
+      "property",
+    ]);
+  });
+
+  it("registers one template per lexicon kind", () => {
+    const registerResource = vi.fn();
+    registerAllResources({ registerResource } as unknown as McpServer);
+
+    const templates = registerResource.mock.calls.map((call) =>
+      call[1].uriTemplate.toString(),
+    );
+    expect(templates).toEqual([
+      "elephant://data-group/{name}",
+      "elephant://class/{name}",
+      "elephant://relationship/{name}",
+    ]);
+  });
+});
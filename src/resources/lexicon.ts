@@ -0,0 +1,163 @@
+import type {
+  ListResourcesResult,
+  ReadResourceResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { getLexiconJsonByCid } from "../lib/lexiconCache.ts";
+import { fetchManifestSnapshot, normalizeKey } from "../lib/manifest.ts";
+import { logger } from "../logger.ts";
+import type {
+  JsonSchemaNode,
+  Manifest,
+  ManifestEntryType,
+} from "../types/lexicon.ts";
+
+export const LEXICON_URI_SCHEME = "elephant";
+
+/** URI path segment per manifest entry type, e.g. `elephant://class/{name}`. */
+export const LEXICON_RESOURCE_KINDS = {
+  "data-group": "dataGroup",
+  class: "class",
+  relationship: "relationship",
+} as const satisfies Record<string, ManifestEntryType>;
+
+export type LexiconResourceKind = keyof typeof LEXICON_RESOURCE_KINDS;
+
+const KIND_LABELS: Record<LexiconResourceKind, string> = {
+  "data-group": "data group",
+  class: "class",
+  relationship: "relationship",
+};
+
+export function buildLexiconResourceUri(
+  kind: LexiconResourceKind,
+  name: string,
+  manifestCid?: string,
+): string {
+  const base = `${LEXICON_URI_SCHEME}://${kind}/${encodeURIComponent(name)}`;
+  return manifestCid
+    ? `${base}?manifest=${encodeURIComponent(manifestCid)}`
+    : base;
+}
+
+/**
+ * Splits a lexicon resource URI into its entry name and optional manifest CID.
+ * The template variable may still carry the query string, so the name is
+ * taken from the URI path rather than from the matched variable.
+ */
+export function parseLexiconResourceUri(uri: URL): {
+  name: string;
+  manifestCid: string | null;
+} {
+  const rawName = uri.pathname.replace(/^\/+/, "");
+  return {
+    name: decodeURIComponent(rawName),
+    manifestCid: uri.searchParams.get("manifest"),
+  };
+}
+
+function entryKeys(manifest: Manifest, kind: LexiconResourceKind): string[] {
+  const type = LEXICON_RESOURCE_KINDS[kind];
+  return Object.entries(manifest)
+    .filter(([, entry]) => entry.type === type)
+    .map(([key]) => key)
+    .sort((a, b) => a.localeCompare(b));
+}
+
+export async function listLexiconResources(
+  kind: LexiconResourceKind,
+): Promise<ListResourcesResult> {
+  const { manifest, cid, stale } = await fetchManifestSnapshot();
+  const label = KIND_LABELS[kind];
+
+  return {
+    resources: entryKeys(manifest, kind).map((key) => ({
+      uri: buildLexiconResourceUri(kind, key, cid),
+      name: `${kind}/${key}`,
+      title: key,
+      description: `Elephant lexicon ${label} '${key}' (manifest ${cid})`,
+      mimeType: "application/json",
+      _meta: {
+        manifestCid: cid,
+        schemaCid: manifest[key].ipfsCid,
+        ...(stale ? { stale } : {}),
+      },
+    })),
+  };
+}
+
+export async function completeLexiconResourceName(
+  kind: LexiconResourceKind,
+  value: string,
+): Promise<string[]> {
+  try {
+    const { manifest } = await fetchManifestSnapshot();
+    const prefix = normalizeKey(value);
+    return entryKeys(manifest, kind).filter((key) =>
+      normalizeKey(key).startsWith(prefix),
+    );
+  } catch (error) {
+    logger.warn(
+      {
+        kind,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      "Lexicon resource completion failed",
+    );
+    return [];
+  }
+}
+
+/**
+ * Reads one lexicon entry schema. The returned URI always names the manifest
+ * CID the entry was resolved through; a request pinned to a different
+ * manifest CID is rejected rather than silently served from the live one.
+ */
+export async function readLexiconResource(
+  kind: LexiconResourceKind,
+  uri: URL,
+): Promise<ReadResourceResult> {
+  const { name, manifestCid } = parseLexiconResourceUri(uri);
+  const label = KIND_LABELS[kind];
+  const { manifest, cid, stale } = await fetchManifestSnapshot();
+
+  if (manifestCid && manifestCid !== cid) {
+    throw new Error(
+      `Lexicon manifest ${manifestCid} is no longer current; the live manifest is ${cid}.`,
+    );
+  }
+
+  const key = entryKeys(manifest, kind).find(
+    (k) => normalizeKey(k) === normalizeKey(name),
+  );
+  if (!key) {
+    throw new Error(`Unknown ${label} '${name}'.`);
+  }
+
+  const schemaCid = manifest[key].ipfsCid;
+  let schema: JsonSchemaNode;
+  try {
+    schema = await getLexiconJsonByCid<JsonSchemaNode>(schemaCid);
+  } catch (error) {
+    logger.error(
+      {
+        kind,
+        name: key,
+        cid: schemaCid,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      "Failed to fetch lexicon resource schema",
+    );
+    throw new Error(`Failed to fetch ${label} schema for '${key}'.`);
+  }
+
+  return {
+    contents: [
+      {
+        uri: buildLexiconResourceUri(kind, key, cid),
+        mimeType: "application/json",
+        text: JSON.stringify(schema, null, 2),
+        _meta: { manifestCid: cid, schemaCid, ...(stale ? { stale } : {}) },
+      },
+    ],
+  };
+}
@@ -0,0 +1,48 @@
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  LEXICON_RESOURCE_KINDS,
+  LEXICON_URI_SCHEME,
+  completeLexiconResourceName,
+  listLexiconResources,
+  readLexiconResource,
+  type LexiconResourceKind,
+} from "./lexicon.ts";
+
+const LEXICON_RESOURCE_DESCRIPTIONS: Record<LexiconResourceKind, string> = {
+  "data-group":
+    "Full JSON Schema of an Elephant data group, including its relationships",
+  class: "Full JSON Schema of an Elephant lexicon class",
+  relationship: "Full JSON Schema of an Elephant lexicon relationship",
+};
+
+/**
+ * Registers all MCP resources onto the given server instance.
+ *
+ * Like registerAllTools, this is shared by the stdio and HTTP entries. Listed
+ * URIs carry `?manifest=<cid>` so clients can tell which lexicon version they
+ * attached; the bare `elephant://<kind>/{name}` form always reads the live one.
+ */
+export function registerAllResources(server: McpServer): void {
+  for (const kind of Object.keys(
+    LEXICON_RESOURCE_KINDS,
+  ) as LexiconResourceKind[]) {
+    server.registerResource(
+      `lexicon-${kind}`,
+      new ResourceTemplate(`${LEXICON_URI_SCHEME}://${kind}/{name}`, {
+        list: async () => listLexiconResources(kind),
+        complete: {
+          name: async (value) => completeLexiconResourceName(kind, value),
+        },
+      }),
+      {
+        title: `Elephant lexicon ${kind}`,
+        description: LEXICON_RESOURCE_DESCRIPTIONS[kind],
+        mimeType: "application/json",
+      },
+      async (uri) => readLexiconResource(kind, uri),
+    );
+  }
+}
@@ -23,6 +23,7 @@ import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/
 import packageJson from "../../package.json";
 import { logger } from "../logger.ts";
 import { registerAllTools } from "../tools/registry.ts";
+import { registerAllResources } from "../resources/registry.ts";
 import {
   isAuthorizedHttpRequest,
   resolveHttpAuthorization,
@@ -55,6 +56,7 @@ async function handleMcpRequest(
   );
 
   registerAllTools(server);
+  registerAllResources(server);
 
   const transport = new StreamableHTTPServerTransport({
     // undefined = stateless; no session management required
@@ -5,6 +5,7 @@ const mocks = vi.hoisted(() => ({
   close: vi.fn(async () => undefined),
   handleRequest: vi.fn(),
   registerAllTools: vi.fn(),
+  registerAllResources: vi.fn(),
   loggerError: vi.fn(),
   loggerWarn: vi.fn(),
 }));
@@ -26,6 +27,10 @@ vi.mock("../tools/registry.ts", () => ({
   registerAllTools: mocks.registerAllTools,
 }));
 
+vi.mock("../resources/registry.ts", () => ({
+  registerAllResources: mocks.registerAllResources,
+}));
+
 vi.mock("../logger.ts", () => ({
   logger: {
     error: mocks.loggerError,
@@ -25,6 +25,7 @@ import type { IncomingMessage, ServerResponse } from "node:http";
 import packageJson from "../../package.json";
 import { logger } from "../logger.ts";
 import { registerAllTools } from "../tools/registry.ts";
+import { registerAllResources } from "../resources/registry.ts";
 import {
   isAuthorizedHttpRequest,
   resolveHttpAuthorization,
@@ -313,6 +314,7 @@ export async function handleWebMcpRequest(
 
   const requestAbortController = new AbortController();
   registerAllTools(server, requestAbortController.signal);
+  registerAllResources(server);
 
   const transport = new StreamableHTTPServerTransport({
     sessionIdGenerator: undefined,
@@ -0,0 +1,88 @@
+import { createTextResult } from "../lib/utils.ts";
+import { logger } from "../logger.ts";
+import {
+  getLexiconJsonByCid,
+  getLexiconStalenessMarker,
+} from "../lib/lexiconCache.ts";
+import { fetchManifest } from "../lib/manifest.ts";
+import { SchemaRefResolver, flattenSchema } from "../lib/schemaRefs.ts";
+import { generateExample, type ExampleMode } from "../lib/exampleGenerator.ts";
+import { validateAgainstSchema } from "../lib/schemaValidator.ts";
+import { applyPropertyTypeOverride, resolveClass } from "./classes.ts";
+import type { ClassSchema, JsonSchemaNode } from "../types/lexicon.ts";
+
+function checkedExample(schema: JsonSchemaNode, mode: ExampleMode) {
+  const example = generateExample(flattenSchema(schema), mode);
+  const report = validateAgainstSchema(schema, example);
+  return { example, valid: report.valid, errors: report.errors };
+}
+
+/**
+ * Synthesizes a required-only and an all-fields example for a class and
+ * validates both against the class schema before returning them.
+ */
+export async function generateClassExampleHandler(className: string) {
+  try {
+    const manifest = await fetchManifest();
+    const resolved = resolveClass(manifest, className);
+
+    if (!resolved.key) {
+      const message = `Unknown class '${className}'. Available: ${resolved.available.join(", ")}`;
+      logger.warn(message);
+      return createTextResult({ error: message });
+    }
+
+    let schema: ClassSchema;
+    try {
+      schema = await getLexiconJsonByCid<ClassSchema>(resolved.cid);
+    } catch (error) {
+      logger.error(
+        {
+          className,
+          cid: resolved.cid,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        "Failed to fetch class schema",
+      );
+      return createTextResult({ error: "Failed to fetch class schema" });
+    }
+
+    const overridden = applyPropertyTypeOverride(schema);
+    const dereferenced = await new SchemaRefResolver().dereference(
+      overridden,
+      overridden,
+    );
+    const minimal = checkedExample(dereferenced, "minimal");
+    const maximal = checkedExample(dereferenced, "maximal");
+
+    if (!minimal.valid || !maximal.valid) {
+      logger.warn(
+        {
+          className: resolved.key,
+          minimalErrors: minimal.errors.length,
+          maximalErrors: maximal.errors.length,
+        },
+        "Generated class example does not validate",
+      );
+    }
+
+    return createTextResult({
+      className: resolved.key,
+      schemaCid: resolved.cid,
+      minimal,
+      maximal,
+      ...getLexiconStalenessMarker(),
+    });
+  } catch (error) {
+    logger.error(
+      {
+        className,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      "generateClassExample failed",
+    );
+    return createTextResult({
+      error: "Internal error while generating class example",
+    });
+  }
+}
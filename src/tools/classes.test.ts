@@ -285,3 +285,85 @@ describe("getPropertySchemaByClassNameHandler", () => {
     expect(resultData.schema.enum).toEqual(["value1", "value2"]);
   });
 });
+
+function parseResult(
+  result: Awaited<ReturnType<typeof getPropertySchemaByClassNameHandler>>,
+) {
+  const [content] = result.content;
+  return JSON.parse(content.type === "text" ? content.text : "null");
+}
+
+describe("nested property paths", () => {
+  const manifest: Manifest = {
+    property: { ipfsCid: "cid-property", type: "class" },
+  };
+  const schema: ClassSchema = {
+    properties: {
+      layouts: {
+        type: "array",
+        items: { $ref: "#/definitions/layout" },
+      },
+    },
+    definitions: {
+      layout: {
+        type: "object",
+        properties: {
+          space_type: {
+            type: "string",
+            description: "Room type",
+            enum: ["Bedroom", "Den"],
+            deprecated_enum_values: ["Den"],
+          },
+          legacy: { type: "string", deprecated: true },
+        },
+      },
+    },
+  };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockFetchManifest.mockResolvedValue(manifest);
+    mockGetJsonByCid.mockResolvedValue(schema);
+  });
+
+  it("getPropertySchema resolves array item paths through $ref", async () => {
+    for (const path of ["layouts[].space_type", "/layouts/0/space_type"]) {
+      const result = await getPropertySchemaByClassNameHandler(
+        "property",
+        path,
+      );
+      const resultData = parseResult(result);
+      expect(resultData.schema).toEqual({
+        type: "string",
+        description: "Room type",
+        enum: ["Bedroom"],
+      });
+    }
+  });
+
+  it("getPropertySchema rejects deprecated nested properties", async () => {
+    const result = await getPropertySchemaByClassNameHandler(
+      "property",
+      "layouts[].legacy",
+    );
+    const resultData = parseResult(result);
+    expect(resultData.error).toContain("is deprecated");
+  });
+
+  it("listPropertiesByClassName lists array item properties", async () => {
+    const result = await listPropertiesByClassNameHandler("property", {
+      path: "layouts",
+      dereference: true,
+    });
+    const resultData = parseResult(result);
+
+    expect(resultData.properties).toEqual([
+      { key: "space_type", description: "Room type" },
+    ]);
+    expect(resultData.schema.properties.space_type.enum).toEqual([
+      "Bedroom",
+      "Den",
+    ]);
+    expect(resultData.schema.$ref).toBeUndefined();
+  });
+});
@@ -1,14 +1,32 @@
 import { createTextResult } from "../lib/utils.ts";
 import { logger } from "../logger.ts";
-import { getJsonByCid } from "../lib/ipfs.ts";
+import {
+  getLexiconJsonByCid,
+  getLexiconStalenessMarker,
+} from "../lib/lexiconCache.ts";
 import { fetchManifest, normalizeKey } from "../lib/manifest.ts";
+import {
+  SchemaRefResolver,
+  flattenSchema,
+  parsePropertyPath,
+  type PathSegment,
+  type ResolvedSchema,
+} from "../lib/schemaRefs.ts";
 import type {
   ClassSchema,
   JsonSchemaNode,
   Manifest,
 } from "../types/lexicon.ts";
 
-function resolveClass(
+/** Enum that `property_type` is narrowed to, overriding the published schema. */
+export const PROPERTY_TYPE_ENUM = [
+  "LandParcel",
+  "Building",
+  "Unit",
+  "ManufacturedHome",
+];
+
+export function resolveClass(
   manifest: Manifest,
   className: string,
 ): { key: string; cid: string; available: string[] } {
@@ -27,7 +45,76 @@ function resolveClass(
   return { key: target, cid: manifest[target].ipfsCid, available: classKeys };
 }
 
-export async function listPropertiesByClassNameHandler(className: string) {
+export interface ListPropertiesOptions {
+  /** Nested object or array path whose properties should be listed. */
+  path?: string;
+  /** Also return the fully dereferenced, flattened schema of the target. */
+  dereference?: boolean;
+}
+
+/**
+ * Unions the properties declared on a node and its combinator branches,
+ * following `$ref`s, and keeps the first non-empty description per key.
+ */
+async function collectListedProperties(
+  resolver: SchemaRefResolver,
+  target: ResolvedSchema,
+): Promise<Map<string, string | null>> {
+  const keyToDescription = new Map<string, string | null>();
+
+  const visit = async (context: ResolvedSchema) => {
+    const { node, root } = await resolver.deref(context.node, context.root);
+    for (const [key, raw] of Object.entries(node.properties ?? {})) {
+      let prop = raw;
+      if (typeof raw?.$ref === "string") {
+        try {
+          prop = (await resolver.deref(raw, root)).node;
+        } catch (error) {
+          logger.warn(
+            {
+              key,
+              ref: raw.$ref,
+              error: error instanceof Error ? error.message : String(error),
+            },
+            "Failed to resolve property $ref",
+          );
+        }
+      }
+
+      // Skip deprecated properties
+      if (prop?.deprecated === true) {
+        continue;
+      }
+
+      const description = prop?.description ?? null;
+      // Prefer first found description; if not set yet or existing is null and new has value, set it
+      if (!keyToDescription.has(key)) {
+        keyToDescription.set(key, description);
+      } else {
+        const existing = keyToDescription.get(key);
+        if ((existing == null || existing === "") && description) {
+          keyToDescription.set(key, description);
+        }
+      }
+    }
+
+    // Union across common JSON Schema combinators
+    for (const comb of ["oneOf", "allOf", "anyOf"] as const) {
+      for (const sub of node[comb] ?? []) {
+        await visit({ node: sub, root });
+      }
+    }
+  };
+
+  await visit(target);
+  return keyToDescription;
+}
+
+export async function listPropertiesByClassNameHandler(
+  className: string,
+  options: ListPropertiesOptions = {},
+) {
+  const { path, dereference = false } = options;
   try {
     const manifest = await fetchManifest();
     const resolved = resolveClass(manifest, className);
@@ -40,7 +127,7 @@ export async function listPropertiesByClassNameHandler(className: string) {
 
     let schema: ClassSchema | null = null;
     try {
-      schema = await getJsonByCid<ClassSchema>(resolved.cid);
+      schema = await getLexiconJsonByCid<ClassSchema>(resolved.cid);
     } catch (error) {
       logger.error("Failed to fetch class schema", {
         className,
@@ -50,49 +137,51 @@ export async function listPropertiesByClassNameHandler(className: string) {
       return createTextResult({ error: "Failed to fetch class schema" });
     }
 
-    const keyToDescription = new Map<string, string | null>();
-
-    const addProps = (node: JsonSchemaNode | null | undefined) => {
-      if (node?.properties) {
-        for (const [key, prop] of Object.entries(node.properties)) {
-          // Skip deprecated properties
-          if (prop?.deprecated === true) {
-            continue;
-          }
-
-          const description = prop?.description ?? null;
-          // Prefer first found description; if not set yet or existing is null and new has value, set it
-          if (!keyToDescription.has(key)) {
-            keyToDescription.set(key, description);
-          } else {
-            const existing = keyToDescription.get(key);
-            if ((existing == null || existing === "") && description) {
-              keyToDescription.set(key, description);
-            }
-          }
-        }
-      }
+    const resolver = new SchemaRefResolver();
+    let target: ResolvedSchema = {
+      node: path ? schema : applyPropertyTypeOverride(schema),
+      root: schema,
     };
-
-    // Direct properties
-    addProps(schema);
-    // Union across common JSON Schema combinators
-    for (const comb of ["oneOf", "allOf", "anyOf"] as const) {
-      const candidates = schema?.[comb];
-      if (Array.isArray(candidates)) {
-        for (const sub of candidates) addProps(sub);
+    if (path) {
+      let segments: PathSegment[];
+      try {
+        segments = parsePropertyPath(path);
+      } catch (error) {
+        return createTextResult({
+          error: error instanceof Error ? error.message : String(error),
+        });
       }
+      // Listing an array lists the properties of its items
+      const match =
+        (await resolver.findAtPath(schema, [...segments, { kind: "items" }])) ??
+        (await resolver.findAtPath(schema, segments));
+      if (!match) {
+        const message = `Property path '${path}' not found for class '${className}'.`;
+        logger.warn(message);
+        return createTextResult({ error: message });
+      }
+      target = match;
     }
 
+    const keyToDescription = await collectListedProperties(resolver, target);
     const properties = Array.from(keyToDescription.entries())
-      .filter(([k]) => normalizeKey(k) !== "source_http_request")
+      .filter(([k]) => path || normalizeKey(k) !== "source_http_request")
       .map(([key, description]) => ({ key, description: description ?? null }))
       .sort((a, b) => a.key.localeCompare(b.key));
 
-    return createTextResult({ properties });
+    const result: Record<string, unknown> = { properties };
+    if (path) result.path = path;
+    if (dereference) {
+      result.schema = flattenSchema(
+        await resolver.dereference(target.node, target.root),
+      );
+    }
+
+    return createTextResult({ ...result, ...getLexiconStalenessMarker() });
   } catch (error) {
     logger.error("listPropertiesByClassName failed", {
       className,
+      path,
       error: error instanceof Error ? error.message : String(error),
     });
     return createTextResult({
@@ -101,41 +190,28 @@ export async function listPropertiesByClassNameHandler(className: string) {
   }
 }
 
-function findPropertySchema(
-  node: JsonSchemaNode | null | undefined,
-  targetName: string,
-): JsonSchemaNode | null {
-  if (!node) return null;
-
-  const props = node.properties;
-  if (props && typeof props === "object") {
-    for (const key of Object.keys(props)) {
-      if (normalizeKey(key) === normalizeKey(targetName)) {
-        if (key === "property_type") {
-          const schema = props[key];
-          schema["enum"] = [
-            "LandParcel",
-            "Building",
-            "Unit",
-            "ManufacturedHome",
-          ];
-        }
-        return props[key];
-      }
-    }
-  }
+/**
+ * Returns a copy of a class schema with the `property_type` enum override
+ * applied to the top-level property and its combinator branches, so
+ * whole-class consumers see the same enum that getPropertySchema reports.
+ */
+export function applyPropertyTypeOverride(schema: ClassSchema): ClassSchema {
+  const copy = structuredClone(schema);
 
-  for (const comb of ["oneOf", "allOf", "anyOf"] as const) {
-    const candidates = node?.[comb];
-    if (Array.isArray(candidates)) {
-      for (const sub of candidates) {
-        const found = findPropertySchema(sub, targetName);
-        if (found) return found;
+  const visit = (node: JsonSchemaNode | null | undefined) => {
+    if (!node) return;
+    const prop = node.properties?.property_type;
+    if (prop) prop["enum"] = [...PROPERTY_TYPE_ENUM];
+    for (const comb of ["oneOf", "allOf", "anyOf"] as const) {
+      const candidates = node[comb];
+      if (Array.isArray(candidates)) {
+        for (const sub of candidates) visit(sub);
       }
     }
-  }
+  };
 
-  return null;
+  visit(copy);
+  return copy;
 }
 
 export async function getPropertySchemaByClassNameHandler(
@@ -154,7 +230,7 @@ export async function getPropertySchemaByClassNameHandler(
 
     let schema: ClassSchema;
     try {
-      schema = await getJsonByCid<ClassSchema>(resolved.cid);
+      schema = await getLexiconJsonByCid<ClassSchema>(resolved.cid);
     } catch (error) {
       logger.error("Failed to fetch class schema", {
         className,
@@ -164,20 +240,35 @@ export async function getPropertySchemaByClassNameHandler(
       return createTextResult({ error: "Failed to fetch class schema" });
     }
 
-    const propSchema = findPropertySchema(schema, propertyName);
-    if (!propSchema) {
+    let segments: PathSegment[];
+    try {
+      segments = parsePropertyPath(propertyName);
+    } catch (error) {
+      return createTextResult({
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    const resolver = new SchemaRefResolver();
+    const match = await resolver.findAtPath(schema, segments);
+    if (!match) {
       const message = `Property '${propertyName}' not found for class '${className}'.`;
       logger.warn(message);
       return createTextResult({ error: message });
     }
 
-    // Check if the property itself is deprecated
-    if (propSchema.deprecated === true) {
+    // Check if the property, or any property on the path to it, is deprecated
+    if (match.deprecated) {
       const message = `Property '${propertyName}' is deprecated for class '${className}'.`;
       logger.warn(message);
       return createTextResult({ error: message });
     }
 
+    let propSchema = await resolver.dereference(match.node, match.root);
+    if (segments.length === 1 && match.propertyKey === "property_type") {
+      propSchema = { ...propSchema, enum: [...PROPERTY_TYPE_ENUM] };
+    }
+
     // Filter out deprecated enum values
     const filteredSchema = { ...propSchema };
     if (
@@ -198,7 +289,10 @@ export async function getPropertySchemaByClassNameHandler(
       delete filteredSchema.deprecated_enum_values;
     }
 
-    return createTextResult({ schema: filteredSchema });
+    return createTextResult({
+      schema: filteredSchema,
+      ...getLexiconStalenessMarker(),
+    });
   } catch (error) {
     logger.error("getPropertySchema failed", {
       className,
@@ -4,6 +4,9 @@ import {
   shouldIgnoreClass,
   resolveDataGroup,
   listClassesFromDataGroup,
+  buildDataGroupGraph,
+  renderDataGroupGraphMermaid,
+  renderDataGroupGraphDot,
 } from "./dataGroups.ts";
 import { fetchManifest, normalizeKey } from "../lib/manifest.ts";
 
@@ -256,3 +259,71 @@ describe("fetchManifest", () => {
     expect(manifest.Seed.ipfsCid).toBe("cid1");
   });
 });
+
+describe("buildDataGroupGraph", () => {
+  const manifest: Manifest = {
+    property: { ipfsCid: "cid-property", type: "class" },
+    structure: { ipfsCid: "cid-structure", type: "class" },
+    layout: { ipfsCid: "cid-layout", type: "class" },
+  };
+  const groupSchema = {
+    relationships: {
+      properties: {
+        property_has_structure: { type: "object" },
+        structure_has_layout: { type: "array", items: { type: "object" } },
+        property_has_fact_sheet: { type: "object" },
+        property_has_lot: { type: "object", deprecated: true },
+      },
+    },
+  };
+
+  it("keeps edges with direction and cardinality", () => {
+    const graph = buildDataGroupGraph(manifest, "Seed", groupSchema);
+
+    expect(graph).toEqual({
+      dataGroup: "Seed",
+      nodes: ["layout", "property", "structure"],
+      edges: [
+        {
+          relationship: "property_has_structure",
+          from: "property",
+          to: "structure",
+          cardinality: "one",
+        },
+        {
+          relationship: "structure_has_layout",
+          from: "structure",
+          to: "layout",
+          cardinality: "many",
+        },
+      ],
+    });
+  });
+
+  it("renders Mermaid and DOT", () => {
+    const graph = buildDataGroupGraph(manifest, "Seed", groupSchema);
+
+    expect(renderDataGroupGraphMermaid(graph)).toBe(
+      [
+        "flowchart LR",
+        '  layout["layout"]',
+        '  property["property"]',
+        '  structure["structure"]',
+        "  property -->|property_has_structure| structure",
+        "  structure -->|structure_has_layout (1..*)| layout",
+      ].join("\n"),
+    );
+    expect(renderDataGroupGraphDot(graph)).toBe(
+      [
+        'digraph "Seed" {',
+        "  rankdir=LR;",
+        '  "layout";',
+        '  "property";',
+        '  "structure";',
+        '  "property" -> "structure" [label="property_has_structure"];',
+        '  "structure" -> "layout" [label="structure_has_layout", headlabel="*"];',
+        "}",
+      ].join("\n"),
+    );
+  });
+});
@@ -1,10 +1,14 @@
 import { createTextResult } from "../lib/utils.ts";
 import { logger } from "../logger.ts";
-import { getJsonByCid } from "../lib/ipfs.ts";
+import {
+  getLexiconJsonByCid,
+  getLexiconStalenessMarker,
+} from "../lib/lexiconCache.ts";
 import { fetchManifest, normalizeKey } from "../lib/manifest.ts";
 import type {
   ClassSchema,
   DataGroupSchema,
+  JsonSchemaNode,
   ListedClassInfo,
   Manifest,
 } from "../types/lexicon.ts";
@@ -46,19 +50,26 @@ export async function resolveDataGroup(
   return { key: target, cid: manifest[target].ipfsCid, available: dataGroups };
 }
 
-export async function listClassesFromDataGroup(
-  manifest: Manifest,
-  groupCid: string,
-): Promise<ListedClassInfo[]> {
-  const groupSchema = await getJsonByCid<DataGroupSchema>(groupCid);
+export function getRelationshipProperties(
+  groupSchema: DataGroupSchema,
+): Record<string, JsonSchemaNode> {
   const relationshipsProperties = groupSchema.relationships?.properties;
   const nestedRelationshipsNode = groupSchema.properties?.relationships;
   const nestedRelationshipsProperties = nestedRelationshipsNode?.properties;
-  const properties =
+  return (
     relationshipsProperties ??
     // Handle real JSON Schema nesting where relationships live under properties.relationships.properties
     nestedRelationshipsProperties ??
-    {};
+    {}
+  );
+}
+
+export async function listClassesFromDataGroup(
+  manifest: Manifest,
+  groupCid: string,
+): Promise<ListedClassInfo[]> {
+  const groupSchema = await getLexiconJsonByCid<DataGroupSchema>(groupCid);
+  const properties = getRelationshipProperties(groupSchema);
   const candidate = new Set<string>();
 
   for (const [key, relSchema] of Object.entries(properties)) {
@@ -92,7 +103,7 @@ export async function listClassesFromDataGroup(
 
     let schema: ClassSchema | null = null;
     try {
-      schema = await getJsonByCid<ClassSchema>(entry.ipfsCid);
+      schema = await getLexiconJsonByCid<ClassSchema>(entry.ipfsCid);
     } catch (error) {
       logger.warn("Failed to fetch class schema", {
         classKey: manifestKey,
@@ -109,6 +120,157 @@ export async function listClassesFromDataGroup(
   return classes.sort((a, b) => a.key.localeCompare(b.key));
 }
 
+export type DataGroupGraphFormat = "json" | "mermaid" | "dot";
+
+export interface DataGroupGraphEdge {
+  relationship: string;
+  from: string;
+  to: string;
+  /** "many" when the relationship schema is an array of links. */
+  cardinality: "one" | "many";
+}
+
+export interface DataGroupGraph {
+  dataGroup: string;
+  nodes: string[];
+  edges: DataGroupGraphEdge[];
+}
+
+function isArraySchema(node: JsonSchemaNode | undefined): boolean {
+  const type = node?.type;
+  return Array.isArray(type) ? type.includes("array") : type === "array";
+}
+
+/**
+ * Turns the data group's relationship keys into a directed class graph.
+ * Deprecated relationships and fact sheet classes are left out, as in
+ * listClassesFromDataGroup.
+ */
+export function buildDataGroupGraph(
+  manifest: Manifest,
+  groupKey: string,
+  groupSchema: DataGroupSchema,
+): DataGroupGraph {
+  const manifestKeys = new Map(
+    Object.keys(manifest).map((key) => [normalizeKey(key), key]),
+  );
+  const toNode = (name: string) => manifestKeys.get(normalizeKey(name)) ?? name;
+
+  const nodes = new Set<string>();
+  const edges: DataGroupGraphEdge[] = [];
+  const relationships = getRelationshipProperties(groupSchema);
+  for (const [key, relSchema] of Object.entries(relationships)) {
+    if (relSchema?.deprecated === true) continue;
+    const pair = extractClassPairs(key);
+    if (!pair) continue;
+    const [a, b] = pair;
+    if (shouldIgnoreClass(a) || shouldIgnoreClass(b)) continue;
+
+    const from = toNode(a);
+    const to = toNode(b);
+    nodes.add(from);
+    nodes.add(to);
+    edges.push({
+      relationship: key,
+      from,
+      to,
+      cardinality: isArraySchema(relSchema) ? "many" : "one",
+    });
+  }
+
+  return {
+    dataGroup: groupKey,
+    nodes: [...nodes].sort(),
+    edges: edges.sort((x, y) => x.relationship.localeCompare(y.relationship)),
+  };
+}
+
+function mermaidId(name: string): string {
+  return name.replace(/[^A-Za-z0-9_]/g, "_");
+}
+
+export function renderDataGroupGraphMermaid(graph: DataGroupGraph): string {
+  const lines = ["flowchart LR"];
+  for (const node of graph.nodes) {
+    lines.push(`  ${mermaidId(node)}["${node}"]`);
+  }
+  for (const edge of graph.edges) {
+    const label =
+      edge.cardinality === "many"
+        ? `${edge.relationship} (1..*)`
+        : edge.relationship;
+    lines.push(`  ${mermaidId(edge.from)} -->|${label}| ${mermaidId(edge.to)}`);
+  }
+  return lines.join("\n");
+}
+
+function dotString(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+export function renderDataGroupGraphDot(graph: DataGroupGraph): string {
+  const lines = [`digraph ${dotString(graph.dataGroup)} {`, "  rankdir=LR;"];
+  for (const node of graph.nodes) {
+    lines.push(`  ${dotString(node)};`);
+  }
+  for (const edge of graph.edges) {
+    const attrs = [`label=${dotString(edge.relationship)}`];
+    if (edge.cardinality === "many") attrs.push(`headlabel="*"`);
+    lines.push(
+      `  ${dotString(edge.from)} -> ${dotString(edge.to)} [${attrs.join(", ")}];`,
+    );
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+export async function getDataGroupGraphHandler(
+  groupName: string,
+  format: DataGroupGraphFormat = "json",
+) {
+  try {
+    const manifest = await fetchManifest();
+    const resolved = await resolveDataGroup(manifest, groupName);
+
+    if (!resolved.key) {
+      const message = `Unknown data group '${groupName}'. Available: ${resolved.available.join(", ")}`;
+      logger.warn(message);
+      return createTextResult({ error: message });
+    }
+
+    const groupSchema = await getLexiconJsonByCid<DataGroupSchema>(
+      resolved.cid,
+    );
+    const graph = buildDataGroupGraph(manifest, resolved.key, groupSchema);
+
+    if (format === "json") {
+      return createTextResult({ ...graph, ...getLexiconStalenessMarker() });
+    }
+    const diagram =
+      format === "mermaid"
+        ? renderDataGroupGraphMermaid(graph)
+        : renderDataGroupGraphDot(graph);
+    return createTextResult({
+      dataGroup: graph.dataGroup,
+      format,
+      diagram,
+      ...getLexiconStalenessMarker(),
+    });
+  } catch (error) {
+    logger.error(
+      {
+        groupName,
+        format,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      "getDataGroupGraph failed",
+    );
+    return createTextResult({
+      error: "Internal error while building data group graph",
+    });
+  }
+}
+
 export async function listClassesByDataGroupHandler(groupName: string) {
   try {
     const manifest = await fetchManifest();
@@ -121,7 +283,7 @@ export async function listClassesByDataGroupHandler(groupName: string) {
     }
 
     const classes = await listClassesFromDataGroup(manifest, resolved.cid);
-    return createTextResult({ classes });
+    return createTextResult({ classes, ...getLexiconStalenessMarker() });
   } catch (error) {
     logger.error("listClassesByDataGroup failed", {
       groupName,
@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { existsSync, unlinkSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { randomUUID } from "node:crypto";
+import { initializeDatabase } from "../db/migrate.ts";
+import { setDbInstance } from "../db/connectionRef.ts";
+import { ensureVectorIndex, saveFunction } from "../db/repository.ts";
+
+vi.mock("../lib/ipfs.ts", () => ({ getJsonByCid: vi.fn() }));
+vi.mock("../lib/manifest.ts", () => ({
+  fetchManifest: vi.fn(),
+  normalizeKey: (key: string) => key.trim().toLowerCase(),
+}));
+
+import { getJsonByCid } from "../lib/ipfs.ts";
+import { fetchManifest } from "../lib/manifest.ts";
+import { getDeprecationReportHandler } from "./deprecations.ts";
+
+const manifest = {
+  County: { ipfsCid: "cid-county", type: "dataGroup" as const },
+  property: { ipfsCid: "cid-property", type: "class" as const },
+  address: { ipfsCid: "cid-address", type: "class" as const },
+};
+
+const schemas: Record<string, unknown> = {
+  "cid-county": {
+    relationships: {
+      properties: {
+        property_has_address: { type: "object" },
+        property_has_old_address: {
+          type: "object",
+          deprecated: true,
+          description: "Deprecated, use property_has_address instead",
+        },
+      },
+    },
+  },
+  "cid-property": {
+    type: "object",
+    properties: {
+      parcel_identifier: { type: "string" },
+      legacy_parcel_id: {
+        type: "string",
+        deprecated: true,
+        description: "Replaced by parcel_identifier",
+      },
+      property_type: {
+        type: "string",
+        enum: ["LandParcel", "Building", "Residential"],
+        deprecated_enum_values: { Residential: "Building" },
+      },
+      layouts: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            space_type: {
+              type: "string",
+              enum: ["Bedroom", "Den"],
+              deprecated_enum_values: ["Den"],
+            },
+          },
+        },
+      },
+    },
+  },
+  "cid-address": {
+    type: "object",
+    properties: { street_name: { type: "string" } },
+  },
+};
+
+function parse(
+  result: Awaited<ReturnType<typeof getDeprecationReportHandler>>,
+) {
+  const [content] = result.content;
+  return JSON.parse(content.type === "text" ? content.text : "null");
+}
+
+describe("getDeprecationReport", () => {
+  let testDbPath: string;
+  let client: Awaited<ReturnType<typeof initializeDatabase>>["client"];
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    testDbPath = join(
+      tmpdir(),
+      `deprecations-test-${process.pid}-${randomUUID()}.sqlite`,
+    );
+    const result = await initializeDatabase(testDbPath);
+    client = result.client;
+    setDbInstance(result.db);
+
+    vi.mocked(fetchManifest).mockResolvedValue(manifest);
+    vi.mocked(getJsonByCid).mockImplementation(
+      async (cid: string) => schemas[cid] as never,
+    );
+
+    const index = await ensureVectorIndex(result.db, "functions", "test", 1024);
+    await saveFunction(result.db, index, {
+      name: "mapProperty",
+      filePath: "counties/lee/property.js",
+      code: [
+        "function mapProperty(row) {",
+        "  const out = { legacy_parcel_id: row.id };",
+        '  out.property_type = row.kind === "R" ? "Residential" : "Building";',
+        "  return out;",
+        "}",
+      ].join("\n"),
+      embeddings: [Array.from({ length: 1024 }, () => 0.1)],
+    });
+  });
+
+  afterEach(() => {
+    client.close();
+    if (existsSync(testDbPath)) {
+      unlinkSync(testDbPath);
+    }
+  });
+
+  it("reports deprecations for a data group with code usages", async () => {
+    const data = parse(
+      await getDeprecationReportHandler({ groupName: "county" }),
+    );
+
+    expect(data.summary).toEqual({
+      deprecatedRelationships: 1,
+      deprecatedProperties: 1,
+      deprecatedEnumValues: 2,
+      stillEmitted: 2,
+    });
+    expect(data.codeScan).toEqual({ scanned: true, functions: 1 });
+    expect(data.relationships).toEqual([
+      expect.objectContaining({
+        relationship: "property_has_old_address",
+        replacement: "property_has_address",
+        usages: [],
+      }),
+    ]);
+    expect(data.properties).toEqual([
+      expect.objectContaining({
+        className: "property",
+        path: "legacy_parcel_id",
+        replacement: "parcel_identifier",
+        usages: [
+          expect.objectContaining({
+            functionName: "mapProperty",
+            filePath: "counties/lee/property.js",
+            line: 2,
+          }),
+        ],
+      }),
+    ]);
+    expect(data.enumValues).toEqual([
+      expect.objectContaining({
+        path: "property_type",
+        value: "Residential",
+        replacement: "Building",
+        usages: [expect.objectContaining({ line: 3 })],
+      }),
+      expect.objectContaining({
+        path: "layouts[].space_type",
+        value: "Den",
+        replacement: null,
+        usages: [],
+      }),
+    ]);
+  });
+
+  it("requires exactly one target", async () => {
+    const data = parse(await getDeprecationReportHandler({}));
+    expect(data.error).toBe("Provide exactly one of className or groupName");
+  });
+});
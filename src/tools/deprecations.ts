@@ -0,0 +1,265 @@
+import { createTextResult } from "../lib/utils.ts";
+import { logger } from "../logger.ts";
+import {
+  getLexiconJsonByCid,
+  getLexiconStalenessMarker,
+} from "../lib/lexiconCache.ts";
+import { fetchManifest } from "../lib/manifest.ts";
+import { SchemaRefResolver, flattenSchema } from "../lib/schemaRefs.ts";
+import { getDeprecatedEnumValues } from "../lib/schemaValidator.ts";
+import {
+  findCodeUsages,
+  replacementFromDescription,
+  type CodeUsage,
+  type DeprecatedTermKind,
+} from "../lib/deprecationScan.ts";
+import { getDbInstance } from "../db/connectionRef.ts";
+import { listFunctionSources } from "../db/repository.ts";
+import type { FunctionSource } from "../db/types.ts";
+import { resolveClass } from "./classes.ts";
+import {
+  buildDataGroupGraph,
+  getRelationshipProperties,
+  resolveDataGroup,
+} from "./dataGroups.ts";
+import type {
+  ClassSchema,
+  DataGroupSchema,
+  JsonSchemaNode,
+} from "../types/lexicon.ts";
+
+export interface DeprecatedRelationship {
+  dataGroup: string;
+  relationship: string;
+  description: string | null;
+  replacement: string | null;
+  usages: CodeUsage[];
+}
+
+export interface DeprecatedProperty {
+  className: string;
+  /** Dotted path, with `[]` for array items. */
+  path: string;
+  property: string;
+  description: string | null;
+  replacement: string | null;
+  usages: CodeUsage[];
+}
+
+export interface DeprecatedEnumValue {
+  className: string;
+  path: string;
+  value: string;
+  replacement: string | null;
+  usages: CodeUsage[];
+}
+
+function enumReplacement(node: JsonSchemaNode, value: string): string | null {
+  const hints = node.deprecated_enum_values;
+  if (!hints || Array.isArray(hints)) return null;
+  const hint = hints[value];
+  return typeof hint === "string" && hint.length > 0 ? hint : null;
+}
+
+function description(node: JsonSchemaNode): string | null {
+  return typeof node.description === "string" ? node.description : null;
+}
+
+/**
+ * Walks a dereferenced class schema, collecting deprecated properties (at any
+ * depth) and deprecated enum values. Combinator branches that repeat the same
+ * path are reported once.
+ */
+export function collectClassDeprecations(
+  className: string,
+  schema: JsonSchemaNode,
+): {
+  properties: Omit<DeprecatedProperty, "usages">[];
+  enumValues: Omit<DeprecatedEnumValue, "usages">[];
+} {
+  const properties = new Map<string, Omit<DeprecatedProperty, "usages">>();
+  const enumValues = new Map<string, Omit<DeprecatedEnumValue, "usages">>();
+
+  const visit = (node: JsonSchemaNode, path: string) => {
+    for (const value of getDeprecatedEnumValues(node)) {
+      const key = `${path}\u0000${value}`;
+      if (enumValues.has(key)) continue;
+      enumValues.set(key, {
+        className,
+        path,
+        value,
+        replacement: enumReplacement(node, value),
+      });
+    }
+
+    for (const [name, child] of Object.entries(node.properties ?? {})) {
+      const childPath = path ? `${path}.${name}` : name;
+      if (child.deprecated === true) {
+        if (!properties.has(childPath)) {
+          properties.set(childPath, {
+            className,
+            path: childPath,
+            property: name,
+            description: description(child),
+            replacement: replacementFromDescription(description(child)),
+          });
+        }
+        continue;
+      }
+      visit(child, childPath);
+    }
+
+    const items = Array.isArray(node.items) ? node.items[0] : node.items;
+    if (items && typeof items === "object" && !Array.isArray(items)) {
+      visit(items as JsonSchemaNode, `${path}[]`);
+    }
+    for (const comb of ["oneOf", "anyOf"] as const) {
+      for (const branch of node[comb] ?? []) visit(branch, path);
+    }
+  };
+
+  visit(schema, "");
+  return {
+    properties: [...properties.values()],
+    enumValues: [...enumValues.values()],
+  };
+}
+
+async function loadFunctionSources(): Promise<FunctionSource[] | null> {
+  const db = getDbInstance();
+  if (!db) return null;
+  try {
+    return await listFunctionSources(db);
+  } catch (error) {
+    logger.warn(
+      { error: error instanceof Error ? error.message : String(error) },
+      "Failed to read indexed verified scripts for deprecation scan",
+    );
+    return null;
+  }
+}
+
+export async function getDeprecationReportHandler(target: {
+  className?: string;
+  groupName?: string;
+}) {
+  try {
+    if (Boolean(target.className) === Boolean(target.groupName)) {
+      return createTextResult({
+        error: "Provide exactly one of className or groupName",
+      });
+    }
+
+    const manifest = await fetchManifest();
+    let targetKey: string;
+    let classKeys: string[];
+    const relationships: Omit<DeprecatedRelationship, "usages">[] = [];
+
+    if (target.className) {
+      const resolved = resolveClass(manifest, target.className);
+      if (!resolved.key) {
+        const message = `Unknown class '${target.className}'.`;
+        logger.warn(message);
+        return createTextResult({ error: message });
+      }
+      targetKey = resolved.key;
+      classKeys = [resolved.key];
+    } else {
+      const groupName = target.groupName ?? "";
+      const resolved = await resolveDataGroup(manifest, groupName);
+      if (!resolved.key) {
+        const message = `Unknown data group '${groupName}'. Available: ${resolved.available.join(", ")}`;
+        logger.warn(message);
+        return createTextResult({ error: message });
+      }
+      const groupSchema = await getLexiconJsonByCid<DataGroupSchema>(
+        resolved.cid,
+      );
+      for (const [key, relSchema] of Object.entries(
+        getRelationshipProperties(groupSchema),
+      )) {
+        if (relSchema?.deprecated !== true) continue;
+        relationships.push({
+          dataGroup: resolved.key,
+          relationship: key,
+          description: description(relSchema),
+          replacement: replacementFromDescription(description(relSchema)),
+        });
+      }
+      targetKey = resolved.key;
+      classKeys = buildDataGroupGraph(
+        manifest,
+        resolved.key,
+        groupSchema,
+      ).nodes.filter((key) => manifest[key]?.type === "class");
+    }
+
+    const resolver = new SchemaRefResolver();
+    const properties: Omit<DeprecatedProperty, "usages">[] = [];
+    const enumValues: Omit<DeprecatedEnumValue, "usages">[] = [];
+    for (const key of classKeys) {
+      const schema = await getLexiconJsonByCid<ClassSchema>(
+        manifest[key].ipfsCid,
+      );
+      const dereferenced = await resolver.dereference(schema, schema);
+      const found = collectClassDeprecations(key, flattenSchema(dereferenced));
+      properties.push(...found.properties);
+      enumValues.push(...found.enumValues);
+    }
+
+    const sources = await loadFunctionSources();
+    const usages = (term: string, kind: DeprecatedTermKind) =>
+      sources ? findCodeUsages(sources, term, kind) : [];
+
+    const report = {
+      relationships: relationships
+        .sort((a, b) => a.relationship.localeCompare(b.relationship))
+        .map((r) => ({
+          ...r,
+          usages: usages(r.relationship, "relationship"),
+        })),
+      properties: properties.map((p) => ({
+        ...p,
+        usages: usages(p.property, "property"),
+      })),
+      enumValues: enumValues.map((e) => ({
+        ...e,
+        usages: usages(e.value, "enumValue"),
+      })),
+    };
+    const all = [
+      ...report.relationships,
+      ...report.properties,
+      ...report.enumValues,
+    ];
+
+    return createTextResult({
+      target: targetKey,
+      kind: target.className ? "class" : "dataGroup",
+      classes: classKeys,
+      summary: {
+        deprecatedRelationships: report.relationships.length,
+        deprecatedProperties: report.properties.length,
+        deprecatedEnumValues: report.enumValues.length,
+        stillEmitted: all.filter((entry) => entry.usages.length > 0).length,
+      },
+      codeScan: sources
+        ? { scanned: true, functions: sources.length }
+        : { scanned: false, reason: "Verified scripts index is unavailable" },
+      ...report,
+      ...getLexiconStalenessMarker(),
+    });
+  } catch (error) {
+    logger.error(
+      {
+        className: target.className,
+        groupName: target.groupName,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      "getDeprecationReport failed",
+    );
+    return createTextResult({
+      error: "Internal error while building deprecation report",
+    });
+  }
+}
@@ -0,0 +1,198 @@
+import { createTextResult } from "../lib/utils.ts";
+import { logger } from "../logger.ts";
+import { getLexiconJsonByCid } from "../lib/lexiconCache.ts";
+import { fetchManifestSnapshot, manifestSchema } from "../lib/manifest.ts";
+import { getLexiconSource } from "../lib/lexiconSource.ts";
+import {
+  diffClassSchemas,
+  diffManifests,
+  type ClassSchemaDiff,
+} from "../lib/lexiconDiff.ts";
+import { getDbInstance } from "../db/connectionRef.ts";
+import {
+  getLexiconSnapshot,
+  getLexiconSnapshotAt,
+  listLexiconSnapshots,
+  saveLexiconSnapshot,
+} from "../db/repository.ts";
+import type { ClassSchema, Manifest } from "../types/lexicon.ts";
+
+export interface DiffLexiconVersionsArgs {
+  fromCid?: string;
+  toCid?: string;
+  since?: string;
+}
+
+interface ResolvedVersion {
+  manifestCid: string;
+  manifest: Manifest;
+  /** ISO time the snapshot was first seen, or null if read from IPFS. */
+  capturedAt: string | null;
+  source: "live" | "snapshot" | "ipfs";
+}
+
+function toIso(seconds: number): string {
+  return new Date(seconds * 1000).toISOString();
+}
+
+async function loadVersionByCid(cid: string): Promise<ResolvedVersion> {
+  const db = getDbInstance();
+  const stored = db ? await getLexiconSnapshot(db, cid) : null;
+  if (stored) {
+    return {
+      manifestCid: cid,
+      manifest: stored.manifest as Manifest,
+      capturedAt: toIso(stored.capturedAt),
+      source: "snapshot",
+    };
+  }
+
+  const raw = await getLexiconJsonByCid<unknown>(cid);
+  return {
+    manifestCid: cid,
+    manifest: manifestSchema.parse(raw) as Manifest,
+    capturedAt: null,
+    source: "ipfs",
+  };
+}
+
+/**
+ * Compare two lexicon manifest versions, given as CIDs or as the snapshot in
+ * effect at a point in time, and drill into every re-pinned class schema.
+ */
+export async function diffLexiconVersionsHandler(
+  args: DiffLexiconVersionsArgs,
+) {
+  const { fromCid, toCid, since } = args;
+  try {
+    if (!fromCid && !since) {
+      return createTextResult({
+        error: "Provide fromCid or since to choose the base lexicon version",
+      });
+    }
+    if (fromCid && since) {
+      return createTextResult({
+        error: "Provide only one of fromCid or since",
+      });
+    }
+
+    const db = getDbInstance();
+    const live = await fetchManifestSnapshot();
+    // Manifests of a local lexicon are unpublished, so not a lexicon version
+    const liveSnapshot =
+      db && getLexiconSource().immutable
+        ? await saveLexiconSnapshot(db, live.cid, live.manifest)
+        : null;
+    const liveVersion: ResolvedVersion = {
+      manifestCid: live.cid,
+      manifest: live.manifest,
+      capturedAt: liveSnapshot ? toIso(liveSnapshot.capturedAt) : null,
+      source: "live",
+    };
+
+    let from: ResolvedVersion;
+    if (fromCid) {
+      from = await loadVersionByCid(fromCid);
+    } else {
+      if (!db) {
+        return createTextResult({
+          error:
+            "Database is not initialized; point-in-time snapshots are unavailable. Pass fromCid instead.",
+        });
+      }
+      const atMs = Date.parse(since as string);
+      if (Number.isNaN(atMs)) {
+        return createTextResult({
+          error: `Invalid since '${since}'; expected an ISO 8601 date or date-time`,
+        });
+      }
+      const snapshot = await getLexiconSnapshotAt(db, Math.floor(atMs / 1000));
+      if (!snapshot) {
+        const available = await listLexiconSnapshots(db);
+        return createTextResult({
+          error: `No lexicon snapshot was recorded at or before ${new Date(atMs).toISOString()}`,
+          availableSnapshots: available.map((s) => ({
+            manifestCid: s.manifestCid,
+            capturedAt: toIso(s.capturedAt),
+          })),
+        });
+      }
+      from = {
+        manifestCid: snapshot.manifestCid,
+        manifest: snapshot.manifest as Manifest,
+        capturedAt: toIso(snapshot.capturedAt),
+        source: "snapshot",
+      };
+    }
+
+    const to =
+      toCid && toCid !== live.cid ? await loadVersionByCid(toCid) : liveVersion;
+
+    const entries = diffManifests(from.manifest, to.manifest);
+
+    const classChanges: Array<
+      { className: string; fromCid: string; toCid: string } & (
+        | ClassSchemaDiff
+        | { error: string }
+      )
+    > = [];
+    for (const { key, fromCid: before, toCid: after } of entries.class
+      .repinned) {
+      try {
+        const [prev, next] = await Promise.all([
+          getLexiconJsonByCid<ClassSchema>(before),
+          getLexiconJsonByCid<ClassSchema>(after),
+        ]);
+        classChanges.push({
+          className: key,
+          fromCid: before,
+          toCid: after,
+          ...diffClassSchemas(prev, next),
+        });
+      } catch (error) {
+        logger.warn(
+          {
+            className: key,
+            fromCid: before,
+            toCid: after,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          "Failed to fetch class schemas for lexicon diff",
+        );
+        classChanges.push({
+          className: key,
+          fromCid: before,
+          toCid: after,
+          error: "Failed to fetch class schemas",
+        });
+      }
+    }
+
+    const describe = ({ manifest: _manifest, ...rest }: ResolvedVersion) =>
+      rest;
+
+    return createTextResult({
+      from: describe(from),
+      to: describe(to),
+      identical: from.manifestCid === to.manifestCid,
+      classes: entries.class,
+      relationships: entries.relationship,
+      dataGroups: entries.dataGroup,
+      classChanges,
+    });
+  } catch (error) {
+    logger.error(
+      {
+        fromCid,
+        toCid,
+        since,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      "diffLexiconVersions failed",
+    );
+    return createTextResult({
+      error: "Internal error while diffing lexicon versions",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
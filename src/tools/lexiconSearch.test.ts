@@ -0,0 +1,215 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { existsSync, unlinkSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { randomUUID } from "node:crypto";
+import { initializeDatabase } from "../db/migrate.ts";
+import { setDbInstance } from "../db/connectionRef.ts";
+
+vi.mock("../lib/ipfs.ts", () => ({ getJsonByCid: vi.fn() }));
+vi.mock("../lib/manifest.ts", () => ({
+  fetchManifestSnapshot: vi.fn(),
+  normalizeKey: (key: string) => key.trim().toLowerCase(),
+}));
+vi.mock("../lib/embeddings.ts", () => ({
+  embedText: vi.fn(),
+  embedManyTexts: vi.fn(),
+  getActiveEmbeddingModel: vi.fn(() => "test-model"),
+  getActiveEmbeddingDimensions: vi.fn(() => 1024),
+}));
+vi.mock("../config.ts", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../config.ts")>()),
+  hasEmbeddingProvider: vi.fn(() => true),
+  getEmbeddingProviderDescription: vi.fn(() => "test"),
+}));
+
+import { getJsonByCid } from "../lib/ipfs.ts";
+import { fetchManifestSnapshot } from "../lib/manifest.ts";
+import {
+  embedManyTexts,
+  embedText,
+  getActiveEmbeddingDimensions,
+  getActiveEmbeddingModel,
+} from "../lib/embeddings.ts";
+import { listVectorIndexes } from "../db/repository.ts";
+import {
+  buildLexiconSearchDocuments,
+  searchLexiconHandler,
+} from "./lexiconSearch.ts";
+
+const DIM = 1024;
+
+function parse(result: Awaited<ReturnType<typeof searchLexiconHandler>>) {
+  const [content] = result.content;
+  return JSON.parse(content.type === "text" ? content.text : "null");
+}
+
+/** One-hot-ish vector keyed on a topic word, so ranking is predictable. */
+function vectorFor(text: string, dimensions = DIM): number[] {
+  const topics = ["area", "street", "parcel"];
+  const vector = Array.from({ length: dimensions }, () => 0.01);
+  topics.forEach((topic, index) => {
+    if (text.toLowerCase().includes(topic)) vector[index] = 1;
+  });
+  return vector;
+}
+
+const manifest = {
+  lot: { ipfsCid: "cid-lot", type: "class" as const },
+  address: { ipfsCid: "cid-address", type: "class" as const },
+  Seed: { ipfsCid: "cid-seed", type: "dataGroup" as const },
+};
+
+const schemas: Record<string, unknown> = {
+  "cid-lot": {
+    title: "lot",
+    description: "A land parcel",
+    properties: {
+      lot_area_sqft: { type: "number", description: "Lot area in sqft" },
+      legacy_size: { type: "number", deprecated: true },
+    },
+  },
+  "cid-address": {
+    title: "address",
+    description: "Postal address",
+    properties: {
+      street_name: { type: "string", description: "Street name" },
+    },
+  },
+  "cid-seed": {
+    relationships: {
+      properties: {
+        address_has_lot: { type: "object" },
+      },
+    },
+  },
+};
+
+describe("searchLexicon", () => {
+  let testDbPath: string;
+  let db: Awaited<ReturnType<typeof initializeDatabase>>["db"];
+  let client: Awaited<ReturnType<typeof initializeDatabase>>["client"];
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    testDbPath = join(
+      tmpdir(),
+      `lexicon-search-test-${process.pid}-${randomUUID()}.sqlite`,
+    );
+    const result = await initializeDatabase(testDbPath);
+    db = result.db;
+    client = result.client;
+    setDbInstance(result.db);
+
+    vi.mocked(getJsonByCid).mockImplementation(
+      async (cid: string) => schemas[cid] as never,
+    );
+    vi.mocked(fetchManifestSnapshot).mockResolvedValue({
+      manifest,
+      cid: "QmManifestA",
+      fetchedAt: 1000,
+      stale: false,
+    });
+    vi.mocked(embedManyTexts).mockImplementation(async (texts) =>
+      texts.map((text) => ({ text, embedding: vectorFor(text) })),
+    );
+    vi.mocked(embedText).mockImplementation(async (text) => vectorFor(text));
+    vi.mocked(getActiveEmbeddingModel).mockReturnValue("test-model");
+    vi.mocked(getActiveEmbeddingDimensions).mockReturnValue(DIM);
+  });
+
+  afterEach(() => {
+    client.close();
+    if (existsSync(testDbPath)) {
+      unlinkSync(testDbPath);
+    }
+  });
+
+  it("builds class and property documents tagged with data groups", async () => {
+    const documents = await buildLexiconSearchDocuments(manifest);
+
+    expect(documents.map((d) => [d.className, d.propertyName])).toEqual([
+      ["address", null],
+      ["address", "street_name"],
+      ["lot", null],
+      ["lot", "lot_area_sqft"],
+    ]);
+    expect(documents[3]).toMatchObject({
+      description: "Lot area in sqft",
+      dataGroups: ["Seed"],
+      text: "lot.lot_area_sqft: Lot area in sqft",
+    });
+  });
+
+  it("ranks hits and rebuilds only when the manifest CID changes", async () => {
+    const first = parse(await searchLexiconHandler("land area", 2));
+    expect(first.indexRebuilt).toBe(true);
+    expect(first.hits[0]).toMatchObject({
+      className: "lot",
+      property: "lot_area_sqft",
+      dataGroups: ["Seed"],
+    });
+
+    const second = parse(await searchLexiconHandler("street", 1));
+    expect(second.indexRebuilt).toBe(false);
+    expect(second.hits[0]).toMatchObject({
+      className: "address",
+      property: "street_name",
+    });
+    expect(embedManyTexts).toHaveBeenCalledTimes(1);
+
+    vi.mocked(fetchManifestSnapshot).mockResolvedValue({
+      manifest,
+      cid: "QmManifestB",
+      fetchedAt: 2000,
+      stale: false,
+    });
+    const third = parse(await searchLexiconHandler("street", 1));
+    expect(third).toMatchObject({
+      manifestCid: "QmManifestB",
+      indexRebuilt: true,
+    });
+    expect(embedManyTexts).toHaveBeenCalledTimes(2);
+  });
+
+  it("rebuilds when the embedding model changes", async () => {
+    parse(await searchLexiconHandler("street", 1));
+
+    vi.mocked(getActiveEmbeddingModel).mockReturnValue("local/hashed-ngram-v1");
+    const afterSwitch = parse(await searchLexiconHandler("street", 1));
+    const again = parse(await searchLexiconHandler("street", 1));
+
+    expect(afterSwitch.indexRebuilt).toBe(true);
+    expect(again.indexRebuilt).toBe(false);
+    expect(embedManyTexts).toHaveBeenCalledTimes(2);
+  });
+
+  it("builds a separate index for a model of another dimension", async () => {
+    parse(await searchLexiconHandler("street", 1));
+
+    vi.mocked(getActiveEmbeddingModel).mockReturnValue(
+      "openai-compatible/nomic-embed-text",
+    );
+    vi.mocked(getActiveEmbeddingDimensions).mockReturnValue(768);
+    vi.mocked(embedManyTexts).mockImplementation(async (texts) =>
+      texts.map((text) => ({ text, embedding: vectorFor(text, 768) })),
+    );
+    vi.mocked(embedText).mockImplementation(async (text) =>
+      vectorFor(text, 768),
+    );
+    const afterSwitch = parse(await searchLexiconHandler("street", 1));
+
+    expect(afterSwitch.indexRebuilt).toBe(true);
+    expect(afterSwitch.hits[0]).toMatchObject({
+      className: "address",
+      property: "street_name",
+    });
+    // The previous model's index is dropped once the new one is complete
+    expect(
+      (await listVectorIndexes(db, "lexicon")).map((index) => [
+        index.model,
+        index.dimensions,
+      ]),
+    ).toEqual([["openai-compatible/nomic-embed-text", 768]]);
+  });
+});
@@ -0,0 +1,297 @@
+import type { LibSQLDatabase } from "drizzle-orm/libsql";
+import { createTextResult } from "../lib/utils.ts";
+import { logger } from "../logger.ts";
+import {
+  embedManyTexts,
+  embedText,
+  getActiveEmbeddingDimensions,
+  getActiveEmbeddingModel,
+} from "../lib/embeddings.ts";
+import {
+  getLexiconJsonByCid,
+  getLexiconStalenessMarker,
+} from "../lib/lexiconCache.ts";
+import { collectProperties } from "../lib/lexiconDiff.ts";
+import { fetchManifestSnapshot, normalizeKey } from "../lib/manifest.ts";
+import { getDbInstance } from "../db/connectionRef.ts";
+import {
+  ensureVectorIndex,
+  getLexiconEmbeddingsManifestCid,
+  getVectorIndex,
+  markVectorIndexReady,
+  replaceLexiconEmbeddings,
+  searchLexiconEmbeddings,
+} from "../db/repository.ts";
+import type { VectorIndex } from "../db/types.ts";
+import {
+  hasEmbeddingProvider,
+  getEmbeddingProviderDescription,
+} from "../config.ts";
+import {
+  extractClassPairs,
+  getRelationshipProperties,
+  shouldIgnoreClass,
+} from "./dataGroups.ts";
+import type {
+  ClassSchema,
+  DataGroupSchema,
+  Manifest,
+} from "../types/lexicon.ts";
+
+export interface LexiconSearchDocument {
+  className: string;
+  propertyName: string | null;
+  description: string;
+  dataGroups: string[];
+  /** Text that gets embedded. */
+  text: string;
+}
+
+export interface LexiconIndexStatus {
+  manifestCid: string;
+  rebuilt: boolean;
+  /** Index holding the active embedding model's vectors. */
+  vectorIndex: VectorIndex;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/** Maps each normalized class name to the data groups that reference it. */
+async function collectDataGroupMembership(
+  manifest: Manifest,
+): Promise<Map<string, Set<string>>> {
+  const membership = new Map<string, Set<string>>();
+  const groups = Object.entries(manifest).filter(
+    ([, entry]) => entry.type === "dataGroup",
+  );
+
+  for (const [groupKey, entry] of groups) {
+    let groupSchema: DataGroupSchema;
+    try {
+      groupSchema = await getLexiconJsonByCid<DataGroupSchema>(entry.ipfsCid);
+    } catch (error) {
+      logger.warn(
+        {
+          groupKey,
+          cid: entry.ipfsCid,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        "Failed to fetch data group schema for lexicon search",
+      );
+      continue;
+    }
+
+    const relationships = getRelationshipProperties(groupSchema);
+    for (const [relKey, relSchema] of Object.entries(relationships)) {
+      if (relSchema?.deprecated === true) continue;
+      const pair = extractClassPairs(relKey);
+      if (!pair) continue;
+      for (const className of pair) {
+        if (shouldIgnoreClass(className)) continue;
+        const key = normalizeKey(className);
+        const groupsForClass = membership.get(key) ?? new Set<string>();
+        groupsForClass.add(groupKey);
+        membership.set(key, groupsForClass);
+      }
+    }
+  }
+
+  return membership;
+}
+
+/**
+ * Builds one search document per class and per non-deprecated property,
+ * tagged with the data groups that contain the class.
+ */
+export async function buildLexiconSearchDocuments(
+  manifest: Manifest,
+): Promise<LexiconSearchDocument[]> {
+  const membership = await collectDataGroupMembership(manifest);
+  const classKeys = Object.keys(manifest)
+    .filter((key) => manifest[key].type === "class")
+    .sort();
+
+  const documents: LexiconSearchDocument[] = [];
+  for (const className of classKeys) {
+    let schema: ClassSchema;
+    try {
+      schema = await getLexiconJsonByCid<ClassSchema>(
+        manifest[className].ipfsCid,
+      );
+    } catch (error) {
+      logger.warn(
+        {
+          className,
+          cid: manifest[className].ipfsCid,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        "Failed to fetch class schema for lexicon search",
+      );
+      continue;
+    }
+
+    const dataGroups = [
+      ...(membership.get(normalizeKey(className)) ?? []),
+    ].sort();
+    const classDescription = schema.description ?? "";
+    documents.push({
+      className,
+      propertyName: null,
+      description: classDescription,
+      dataGroups,
+      text: [className, classDescription].filter(Boolean).join(": "),
+    });
+
+    for (const [propertyName, node] of collectProperties(schema)) {
+      if (node.deprecated === true) continue;
+      const description = node.description ?? "";
+      documents.push({
+        className,
+        propertyName,
+        description,
+        dataGroups,
+        text: [`${className}.${propertyName}`, description]
+          .filter(Boolean)
+          .join(": "),
+      });
+    }
+  }
+
+  return documents;
+}
+
+async function rebuildLexiconSearchIndex(
+  db: LibSQLDatabase,
+  manifest: Manifest,
+  manifestCid: string,
+): Promise<LexiconIndexStatus> {
+  const documents = await buildLexiconSearchDocuments(manifest);
+  if (documents.length === 0) {
+    throw new Error("No lexicon classes could be loaded for the search index");
+  }
+
+  logger.info(
+    { manifestCid, documents: documents.length },
+    "Rebuilding lexicon search index",
+  );
+  const embeddings = await embedManyTexts(documents.map((doc) => doc.text));
+  const vectorIndex = await ensureVectorIndex(
+    db,
+    "lexicon",
+    getActiveEmbeddingModel(),
+    getActiveEmbeddingDimensions(),
+  );
+  await replaceLexiconEmbeddings(
+    db,
+    vectorIndex,
+    manifestCid,
+    documents.map((doc, index) => ({
+      className: doc.className,
+      propertyName: doc.propertyName,
+      description: doc.description,
+      dataGroups: doc.dataGroups,
+      embedding: embeddings[index].embedding,
+    })),
+  );
+  // The index of the previous model served searches until now
+  await markVectorIndexReady(db, vectorIndex);
+
+  return { manifestCid, rebuilt: true, vectorIndex };
+}
+
+let pendingRebuild: Promise<LexiconIndexStatus> | null = null;
+
+/**
+ * Makes sure the lexicon search index matches the current manifest and
+ * embedding model, rebuilding it when either changed. Concurrent callers share
+ * one rebuild.
+ */
+export async function ensureLexiconSearchIndex(
+  db: LibSQLDatabase,
+): Promise<LexiconIndexStatus> {
+  const { manifest, cid } = await fetchManifestSnapshot();
+  const vectorIndex = await getVectorIndex(
+    db,
+    "lexicon",
+    getActiveEmbeddingModel(),
+    getActiveEmbeddingDimensions(),
+  );
+  if (
+    vectorIndex?.readyAt != null &&
+    (await getLexiconEmbeddingsManifestCid(db, vectorIndex)) === cid
+  ) {
+    return { manifestCid: cid, rebuilt: false, vectorIndex };
+  }
+
+  if (!pendingRebuild) {
+    pendingRebuild = rebuildLexiconSearchIndex(db, manifest, cid).finally(
+      () => {
+        pendingRebuild = null;
+      },
+    );
+  }
+  return pendingRebuild;
+}
+
+export async function searchLexiconHandler(query: string, topK?: number) {
+  try {
+    if (!query || query.trim().length === 0) {
+      return createTextResult({ error: "Query cannot be empty" });
+    }
+
+    const db = getDbInstance();
+    if (!db) {
+      return createTextResult({ error: "Database is not initialized" });
+    }
+
+    if (!hasEmbeddingProvider()) {
+      return createTextResult({
+        error:
+          "No embedding provider configured. Set OPENAI_API_KEY, configure Vercel AI Gateway authentication, configure AWS credentials for Bedrock, or set EMBEDDING_PROVIDER=local for offline embeddings.",
+      });
+    }
+
+    const status = await ensureLexiconSearchIndex(db);
+    const embedding = await embedText(query);
+    const k = clamp(typeof topK === "number" ? topK : 10, 1, 50);
+    const results = await searchLexiconEmbeddings(
+      db,
+      status.vectorIndex,
+      embedding,
+      k,
+    );
+
+    const hits = results.map((r) => ({
+      className: r.className,
+      property: r.propertyName,
+      description: r.description,
+      dataGroups: r.dataGroups,
+      distance: r.distance,
+    }));
+
+    return createTextResult({
+      manifestCid: status.manifestCid,
+      indexRebuilt: status.rebuilt,
+      count: hits.length,
+      hits,
+      ...getLexiconStalenessMarker(),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error(
+      {
+        error: errorMessage,
+        queryLength: typeof query === "string" ? query.length : undefined,
+        topK,
+        embeddingProvider: getEmbeddingProviderDescription(),
+      },
+      "searchLexicon failed",
+    );
+    return createTextResult({
+      error: "Failed to search the lexicon",
+      details: errorMessage,
+    });
+  }
+}
@@ -1,11 +1,35 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { listClassesByDataGroupHandler } from "./dataGroups.ts";
+import {
+  listClassesByDataGroupHandler,
+  getDataGroupGraphHandler,
+} from "./dataGroups.ts";
 import {
   listPropertiesByClassNameHandler,
   getPropertySchemaByClassNameHandler,
 } from "./classes.ts";
-import { transformExamplesHandler } from "./transformExamples.ts";
+import {
+  transformExamplesHandler,
+  type SearchMode,
+} from "./transformExamples.ts";
+import type { FileRole } from "../lib/scriptMetadata.ts";
+import {
+  getScriptIndexStatusHandler,
+  reindexVerifiedScriptsHandler,
+} from "./scriptIndex.ts";
+import {
+  validateAgainstClassSchemaHandler,
+  validateDataGroupBundleHandler,
+} from "./validation.ts";
+import { diffLexiconVersionsHandler } from "./lexiconDiff.ts";
+import { searchLexiconHandler } from "./lexiconSearch.ts";
+import { generateTypesHandler } from "./typegen.ts";
+import { generateClassExampleHandler } from "./classExample.ts";
+import { getDeprecationReportHandler } from "./deprecations.ts";
+import {
+  listRelationshipsHandler,
+  getRelationshipSchemaHandler,
+} from "./relationships.ts";
 import {
   listOraclePropertiesHandler,
   getOraclePropertyHandler,
@@ -151,21 +175,109 @@ export function registerAllTools(
     },
   );
 
+  server.registerTool(
+    "getDataGroupGraph",
+    {
+      title: "Get data group relationship graph",
+      description:
+        "Returns how the classes of an Elephant data group connect: nodes are classes and directed edges are relationships (name, from, to, and cardinality 'many' when the relationship is an array). Available as JSON, Mermaid or Graphviz DOT.",
+      inputSchema: {
+        groupName: z
+          .string()
+          .min(1, "groupName is required")
+          .describe("The data group name, case-insensitive"),
+        format: z
+          .enum(["json", "mermaid", "dot"])
+          .optional()
+          .default("json")
+          .describe("Output format (default json)"),
+      },
+    },
+    async (args: {
+      groupName: string;
+      format?: "json" | "mermaid" | "dot";
+    }) => {
+      return getDataGroupGraphHandler(args.groupName, args.format);
+    },
+  );
+
+  server.registerTool(
+    "listRelationships",
+    {
+      title: "List lexicon relationships",
+      description:
+        "Lists every relationship entry in the Elephant lexicon manifest with the from/to classes its schema declares. Each entry is checked against the class pair implied by its key (split on _has_/_to_); `consistency` is match, mismatch, unparseable or undeclared, with details in `issues`.",
+      inputSchema: {
+        flaggedOnly: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe(
+            "Only return relationships whose consistency is not 'match'",
+          ),
+      },
+    },
+    async (args: { flaggedOnly?: boolean }) => {
+      return listRelationshipsHandler(args.flaggedOnly);
+    },
+  );
+
+  server.registerTool(
+    "getRelationshipSchema",
+    {
+      title: "Get relationship schema",
+      description:
+        "Returns the JSON Schema of an Elephant relationship together with the from/to classes it declares and whether its key name agrees with them",
+      inputSchema: {
+        relationshipName: z
+          .string()
+          .min(1, "relationshipName is required")
+          .describe(
+            "Relationship name, case-insensitive (e.g. property_has_address)",
+          ),
+      },
+    },
+    async (args: { relationshipName: string }) => {
+      return getRelationshipSchemaHandler(args.relationshipName);
+    },
+  );
+
   server.registerTool(
     "listPropertiesByClassName",
     {
       title: "List properties by class name",
       description:
-        "Lists JSON Schema property names for an Elephant class (excludes source_http_request)",
+        "Lists JSON Schema property names for an Elephant class (excludes source_http_request). Pass a path to list the properties of a nested object or of array items, and dereference to also get the fully dereferenced, flattened schema.",
       inputSchema: {
         className: z
           .string()
           .min(1, "className is required")
           .describe("The class name, case-insensitive"),
+        path: z
+          .string()
+          .min(1)
+          .optional()
+          .describe(
+            "Nested object or array property to list, as a dotted path (e.g. 'layouts[]') or JSON Pointer (e.g. '/layouts/0')",
+          ),
+        dereference: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe(
+            "Also return the schema with every $ref inlined and allOf merged",
+          ),
       },
     },
-    async (args: { className: string }) => {
-      return listPropertiesByClassNameHandler(args.className);
+    async (args: {
+      className: string;
+      path?: string;
+      dereference?: boolean;
+    }) => {
+      return listPropertiesByClassNameHandler(args.className, {
+        path: args.path,
+        dereference: args.dereference,
+      });
     },
   );
 
@@ -173,7 +285,8 @@ export function registerAllTools(
     "getPropertySchema",
     {
       title: "Get property schema by class and property",
-      description: "Returns the full JSON Schema object for a class property",
+      description:
+        "Returns the full JSON Schema object for a class property, including nested object and array item properties, with local and CID-based $refs resolved",
       inputSchema: {
         className: z
           .string()
@@ -182,7 +295,9 @@ export function registerAllTools(
         propertyName: z
           .string()
           .min(1, "propertyName is required")
-          .describe("Property name, case-insensitive"),
+          .describe(
+            "Property name, case-insensitive. Nested properties take a dotted path (e.g. 'address.unit_identifier', 'layouts[].space_type') or a JSON Pointer (e.g. '/layouts/0/space_type')",
+          ),
       },
     },
     async (args: { className: string; propertyName: string }) => {
@@ -193,12 +308,198 @@ export function registerAllTools(
     },
   );
 
+  server.registerTool(
+    "validateAgainstClassSchema",
+    {
+      title: "Validate a JSON record against a class schema",
+      description:
+        "Validates a candidate JSON object against the full JSON Schema of an Elephant class (including oneOf/allOf/anyOf). Returns per-JSON-path errors, unknown properties, and use of deprecated properties and deprecated enum values.",
+      inputSchema: {
+        className: z
+          .string()
+          .min(1, "className is required")
+          .describe("Class name, case-insensitive"),
+        data: z
+          .record(z.string(), z.unknown())
+          .describe("The candidate JSON object to validate"),
+      },
+    },
+    async (args: { className: string; data: Record<string, unknown> }) => {
+      return validateAgainstClassSchemaHandler(args.className, args.data);
+    },
+  );
+
+  server.registerTool(
+    "generateClassExample",
+    {
+      title: "Generate example instances of a class",
+      description:
+        "Synthesizes a minimal (required properties only) and a maximal (every non-deprecated property) example object for an Elephant class, respecting enums, formats, patterns and numeric ranges, with a source_http_request placeholder. Both examples are validated against the class schema; each comes with `valid` and any `errors`.",
+      inputSchema: {
+        className: z
+          .string()
+          .min(1, "className is required")
+          .describe("Class name, case-insensitive"),
+      },
+    },
+    async (args: { className: string }) => {
+      return generateClassExampleHandler(args.className);
+    },
+  );
+
+  server.registerTool(
+    "validateDataGroupBundle",
+    {
+      title: "Validate a data-group submission bundle",
+      description:
+        "Validates a whole data-group payload: the root file against the data group schema, each relationship file, and each linked class file against its class schema. Reports unparseable, undefined, or deprecated relationships, missing linked files, and per-file schema errors so output can be fixed before submission.",
+      inputSchema: {
+        groupName: z
+          .string()
+          .min(1, "groupName is required")
+          .describe("The data group name, case-insensitive"),
+        files: z
+          .record(z.string(), z.unknown())
+          .describe(
+            'Bundle files keyed by file name (e.g. "property.json"), matching the {"/": "./file.json"} links inside the bundle',
+          ),
+        rootFile: z
+          .string()
+          .min(1)
+          .optional()
+          .describe(
+            "Name of the root file; detected automatically when exactly one file has a 'relationships' object",
+          ),
+      },
+    },
+    async (args: {
+      groupName: string;
+      files: Record<string, unknown>;
+      rootFile?: string;
+    }) => {
+      return validateDataGroupBundleHandler(
+        args.groupName,
+        args.files,
+        args.rootFile,
+      );
+    },
+  );
+
+  server.registerTool(
+    "generateTypes",
+    {
+      title: "Generate TypeScript types and zod schemas",
+      description:
+        "Generates a TypeScript module with an interface and a zod schema for an Elephant class, or for every class of a data group. Required and nullable fields are marked, deprecated enum values are left out, descriptions become JSDoc, and output is stable across runs so it can be committed. Also available as the `mcp generate-types` CLI command.",
+      inputSchema: {
+        className: z
+          .string()
+          .min(1)
+          .optional()
+          .describe("Class name, case-insensitive"),
+        groupName: z
+          .string()
+          .min(1)
+          .optional()
+          .describe(
+            "Data group name, case-insensitive; generates all of its classes",
+          ),
+      },
+    },
+    async (args: { className?: string; groupName?: string }) => {
+      return generateTypesHandler(args);
+    },
+  );
+
+  server.registerTool(
+    "getDeprecationReport",
+    {
+      title: "Report deprecated lexicon fields",
+      description:
+        "Lists every deprecated relationship, property (at any depth) and enum value for an Elephant class or data group, with replacement hints taken from descriptions and deprecated_enum_values. Each entry includes `usages`: lines in the indexed verified scripts that still emit the deprecated name or value.",
+      inputSchema: {
+        className: z
+          .string()
+          .min(1)
+          .optional()
+          .describe("Class name, case-insensitive"),
+        groupName: z
+          .string()
+          .min(1)
+          .optional()
+          .describe(
+            "Data group name, case-insensitive; covers its relationships and all of its classes",
+          ),
+      },
+    },
+    async (args: { className?: string; groupName?: string }) => {
+      return getDeprecationReportHandler(args);
+    },
+  );
+
+  server.registerTool(
+    "searchLexicon",
+    {
+      title: "Search lexicon classes and properties",
+      description:
+        "Semantic search over Elephant lexicon class and property descriptions. Use it when the exact class or property name is unknown (e.g. 'lot size in square feet'). Returns ranked hits with the class, the property (null for a class-level hit), its description, and the data groups that contain the class.",
+      inputSchema: {
+        query: z
+          .string()
+          .min(1, "query is required")
+          .describe("Natural-language description of the field or concept"),
+        topK: z
+          .number()
+          .int()
+          .positive()
+          .max(50)
+          .optional()
+          .default(10)
+          .describe("Number of results (default 10)"),
+      },
+    },
+    async (args: { query: string; topK?: number }) => {
+      return searchLexiconHandler(args.query, args.topK);
+    },
+  );
+
+  server.registerTool(
+    "diffLexiconVersions",
+    {
+      title: "Diff two lexicon versions",
+      description:
+        "Compares two versions of the Elephant lexicon schema manifest and reports classes, relationships and data groups that were added, removed or re-pinned. For re-pinned classes it lists property additions/removals, type and enum changes, and newly deprecated properties and enum values. The base version is a manifest CID or the snapshot recorded at a point in time (e.g. a week ago); the target defaults to the live manifest.",
+      inputSchema: {
+        fromCid: z
+          .string()
+          .min(1)
+          .optional()
+          .describe("Manifest CID of the base version"),
+        since: z
+          .string()
+          .min(1)
+          .optional()
+          .describe(
+            "ISO 8601 date or date-time; uses the latest locally recorded snapshot at or before it as the base version",
+          ),
+        toCid: z
+          .string()
+          .min(1)
+          .optional()
+          .describe("Manifest CID of the target version (default: live)"),
+      },
+    },
+    async (args: { fromCid?: string; since?: string; toCid?: string }) => {
+      return diffLexiconVersionsHandler(args);
+    },
+  );
+
   server.registerTool(
     "getVerifiedScriptExamples",
     {
       title: "Get verified script examples",
       description:
-        "Get most relevant working examples of the code, that maps data to the Elephant schema",
+        "Get most relevant working examples of the code, that maps data to the Elephant schema. Each match has a score: cosine similarity (vector), BM25 relevance (keyword) or reciprocal-rank fusion score (hybrid), plus its rank in each search it appeared in.",
       inputSchema: {
         query: z
           .string()
@@ -214,10 +515,110 @@ export function registerAllTools(
           .optional()
           .default(5)
           .describe("Number of results (default 5)"),
+        mode: z
+          .enum(["vector", "keyword", "hybrid"])
+          .optional()
+          .default("hybrid")
+          .describe(
+            "vector: semantic similarity; keyword: full-text match on function names and code, best for identifiers, lexicon fields and CSS selectors; hybrid (default): both, fused by reciprocal rank",
+          ),
+        county: z
+          .string()
+          .min(1)
+          .optional()
+          .describe(
+            "Only examples from this county's directory (case-insensitive)",
+          ),
+        className: z
+          .string()
+          .min(1)
+          .optional()
+          .describe("Only functions that reference this lexicon class"),
+        fileRole: z
+          .enum([
+            "extractor",
+            "owner-mapping",
+            "structure-mapping",
+            "utility-mapping",
+            "layout-mapping",
+            "test",
+            "helper",
+          ])
+          .optional()
+          .describe("Only functions from files with this role"),
+        fileGlob: z
+          .string()
+          .min(1)
+          .optional()
+          .describe(
+            "Only files whose path ends with this glob, e.g. 'Lee/*' or '*owner_mapping.js'",
+          ),
+        repo: z
+          .string()
+          .min(1)
+          .optional()
+          .describe(
+            "Only examples from the verified scripts repository with this label",
+          ),
       },
     },
-    async (args: { query: string; topK?: number }) => {
-      return transformExamplesHandler(args.query, args.topK);
+    async (args: {
+      query: string;
+      topK?: number;
+      mode?: SearchMode;
+      county?: string;
+      className?: string;
+      fileRole?: FileRole;
+      fileGlob?: string;
+      repo?: string;
+    }) => {
+      return transformExamplesHandler(args.query, args.topK, args.mode, {
+        county: args.county,
+        className: args.className,
+        fileRole: args.fileRole,
+        fileGlob: args.fileGlob,
+        repo: args.repo,
+      });
+    },
+  );
+
+  server.registerTool(
+    "getScriptIndexStatus",
+    {
+      title: "Get verified script index status",
+      description:
+        "Reports whether verified scripts are being indexed (idle, cloning, embedding or failed), files processed and remaining, functions saved, the last error and, per repository, the last indexed commit. Check this when getVerifiedScriptExamples returns nothing or looks stale.",
+      inputSchema: {},
+    },
+    async () => getScriptIndexStatusHandler(),
+  );
+
+  server.registerTool(
+    "reindexVerifiedScripts",
+    {
+      title: "Re-index verified scripts",
+      description:
+        "Pulls the configured verified script repositories and indexes what changed since the last run, or everything with fullRescan. Joins the run already in progress, if any; a fullRescan requested during an incremental run starts once that run finishes. Sends MCP progress notifications when the request carries a progress token.",
+      inputSchema: {
+        fullRescan: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Re-index every file instead of only changed ones"),
+      },
+    },
+    async (args: { fullRescan?: boolean }, { _meta, sendNotification }) => {
+      const progressToken = _meta?.progressToken;
+      return reindexVerifiedScriptsHandler(
+        args.fullRescan,
+        progressToken === undefined
+          ? undefined
+          : (progress, total, message) =>
+              sendNotification({
+                method: "notifications/progress",
+                params: { progressToken, progress, total, message },
+              }),
+      );
     },
   );
 
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../lib/ipfs.ts", () => ({ getJsonByCid: vi.fn() }));
+vi.mock("../lib/manifest.ts", () => ({
+  fetchManifest: vi.fn(),
+  normalizeKey: (key: string) => key.trim().toLowerCase(),
+}));
+
+import { getJsonByCid } from "../lib/ipfs.ts";
+import { fetchManifest } from "../lib/manifest.ts";
+import {
+  describeRelationship,
+  getRelationshipSchemaHandler,
+  listRelationshipsHandler,
+} from "./relationships.ts";
+import type { Manifest } from "../types/lexicon.ts";
+
+const manifest: Manifest = {
+  property: { ipfsCid: "cid-property", type: "class" },
+  address: { ipfsCid: "cid-address", type: "class" },
+  deed: { ipfsCid: "cid-deed", type: "class" },
+  property_has_address: { ipfsCid: "cid-rel-address", type: "relationship" },
+  sales_to_deed: { ipfsCid: "cid-rel-deed", type: "relationship" },
+  property_has_layout: { ipfsCid: "cid-rel-layout", type: "relationship" },
+};
+
+const link = (cid: string) => ({
+  type: "object",
+  properties: { "/": { type: "string", cid } },
+});
+
+const schemas: Record<string, unknown> = {
+  "cid-rel-address": {
+    type: "object",
+    properties: { from: link("cid-property"), to: link("cid-address") },
+  },
+  // Key says sales -> deed, schema links property -> deed.
+  "cid-rel-deed": {
+    type: "object",
+    properties: {
+      from: { $ref: "ipfs://cid-property" },
+      to: { oneOf: [link("cid-deed"), link("cid-unknown")] },
+    },
+  },
+  "cid-rel-layout": {
+    type: "object",
+    properties: { from: { type: "object" }, to: { type: "object" } },
+  },
+};
+
+function parse(result: Awaited<ReturnType<typeof listRelationshipsHandler>>) {
+  const [content] = result.content;
+  return JSON.parse(content.type === "text" ? content.text : "null");
+}
+
+describe("relationships", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fetchManifest).mockResolvedValue(manifest);
+    vi.mocked(getJsonByCid).mockImplementation(
+      async (cid: string) => schemas[cid] as never,
+    );
+  });
+
+  it("reads declared classes from cid keywords and CID $refs", () => {
+    const info = describeRelationship(
+      manifest,
+      "sales_to_deed",
+      "cid-rel-deed",
+      schemas["cid-rel-deed"] as never,
+    );
+
+    expect(info).toMatchObject({
+      from: { classes: ["property"], unresolvedCids: [] },
+      to: { classes: ["deed"], unresolvedCids: ["cid-unknown"] },
+      inferred: { from: "sales", to: "deed" },
+      consistency: "mismatch",
+    });
+    expect(info.issues).toContain(
+      "Key implies 'from' is 'sales', but the schema declares property",
+    );
+  });
+
+  it("lists relationship entries and can return only flagged ones", async () => {
+    const all = parse(await listRelationshipsHandler());
+    expect(all.count).toBe(3);
+    expect(all.mismatches).toBe(1);
+    expect(
+      all.relationships.map((r: { key: string; consistency: string }) => [
+        r.key,
+        r.consistency,
+      ]),
+    ).toEqual([
+      ["property_has_address", "match"],
+      ["property_has_layout", "undeclared"],
+      ["sales_to_deed", "mismatch"],
+    ]);
+
+    const flagged = parse(await listRelationshipsHandler(true));
+    expect(flagged.relationships.map((r: { key: string }) => r.key)).toEqual([
+      "property_has_layout",
+      "sales_to_deed",
+    ]);
+  });
+
+  it("returns a relationship schema with its declared classes", async () => {
+    const data = parse(
+      await getRelationshipSchemaHandler("PROPERTY_HAS_ADDRESS"),
+    );
+
+    expect(data).toMatchObject({
+      key: "property_has_address",
+      cid: "cid-rel-address",
+      from: { classes: ["property"] },
+      to: { classes: ["address"] },
+      consistency: "match",
+      issues: [],
+      schema: schemas["cid-rel-address"],
+    });
+  });
+
+  it("reports unknown relationships", async () => {
+    const data = parse(await getRelationshipSchemaHandler("nope"));
+    expect(data.error).toContain("Unknown relationship 'nope'");
+  });
+});
@@ -0,0 +1,265 @@
+import { createTextResult } from "../lib/utils.ts";
+import { logger } from "../logger.ts";
+import {
+  getLexiconJsonByCid,
+  getLexiconStalenessMarker,
+} from "../lib/lexiconCache.ts";
+import { fetchManifest, normalizeKey } from "../lib/manifest.ts";
+import { parseCidRef } from "../lib/schemaRefs.ts";
+import { isSchemaNode } from "../lib/schemaValidator.ts";
+import { extractClassPairs } from "./dataGroups.ts";
+import type { JsonSchemaNode, Manifest } from "../types/lexicon.ts";
+
+/**
+ * How the class pair guessed from a relationship key compares with the
+ * classes its schema declares.
+ * - `match`: every side agrees.
+ * - `mismatch`: a guessed class is not among the declared ones.
+ * - `unparseable`: the key has neither `_has_` nor `_to_`.
+ * - `undeclared`: the schema does not say which classes it links.
+ */
+export type RelationshipKeyConsistency =
+  | "match"
+  | "mismatch"
+  | "unparseable"
+  | "undeclared";
+
+export interface RelationshipSide {
+  /** Manifest class keys the schema allows on this side. */
+  classes: string[];
+  /** CIDs referenced on this side that are not class entries in the manifest. */
+  unresolvedCids: string[];
+}
+
+export interface RelationshipInfo {
+  key: string;
+  cid: string;
+  from: RelationshipSide;
+  to: RelationshipSide;
+  /** Pair guessed from the key name by `extractClassPairs`. */
+  inferred: { from: string; to: string } | null;
+  consistency: RelationshipKeyConsistency;
+  issues: string[];
+}
+
+const MAX_DEPTH = 6;
+
+function classKeysByCid(manifest: Manifest): Map<string, string> {
+  const byCid = new Map<string, string>();
+  for (const [key, entry] of Object.entries(manifest)) {
+    if (entry.type === "class") byCid.set(entry.ipfsCid, key);
+  }
+  return byCid;
+}
+
+/**
+ * Collects the class schemas a `from`/`to` node points at, via the lexicon's
+ * `cid` keyword or CID-based `$ref`s, through link objects, arrays and
+ * combinators.
+ */
+function collectSide(
+  node: JsonSchemaNode | undefined,
+  byCid: Map<string, string>,
+): RelationshipSide {
+  const classes = new Set<string>();
+  const unresolved = new Set<string>();
+
+  const visit = (current: unknown, depth: number) => {
+    if (!isSchemaNode(current) || depth > MAX_DEPTH) return;
+    const cids: string[] = [];
+    if (typeof current.cid === "string") cids.push(current.cid);
+    if (typeof current.$ref === "string") {
+      const parsed = parseCidRef(current.$ref);
+      if (parsed) cids.push(parsed.cid);
+    }
+    for (const cid of cids) {
+      const key = byCid.get(cid);
+      if (key) classes.add(key);
+      else unresolved.add(cid);
+    }
+
+    for (const child of Object.values(current.properties ?? {})) {
+      visit(child, depth + 1);
+    }
+    const items = current.items;
+    for (const child of Array.isArray(items) ? items : [items]) {
+      visit(child, depth + 1);
+    }
+    for (const comb of ["oneOf", "anyOf", "allOf"] as const) {
+      for (const child of current[comb] ?? []) visit(child, depth + 1);
+    }
+  };
+
+  visit(node, 0);
+  return {
+    classes: [...classes].sort(),
+    unresolvedCids: [...unresolved].sort(),
+  };
+}
+
+/**
+ * Reads the from/to class constraints a relationship schema declares and
+ * checks them against the pair guessed from the relationship key.
+ */
+export function describeRelationship(
+  manifest: Manifest,
+  key: string,
+  cid: string,
+  schema: JsonSchemaNode,
+): RelationshipInfo {
+  const byCid = classKeysByCid(manifest);
+  const from = collectSide(schema.properties?.from, byCid);
+  const to = collectSide(schema.properties?.to, byCid);
+  const pair = extractClassPairs(key);
+  const inferred = pair ? { from: pair[0], to: pair[1] } : null;
+
+  const issues: string[] = [];
+  for (const [side, declared] of [
+    ["from", from],
+    ["to", to],
+  ] as const) {
+    for (const unresolved of declared.unresolvedCids) {
+      issues.push(
+        `'${side}' references ${unresolved}, which is not a class in the manifest`,
+      );
+    }
+  }
+
+  let consistency: RelationshipKeyConsistency;
+  if (from.classes.length === 0 && to.classes.length === 0) {
+    consistency = inferred ? "undeclared" : "unparseable";
+    issues.push("Schema does not declare the classes it links");
+  } else if (!inferred) {
+    consistency = "unparseable";
+    issues.push(
+      `Key '${key}' does not name its classes with _has_ or _to_; use the declared from/to`,
+    );
+  } else {
+    consistency = "match";
+    for (const [side, declared] of [
+      ["from", from],
+      ["to", to],
+    ] as const) {
+      const guess = inferred[side];
+      if (
+        declared.classes.length > 0 &&
+        !declared.classes.some((c) => normalizeKey(c) === normalizeKey(guess))
+      ) {
+        consistency = "mismatch";
+        issues.push(
+          `Key implies '${side}' is '${guess}', but the schema declares ${declared.classes.join(" | ")}`,
+        );
+      }
+    }
+  }
+
+  return { key, cid, from, to, inferred, consistency, issues };
+}
+
+function resolveRelationship(
+  manifest: Manifest,
+  name: string,
+): { key: string; cid: string; available: string[] } {
+  const keys = Object.keys(manifest).filter(
+    (k) => manifest[k].type === "relationship",
+  );
+  const target = keys.find((k) => normalizeKey(k) === normalizeKey(name));
+  if (!target) return { key: "", cid: "", available: keys.sort() };
+  return { key: target, cid: manifest[target].ipfsCid, available: keys };
+}
+
+export async function listRelationshipsHandler(flaggedOnly = false) {
+  try {
+    const manifest = await fetchManifest();
+    const keys = Object.keys(manifest)
+      .filter((k) => manifest[k].type === "relationship")
+      .sort();
+
+    const relationships: RelationshipInfo[] = [];
+    const failed: Array<{ key: string; error: string }> = [];
+    for (const key of keys) {
+      const cid = manifest[key].ipfsCid;
+      try {
+        const schema = await getLexiconJsonByCid<JsonSchemaNode>(cid);
+        relationships.push(describeRelationship(manifest, key, cid, schema));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn(
+          { key, cid, error: message },
+          "Failed to fetch relationship schema",
+        );
+        failed.push({ key, error: message });
+      }
+    }
+
+    const mismatches = relationships.filter(
+      (r) => r.consistency === "mismatch",
+    ).length;
+    const listed = flaggedOnly
+      ? relationships.filter((r) => r.consistency !== "match")
+      : relationships;
+
+    return createTextResult({
+      count: listed.length,
+      mismatches,
+      relationships: listed,
+      ...(failed.length > 0 ? { failed } : {}),
+      ...getLexiconStalenessMarker(),
+    });
+  } catch (error) {
+    logger.error(
+      {
+        error: error instanceof Error ? error.message : String(error),
+      },
+      "listRelationships failed",
+    );
+    return createTextResult({
+      error: "Internal error while listing relationships",
+    });
+  }
+}
+
+export async function getRelationshipSchemaHandler(name: string) {
+  try {
+    const manifest = await fetchManifest();
+    const resolved = resolveRelationship(manifest, name);
+
+    if (!resolved.key) {
+      const message = `Unknown relationship '${name}'. Available: ${resolved.available.join(", ")}`;
+      logger.warn(message);
+      return createTextResult({ error: message });
+    }
+
+    let schema: JsonSchemaNode;
+    try {
+      schema = await getLexiconJsonByCid<JsonSchemaNode>(resolved.cid);
+    } catch (error) {
+      logger.error(
+        {
+          name,
+          cid: resolved.cid,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        "Failed to fetch relationship schema",
+      );
+      return createTextResult({ error: "Failed to fetch relationship schema" });
+    }
+
+    return createTextResult({
+      ...describeRelationship(manifest, resolved.key, resolved.cid, schema),
+      schema,
+      ...getLexiconStalenessMarker(),
+    });
+  } catch (error) {
+    logger.error(
+      {
+        name,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      "getRelationshipSchema failed",
+    );
+    return createTextResult({
+      error: "Internal error while fetching relationship schema",
+    });
+  }
+}
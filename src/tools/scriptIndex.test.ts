@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import * as connectionRef from "../db/connectionRef.ts";
+import * as repository from "../db/repository.ts";
+import * as config from "../config.ts";
+import * as paths from "../lib/paths.ts";
+import * as verifiedIndexer from "../lib/verifiedIndexer.ts";
+import type { IndexerOptions } from "../types/entities.ts";
+
+vi.mock("../db/connectionRef.ts");
+vi.mock("../db/repository.ts");
+vi.mock("../config.ts");
+vi.mock("../lib/paths.ts");
+vi.mock("../lib/verifiedIndexer.ts", () => ({
+  indexVerifiedScriptRepos: vi.fn(),
+  repositoryCheckoutPath: vi.fn(
+    (dataDir: string, repo: { label: string }) => `${dataDir}/${repo.label}`,
+  ),
+}));
+vi.mock("../logger.ts", () => ({
+  logger: {
+    error: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+import {
+  getScriptIndexStatusHandler,
+  reindexVerifiedScriptsHandler,
+} from "./scriptIndex.ts";
+import { resetScriptIndexStatus } from "../lib/scriptIndexStatus.ts";
+
+function parse(
+  result: Awaited<ReturnType<typeof getScriptIndexStatusHandler>>,
+) {
+  const [content] = result.content;
+  return JSON.parse(content.type === "text" ? content.text : "null");
+}
+
+describe("script index tools", () => {
+  const mockDb = {} as ReturnType<typeof connectionRef.getDbInstance>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetScriptIndexStatus();
+    vi.mocked(connectionRef.getDbInstance).mockReturnValue(mockDb);
+    vi.mocked(paths.getDefaultDataDir).mockReturnValue("/data");
+    vi.mocked(config.getConfig).mockReturnValue({
+      VERIFIED_SCRIPTS_REPOS: [
+        { label: "public", url: "https://x/y.git", branch: "main" },
+        { label: "private", path: "/srv/scripts", branch: "main" },
+      ],
+    } as unknown as ReturnType<typeof config.getConfig>);
+  });
+
+  it("reports state and the last indexed commit per repository", async () => {
+    vi.mocked(repository.listIndexStates).mockResolvedValue([
+      {
+        repoPath: "/data/public",
+        lastIndexedCommit: "abc123",
+        updatedAt: 0,
+        embeddingModel: "text-embedding-3-small",
+      },
+    ]);
+
+    const data = parse(await getScriptIndexStatusHandler());
+
+    expect(data).toMatchObject({
+      state: "idle",
+      filesProcessed: 0,
+      filesRemaining: 0,
+      functionsSaved: 0,
+      lastError: null,
+      repositories: [
+        {
+          label: "public",
+          lastIndexedCommit: "abc123",
+          indexedAt: "1970-01-01T00:00:00.000Z",
+        },
+        { label: "private", lastIndexedCommit: null, indexedAt: null },
+      ],
+    });
+  });
+
+  it("reindexes and streams increasing progress", async () => {
+    vi.mocked(verifiedIndexer.indexVerifiedScriptRepos).mockImplementation(
+      async (_db, _repos, opts) => {
+        const onProgress = (opts as IndexerOptions).onProgress!;
+        for (const filesProcessed of [0, 0, 1, 2]) {
+          onProgress({
+            repo: "public",
+            phase: filesProcessed === 0 ? "cloning" : "embedding",
+            filesProcessed,
+            filesTotal: 2,
+            functionsSaved: filesProcessed,
+          });
+        }
+        return {
+          purgedFunctions: 0,
+          repos: [
+            {
+              repo: "public",
+              processedFiles: ["/data/public/a.js", "/data/public/b.js"],
+              savedFunctions: 2,
+              embeddedFunctions: 1,
+              reusedFunctions: 1,
+              movedFunctions: 0,
+              removedFunctions: 0,
+              backfilledFunctions: 0,
+              parseFailures: [],
+            },
+          ],
+          failures: [],
+        };
+      },
+    );
+    const reportProgress = vi.fn(async () => undefined);
+
+    const data = parse(
+      await reindexVerifiedScriptsHandler(true, reportProgress),
+    );
+
+    expect(verifiedIndexer.indexVerifiedScriptRepos).toHaveBeenCalledWith(
+      mockDb,
+      expect.any(Array),
+      expect.objectContaining({ dataDir: "/data", fullRescan: true }),
+    );
+    expect(reportProgress.mock.calls).toEqual([
+      [0, 0, "cloning"],
+      [1, 2, "public: embedding"],
+      [2, 2, "public: embedding"],
+    ]);
+    expect(data).toMatchObject({
+      joinedRunningIndex: false,
+      repos: [{ repo: "public", processedFiles: 2, savedFunctions: 2 }],
+    });
+  });
+
+  it("returns an error when the database is not initialized", async () => {
+    vi.mocked(connectionRef.getDbInstance).mockReturnValue(undefined);
+
+    const data = parse(await reindexVerifiedScriptsHandler());
+
+    expect(data.error).toBe("Database is not initialized");
+  });
+});
@@ -0,0 +1,124 @@
+import { createTextResult } from "../lib/utils.ts";
+import { logger } from "../logger.ts";
+import { getConfig } from "../config.ts";
+import { getDbInstance } from "../db/connectionRef.ts";
+import { listIndexStates } from "../db/repository.ts";
+import { getDefaultDataDir } from "../lib/paths.ts";
+import { repositoryCheckoutPath } from "../lib/verifiedIndexer.ts";
+import {
+  getScriptIndexStatus,
+  isScriptIndexRunning,
+  onScriptIndexStatus,
+  runScriptIndexing,
+} from "../lib/scriptIndexStatus.ts";
+
+/** Sends one MCP progress notification. */
+export type ProgressReporter = (
+  progress: number,
+  total: number,
+  message: string,
+) => Promise<void>;
+
+/**
+ * Reports what the background indexer is doing and, per configured
+ * repository, the commit it was last indexed at.
+ */
+export async function getScriptIndexStatusHandler() {
+  try {
+    const db = getDbInstance();
+    const states = db ? await listIndexStates(db) : [];
+    const dataDir = getDefaultDataDir();
+    const repositories = getConfig().VERIFIED_SCRIPTS_REPOS.map((repo) => {
+      const checkoutPath = repositoryCheckoutPath(dataDir, repo);
+      const state = states.find((s) => s.repoPath === checkoutPath);
+      return {
+        label: repo.label,
+        lastIndexedCommit: state?.lastIndexedCommit ?? null,
+        indexedAt: state
+          ? new Date(state.updatedAt * 1000).toISOString()
+          : null,
+      };
+    });
+
+    return createTextResult({ ...getScriptIndexStatus(), repositories });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error({ error: errorMessage }, "getScriptIndexStatus failed");
+    return createTextResult({
+      error: "Failed to read script index status",
+      details: errorMessage,
+    });
+  }
+}
+
+/**
+ * Re-indexes the configured repositories, or joins the run already in
+ * progress. While it runs, files processed out of the files found so far are
+ * reported through `reportProgress`.
+ */
+export async function reindexVerifiedScriptsHandler(
+  fullRescan = false,
+  reportProgress?: ProgressReporter,
+) {
+  const db = getDbInstance();
+  if (!db) {
+    return createTextResult({ error: "Database is not initialized" });
+  }
+
+  const joined = isScriptIndexRunning();
+  // Progress must increase with every notification
+  let lastProgress = -1;
+  const unsubscribe = reportProgress
+    ? onScriptIndexStatus((status) => {
+        if (status.filesProcessed <= lastProgress) return;
+        lastProgress = status.filesProcessed;
+        const message = status.repo
+          ? `${status.repo}: ${status.state}`
+          : status.state;
+        reportProgress(
+          status.filesProcessed,
+          status.filesProcessed + status.filesRemaining,
+          message,
+        ).catch((error: unknown) => {
+          logger.debug(
+            { error: error instanceof Error ? error.message : String(error) },
+            "Failed to send reindex progress",
+          );
+        });
+      })
+    : undefined;
+
+  try {
+    const summary = await runScriptIndexing(
+      db,
+      getConfig().VERIFIED_SCRIPTS_REPOS,
+      { dataDir: getDefaultDataDir(), fullRescan },
+    );
+
+    return createTextResult({
+      joinedRunningIndex: joined,
+      purgedFunctions: summary.purgedFunctions,
+      repos: summary.repos.map((repo) => ({
+        repo: repo.repo,
+        processedFiles: repo.processedFiles.length,
+        savedFunctions: repo.savedFunctions,
+        embeddedFunctions: repo.embeddedFunctions,
+        reusedFunctions: repo.reusedFunctions,
+        movedFunctions: repo.movedFunctions,
+        removedFunctions: repo.removedFunctions,
+        backfilledFunctions: repo.backfilledFunctions,
+        parseFailures: repo.parseFailures,
+      })),
+      failures: summary.failures,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error({ error: errorMessage, fullRescan }, "reindex failed");
+    return createTextResult({
+      error: "Failed to reindex verified scripts",
+      details: errorMessage,
+    });
+  } finally {
+    unsubscribe?.();
+  }
+}
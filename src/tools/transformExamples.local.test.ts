@@ -0,0 +1,105 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+// Selected before the config is first parsed, so no credentials are consulted
+vi.hoisted(() => {
+  process.env.EMBEDDING_PROVIDER = "local";
+});
+
+vi.mock("../lib/manifest.ts", () => ({
+  fetchManifest: vi.fn(async () => ({
+    person: { ipfsCid: "cid-person", type: "class" },
+  })),
+}));
+
+import { initializeDatabase } from "../db/migrate.ts";
+import { setDbInstance } from "../db/connectionRef.ts";
+import { indexVerifiedScripts } from "../lib/verifiedIndexer.ts";
+import { transformExamplesHandler } from "./transformExamples.ts";
+
+const OWNER_SCRIPT = `
+function extractOwnerName(document) {
+  const owner = document.querySelector(".owner-name");
+  return owner ? owner.textContent.trim() : null;
+}
+
+module.exports = { extractOwnerName };
+`;
+
+const STRUCTURE_SCRIPT = `
+function parseBuildingSquareFootage(row) {
+  const area = Number(row.living_area_sqft);
+  return Number.isFinite(area) ? area : null;
+}
+
+module.exports = { parseBuildingSquareFootage };
+`;
+
+function parse(result: Awaited<ReturnType<typeof transformExamplesHandler>>) {
+  const [content] = result.content;
+  return JSON.parse(content.type === "text" ? content.text : "null");
+}
+
+describe("getVerifiedScriptExamples on the local embedding provider", () => {
+  let root: string;
+  let client: Awaited<ReturnType<typeof initializeDatabase>>["client"];
+
+  beforeAll(async () => {
+    root = await mkdtemp(path.join(tmpdir(), "local-embedding-e2e-"));
+    const repoPath = path.join(root, "scripts");
+    await mkdir(path.join(repoPath, "Lee", "scripts"), { recursive: true });
+    await writeFile(
+      path.join(repoPath, "Lee", "scripts", "owner_mapping.js"),
+      OWNER_SCRIPT,
+    );
+    await writeFile(
+      path.join(repoPath, "Lee", "scripts", "structure_mapping.js"),
+      STRUCTURE_SCRIPT,
+    );
+    const git = (...args: string[]) =>
+      execFileSync("git", args, { cwd: repoPath, stdio: "ignore" });
+    git("init", "-q");
+    git("add", ".");
+    git(
+      "-c",
+      "user.name=test",
+      "-c",
+      "user.email=test@example.com",
+      "commit",
+      "-q",
+      "-m",
+      "scripts",
+    );
+
+    const database = await initializeDatabase(path.join(root, "db.sqlite"));
+    client = database.client;
+    setDbInstance(database.db);
+
+    const summary = await indexVerifiedScripts(database.db, {
+      repo: { label: "local", path: repoPath, branch: "main" },
+    });
+    expect(summary.savedFunctions).toBe(2);
+  });
+
+  afterAll(async () => {
+    client?.close();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("indexes and retrieves scripts without network credentials", async () => {
+    const data = parse(
+      await transformExamplesHandler("extract the owner name", 2, "vector"),
+    );
+
+    expect(data.error).toBeUndefined();
+    expect(data.matches[0]).toMatchObject({
+      name: "extractOwnerName",
+      repo: "local",
+      path: "Lee/scripts/owner_mapping.js",
+    });
+    expect(data.matches[0].distance).toBeLessThan(data.matches[1].distance);
+  });
+});
@@ -50,12 +50,12 @@ describe("transformExamplesHandler", () => {
       expect(result.content[0]?.text).toContain("Database is not initialized");
     });
 
-    it("should return error when no embedding provider is configured", async () => {
+    it("should return error for vector search without an embedding provider", async () => {
       const mockDb = {} as ReturnType<typeof connectionRef.getDbInstance>;
       vi.mocked(connectionRef.getDbInstance).mockReturnValue(mockDb);
       vi.mocked(config.hasEmbeddingProvider).mockReturnValue(false);
 
-      const result = await transformExamplesHandler("test query");
+      const result = await transformExamplesHandler("test query", 5, "vector");
 
       expect(result.content[0]?.text).toContain(
         "No embedding provider configured",
@@ -68,10 +68,35 @@ describe("transformExamplesHandler", () => {
   describe("successful search", () => {
     const mockDb = {} as ReturnType<typeof connectionRef.getDbInstance>;
     const mockEmbedding = Array.from({ length: 1024 }, (_, i) => i / 1024);
+    const vectorIndex = {
+      id: 1,
+      kind: "functions" as const,
+      model: "text-embedding-3-small",
+      dimensions: 1024,
+      tableName: "functionEmbeddings",
+      createdAt: 0,
+      readyAt: 0,
+    };
 
     beforeEach(() => {
       vi.mocked(connectionRef.getDbInstance).mockReturnValue(mockDb);
+      vi.mocked(embeddings.getActiveEmbeddingModel).mockReturnValue(
+        "text-embedding-3-small",
+      );
+      vi.mocked(embeddings.getActiveEmbeddingDimensions).mockReturnValue(1024);
+      vi.mocked(repository.getVectorIndex).mockResolvedValue(vectorIndex);
       vi.mocked(embeddings.embedText).mockResolvedValue(mockEmbedding);
+      vi.mocked(repository.searchKeyword).mockResolvedValue([]);
+      vi.mocked(repository.listIndexStates).mockResolvedValue([]);
+      vi.mocked(config.getConfig).mockReturnValue({
+        VERIFIED_SCRIPTS_REPOS: [
+          {
+            label: "elephant-xyz",
+            url: "https://github.com/elephant-xyz/Counties-trasform-scripts.git",
+            branch: "main",
+          },
+        ],
+      } as ReturnType<typeof config.getConfig>);
     });
 
     it("should return search results with default topK", async () => {
@@ -82,6 +107,17 @@ describe("transformExamplesHandler", () => {
             name: "testFunction1",
             code: "function test1() {}",
             filePath: "/src/test1.ts",
+            kind: "function" as const,
+            className: null,
+            exported: false,
+            startLine: 1,
+            endLine: 1,
+            county: null,
+            fileRole: null,
+            lexiconClasses: [],
+            lastCommit: null,
+            repo: null,
+            contentHash: null,
             embeddings: [mockEmbedding],
           },
           distance: 0.1,
@@ -92,6 +128,17 @@ describe("transformExamplesHandler", () => {
             name: "testFunction2",
             code: "function test2() {}",
             filePath: "/src/test2.ts",
+            kind: "function" as const,
+            className: null,
+            exported: false,
+            startLine: 1,
+            endLine: 1,
+            county: null,
+            fileRole: null,
+            lexiconClasses: [],
+            lastCommit: null,
+            repo: null,
+            contentHash: null,
             embeddings: [mockEmbedding],
           },
           distance: 0.2,
@@ -105,8 +152,10 @@ describe("transformExamplesHandler", () => {
       expect(embeddings.embedText).toHaveBeenCalledWith("test query");
       expect(repository.searchSimilar).toHaveBeenCalledWith(
         mockDb,
+        vectorIndex,
         mockEmbedding,
-        5,
+        15,
+        {},
       );
       expect(result.content[0]?.text).toContain('"count": 2');
       expect(result.content[0]?.text).toContain("testFunction1");
@@ -122,8 +171,10 @@ describe("transformExamplesHandler", () => {
 
       expect(repository.searchSimilar).toHaveBeenCalledWith(
         mockDb,
+        vectorIndex,
         mockEmbedding,
-        10,
+        30,
+        {},
       );
     });
 
@@ -134,8 +185,10 @@ describe("transformExamplesHandler", () => {
 
       expect(repository.searchSimilar).toHaveBeenCalledWith(
         mockDb,
+        vectorIndex,
         mockEmbedding,
-        1,
+        3,
+        {},
       );
     });
 
@@ -146,8 +199,10 @@ describe("transformExamplesHandler", () => {
 
       expect(repository.searchSimilar).toHaveBeenCalledWith(
         mockDb,
+        vectorIndex,
         mockEmbedding,
-        50,
+        150,
+        {},
       );
     });
 
@@ -158,9 +213,274 @@ describe("transformExamplesHandler", () => {
 
       expect(repository.searchSimilar).toHaveBeenCalledWith(
         mockDb,
+        vectorIndex,
         mockEmbedding,
-        1,
+        3,
+        {},
+      );
+    });
+
+    it("should fuse vector and keyword results by reciprocal rank", async () => {
+      const fn = (id: number, name: string) => ({
+        id,
+        name,
+        code: `function ${name}() {}`,
+        filePath: `/src/${name}.js`,
+        kind: "function" as const,
+        className: null,
+        exported: false,
+        startLine: 1,
+        endLine: 1,
+        county: null,
+        fileRole: null,
+        lexiconClasses: [],
+        lastCommit: null,
+        repo: null,
+        contentHash: null,
+        embeddings: [mockEmbedding],
+      });
+      vi.mocked(repository.searchSimilar).mockResolvedValue([
+        { functionWithChunks: fn(1, "semantic"), distance: 0.1 },
+        { functionWithChunks: fn(2, "both"), distance: 0.2 },
+        { functionWithChunks: fn(2, "both"), distance: 0.3 },
+      ]);
+      vi.mocked(repository.searchKeyword).mockResolvedValue([
+        { functionWithChunks: fn(2, "both"), score: 7.5 },
+        { functionWithChunks: fn(3, "keyword"), score: 2 },
+      ]);
+
+      const result = await transformExamplesHandler("parcel_identifier");
+      const [content] = result.content;
+      const data = JSON.parse(content.type === "text" ? content.text : "null");
+
+      expect(repository.searchKeyword).toHaveBeenCalledWith(
+        mockDb,
+        "parcel_identifier",
+        5,
+        {},
       );
+      expect(data.matches.map((m: { name: string }) => m.name)).toEqual([
+        "both",
+        "semantic",
+        "keyword",
+      ]);
+      expect(data.matches[0]).toMatchObject({
+        score: 1 / 62 + 1 / 61,
+        vector: { rank: 2, distance: 0.2 },
+        keyword: { rank: 1, bm25: 7.5 },
+      });
+      expect(data.matches[2].vector).toBeUndefined();
+    });
+
+    it("should cite the repository path, lines and indexed commit", async () => {
+      vi.mocked(repository.listIndexStates).mockResolvedValue([
+        {
+          repoPath: "/data/verified-scripts",
+          lastIndexedCommit: "abc123",
+          updatedAt: 1,
+          embeddingModel: "text-embedding-3-small",
+        },
+      ]);
+      vi.mocked(repository.searchSimilar).mockResolvedValue([
+        {
+          functionWithChunks: {
+            id: 1,
+            name: "parseOwners",
+            code: "function parseOwners() {}",
+            filePath: "/data/verified-scripts/Lee/scripts/ownerMapping.js",
+            kind: "function" as const,
+            className: null,
+            exported: false,
+            startLine: 12,
+            endLine: 30,
+            county: "Lee",
+            fileRole: "owner-mapping",
+            lexiconClasses: [],
+            lastCommit: "def456",
+            repo: "elephant-xyz",
+            contentHash: null,
+            embeddings: [mockEmbedding],
+          },
+          distance: 0.25,
+        },
+      ]);
+
+      const result = await transformExamplesHandler("owners", 5, "vector");
+      const [content] = result.content;
+      const data = JSON.parse(content.type === "text" ? content.text : "null");
+
+      expect(data.matches[0]).toMatchObject({
+        repo: "elephant-xyz",
+        path: "Lee/scripts/ownerMapping.js",
+        startLine: 12,
+        endLine: 30,
+        commit: "abc123",
+        permalink:
+          "https://github.com/elephant-xyz/Counties-trasform-scripts/blob/abc123/Lee/scripts/ownerMapping.js#L12-L30",
+        distance: 0.25,
+      });
+    });
+
+    it("should search by keyword only without an embedding provider", async () => {
+      vi.mocked(config.hasEmbeddingProvider).mockReturnValue(false);
+      vi.mocked(repository.searchKeyword).mockResolvedValue([]);
+
+      const result = await transformExamplesHandler(
+        "#ctl00_owner",
+        5,
+        "keyword",
+      );
+
+      const [content] = result.content;
+      expect(content.type === "text" ? content.text : "").toContain(
+        '"count": 0',
+      );
+      expect(embeddings.embedText).not.toHaveBeenCalled();
+      expect(repository.searchSimilar).not.toHaveBeenCalled();
+    });
+
+    it("should fall back to keyword results in hybrid mode without an embedding provider", async () => {
+      vi.mocked(config.hasEmbeddingProvider).mockReturnValue(false);
+      vi.mocked(repository.searchKeyword).mockResolvedValue([]);
+
+      const [content] = (await transformExamplesHandler("test query")).content;
+      const data = JSON.parse(content.type === "text" ? content.text : "null");
+
+      expect(data.error).toBeUndefined();
+      expect(embeddings.embedText).not.toHaveBeenCalled();
+      expect(repository.searchSimilar).not.toHaveBeenCalled();
+      expect(repository.searchKeyword).toHaveBeenCalledWith(
+        mockDb,
+        "test query",
+        5,
+        {},
+      );
+      expect(data.note).toContain("No embedding provider configured");
+    });
+
+    it("should return topK distinct functions when several chunks match one function", async () => {
+      const fn = (id: number) => ({
+        id,
+        name: `fn${id}`,
+        code: `function fn${id}() {}`,
+        filePath: `/src/fn${id}.js`,
+        kind: "function" as const,
+        className: null,
+        exported: false,
+        startLine: 1,
+        endLine: 1,
+        county: null,
+        fileRole: null,
+        lexiconClasses: [],
+        lastCommit: null,
+        repo: null,
+        contentHash: null,
+        embeddings: [mockEmbedding],
+      });
+      vi.mocked(repository.searchSimilar).mockResolvedValue([
+        { functionWithChunks: fn(1), distance: 0.1 },
+        { functionWithChunks: fn(1), distance: 0.11 },
+        { functionWithChunks: fn(1), distance: 0.12 },
+        { functionWithChunks: fn(2), distance: 0.2 },
+        { functionWithChunks: fn(3), distance: 0.3 },
+      ]);
+
+      const [content] = (
+        await transformExamplesHandler("test query", 3, "vector")
+      ).content;
+      const data = JSON.parse(content.type === "text" ? content.text : "null");
+
+      expect(repository.searchSimilar).toHaveBeenCalledWith(
+        mockDb,
+        vectorIndex,
+        mockEmbedding,
+        9,
+        {},
+      );
+      expect(data.matches.map((m: { name: string }) => m.name)).toEqual([
+        "fn1",
+        "fn2",
+        "fn3",
+      ]);
+    });
+
+    it("should pass metadata filters to both searches", async () => {
+      vi.mocked(repository.searchSimilar).mockResolvedValue([]);
+      const filters = {
+        county: "Lee",
+        className: "address",
+        fileGlob: "*.js",
+        repo: "private",
+      };
+
+      await transformExamplesHandler("owner names", 5, "hybrid", filters);
+
+      expect(repository.searchSimilar).toHaveBeenCalledWith(
+        mockDb,
+        vectorIndex,
+        mockEmbedding,
+        15,
+        filters,
+      );
+      expect(repository.searchKeyword).toHaveBeenCalledWith(
+        mockDb,
+        "owner names",
+        5,
+        filters,
+      );
+    });
+
+    it("should search the index of the active model", async () => {
+      vi.mocked(embeddings.getActiveEmbeddingModel).mockReturnValue(
+        "openai-compatible/nomic-embed-text",
+      );
+      vi.mocked(embeddings.getActiveEmbeddingDimensions).mockReturnValue(768);
+      vi.mocked(repository.searchSimilar).mockResolvedValue([]);
+
+      const [content] = (await transformExamplesHandler("test query")).content;
+      const data = JSON.parse(content.type === "text" ? content.text : "null");
+
+      expect(repository.getVectorIndex).toHaveBeenCalledWith(
+        mockDb,
+        "functions",
+        "openai-compatible/nomic-embed-text",
+        768,
+      );
+      expect(data.note).toBeUndefined();
+    });
+
+    it("should note when the active model's index is still being built", async () => {
+      vi.mocked(repository.getVectorIndex).mockResolvedValue({
+        ...vectorIndex,
+        readyAt: null,
+      });
+      vi.mocked(repository.searchSimilar).mockResolvedValue([]);
+
+      const [content] = (await transformExamplesHandler("test query")).content;
+      const data = JSON.parse(content.type === "text" ? content.text : "null");
+
+      expect(repository.searchSimilar).toHaveBeenCalled();
+      expect(data.note).toContain("still being embedded");
+    });
+
+    it("should fall back to keyword results without an index for the active model", async () => {
+      vi.mocked(repository.getVectorIndex).mockResolvedValue(null);
+
+      const [content] = (await transformExamplesHandler("test query")).content;
+      const data = JSON.parse(content.type === "text" ? content.text : "null");
+
+      expect(embeddings.embedText).not.toHaveBeenCalled();
+      expect(repository.searchSimilar).not.toHaveBeenCalled();
+      expect(repository.searchKeyword).toHaveBeenCalled();
+      expect(data.note).toContain("still being embedded");
+    });
+
+    it("should skip keyword search in vector mode", async () => {
+      vi.mocked(repository.searchSimilar).mockResolvedValue([]);
+
+      await transformExamplesHandler("test query", 5, "vector");
+
+      expect(repository.searchKeyword).not.toHaveBeenCalled();
     });
 
     it("should return empty matches when no results found", async () => {
@@ -176,9 +496,23 @@ describe("transformExamplesHandler", () => {
   describe("error handling", () => {
     const mockDb = {} as ReturnType<typeof connectionRef.getDbInstance>;
     const mockEmbedding = Array.from({ length: 1024 }, (_, i) => i / 1024);
+    const vectorIndex = {
+      id: 1,
+      kind: "functions" as const,
+      model: "text-embedding-3-small",
+      dimensions: 1024,
+      tableName: "functionEmbeddings",
+      createdAt: 0,
+      readyAt: 0,
+    };
 
     beforeEach(() => {
       vi.mocked(connectionRef.getDbInstance).mockReturnValue(mockDb);
+      vi.mocked(embeddings.getActiveEmbeddingModel).mockReturnValue(
+        "text-embedding-3-small",
+      );
+      vi.mocked(embeddings.getActiveEmbeddingDimensions).mockReturnValue(1024);
+      vi.mocked(repository.getVectorIndex).mockResolvedValue(vectorIndex);
     });
 
     it("should handle embedText errors", async () => {
@@ -1,18 +1,122 @@
+import path from "path";
 import { createTextResult } from "../lib/utils.ts";
 import { logger } from "../logger.ts";
-import { embedText } from "../lib/embeddings.ts";
+import {
+  embedText,
+  getActiveEmbeddingDimensions,
+  getActiveEmbeddingModel,
+} from "../lib/embeddings.ts";
 import { getDbInstance } from "../db/connectionRef.ts";
-import { searchSimilar } from "../db/repository.ts";
 import {
+  getVectorIndex,
+  listIndexStates,
+  searchKeyword,
+  searchSimilar,
+  type IndexState,
+} from "../db/repository.ts";
+import { reciprocalRankFusion } from "../lib/rankFusion.ts";
+import { githubPermalink } from "../lib/verifiedScripts.ts";
+import type { FunctionSearchFilters, FunctionWithChunks } from "../db/types.ts";
+import {
+  getConfig,
   hasEmbeddingProvider,
   getEmbeddingProviderDescription,
+  type VerifiedScriptsRepo,
 } from "../config.ts";
 
+export type SearchMode = "vector" | "keyword" | "hybrid";
+
+// Chunks fetched per requested function, so functions matching with several
+// chunks still leave room for topK distinct functions
+const VECTOR_CHUNK_OVERFETCH = 3;
+
 function clamp(value: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, value));
 }
 
-export async function transformExamplesHandler(text: string, topK?: number) {
+/**
+ * `score` depends on the mode: cosine similarity for `vector`, BM25 relevance
+ * for `keyword` and the reciprocal-rank fusion score for `hybrid`. The
+ * per-ranking details are included whenever the function appeared in them.
+ */
+interface ExampleMatch {
+  name: string;
+  code: string;
+  /** Label of the repository the example was indexed from. */
+  repo: string | null;
+  /** Relative to the repository root, or absolute when the repo is unknown. */
+  path: string;
+  startLine: number | null;
+  endLine: number | null;
+  /** Commit the repository was last indexed at. */
+  commit: string | null;
+  permalink: string | null;
+  /** Cosine distance of the best chunk; null for keyword-only matches. */
+  distance: number | null;
+  county: string | null;
+  fileRole: string | null;
+  lexiconClasses: string[];
+  score: number;
+  vector?: { rank: number; distance: number };
+  keyword?: { rank: number; bm25: number };
+}
+
+type Provenance = Pick<
+  ExampleMatch,
+  "path" | "startLine" | "endLine" | "commit" | "permalink"
+>;
+
+function provenanceOf(
+  fn: FunctionWithChunks | undefined,
+  states: IndexState[],
+  repos: VerifiedScriptsRepo[],
+): Provenance {
+  const startLine = fn?.startLine ?? null;
+  const endLine = fn?.endLine ?? null;
+  const filePath = fn?.filePath ?? "";
+  const state = states.find((s) => {
+    const relative = path.relative(s.repoPath, filePath);
+    return (
+      relative.length > 0 &&
+      !relative.startsWith("..") &&
+      !path.isAbsolute(relative)
+    );
+  });
+  if (!state) {
+    return {
+      path: filePath,
+      startLine,
+      endLine,
+      commit: null,
+      permalink: null,
+    };
+  }
+
+  const relative = path.relative(state.repoPath, filePath);
+  const remoteUrl = repos.find((repo) => repo.label === fn?.repo)?.url;
+  return {
+    path: relative.split(path.sep).join("/"),
+    startLine,
+    endLine,
+    commit: state.lastIndexedCommit,
+    permalink: remoteUrl
+      ? githubPermalink(
+          remoteUrl,
+          state.lastIndexedCommit,
+          relative,
+          startLine,
+          endLine,
+        )
+      : null,
+  };
+}
+
+export async function transformExamplesHandler(
+  text: string,
+  topK?: number,
+  mode: SearchMode = "hybrid",
+  filters: FunctionSearchFilters = {},
+) {
   try {
     if (!text || text.trim().length === 0) {
       return createTextResult({ error: "Text cannot be empty" });
@@ -23,24 +127,98 @@ export async function transformExamplesHandler(text: string, topK?: number) {
       return createTextResult({ error: "Database is not initialized" });
     }
 
-    // Check if embedding provider is configured before attempting to generate embeddings
-    if (!hasEmbeddingProvider()) {
-      return createTextResult({
-        error:
-          "No embedding provider configured. Set OPENAI_API_KEY, configure Vercel AI Gateway authentication, or configure AWS credentials for Bedrock.",
-      });
+    const k = clamp(typeof topK === "number" ? topK : 5, 1, 50);
+
+    let vectorResults: Awaited<ReturnType<typeof searchSimilar>> = [];
+    let note: string | undefined;
+    if (mode !== "keyword" && !hasEmbeddingProvider()) {
+      // Keyword search needs no provider, so only an explicit vector search fails
+      if (mode === "vector") {
+        return createTextResult({
+          error:
+            "No embedding provider configured. Set OPENAI_API_KEY, configure Vercel AI Gateway authentication, configure AWS credentials for Bedrock, or set EMBEDDING_PROVIDER=local for offline embeddings.",
+        });
+      }
+      note =
+        "No embedding provider configured; showing keyword matches only. Set OPENAI_API_KEY, configure Vercel AI Gateway authentication, configure AWS credentials for Bedrock, or set EMBEDDING_PROVIDER=local to add semantic matches.";
+    } else if (mode !== "keyword") {
+      // Only vectors of the active model are comparable with the query's
+      const vectorIndex = await getVectorIndex(
+        db,
+        "functions",
+        getActiveEmbeddingModel(),
+        getActiveEmbeddingDimensions(),
+      );
+      if (vectorIndex) {
+        const embedding = await embedText(text);
+        // Results are chunks, and one function can match with several
+        vectorResults = await searchSimilar(
+          db,
+          vectorIndex,
+          embedding,
+          k * VECTOR_CHUNK_OVERFETCH,
+          filters,
+        );
+      }
+      if (vectorIndex?.readyAt == null) {
+        note =
+          "Verified scripts are still being embedded with the active embedding model; vector matches may be incomplete.";
+      }
     }
+    const keywordResults =
+      mode !== "vector" ? await searchKeyword(db, text, k, filters) : [];
 
-    const embedding = await embedText(text);
-    const k = clamp(typeof topK === "number" ? topK : 5, 1, 50);
-    const results = await searchSimilar(db, embedding, k);
+    const states = await listIndexStates(db);
+    const repos = getConfig().VERIFIED_SCRIPTS_REPOS;
 
-    const matches = results.map((r) => ({
-      name: r.functionWithChunks.name,
-      code: r.functionWithChunks.code,
-    }));
+    // Vector results are per chunk; the fusion keeps each function's best rank
+    const fused = reciprocalRankFusion(
+      [
+        vectorResults.map((r) => r.functionWithChunks.id),
+        keywordResults.map((r) => r.functionWithChunks.id),
+      ],
+      (id) => id,
+    );
+    const matches: ExampleMatch[] = fused.slice(0, k).map((entry) => {
+      const [vectorRank, keywordRank] = entry.ranks;
+      // The first hit is the function's best-ranked chunk
+      const vectorHit = vectorResults.find(
+        (r) => r.functionWithChunks.id === entry.key,
+      );
+      const keywordHit = keywordResults.find(
+        (r) => r.functionWithChunks.id === entry.key,
+      );
+      const fn = (vectorHit ?? keywordHit)?.functionWithChunks;
+      const match: ExampleMatch = {
+        name: fn?.name ?? "",
+        code: fn?.code ?? "",
+        repo: fn?.repo ?? null,
+        ...provenanceOf(fn, states, repos),
+        distance: vectorHit?.distance ?? null,
+        county: fn?.county ?? null,
+        fileRole: fn?.fileRole ?? null,
+        lexiconClasses: fn?.lexiconClasses ?? [],
+        score:
+          mode === "vector"
+            ? 1 - (vectorHit?.distance ?? 1)
+            : mode === "keyword"
+              ? (keywordHit?.score ?? 0)
+              : entry.score,
+      };
+      if (vectorHit && vectorRank !== null) {
+        match.vector = { rank: vectorRank, distance: vectorHit.distance };
+      }
+      if (keywordHit && keywordRank !== null) {
+        match.keyword = { rank: keywordRank, bm25: keywordHit.score };
+      }
+      return match;
+    });
 
-    return createTextResult({ count: matches.length, matches });
+    return createTextResult({
+      count: matches.length,
+      matches,
+      ...(note ? { note } : {}),
+    });
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     const providerDescription = getEmbeddingProviderDescription();
@@ -50,6 +228,8 @@ export async function transformExamplesHandler(text: string, topK?: number) {
         error: errorMessage,
         textLength: typeof text === "string" ? text.length : undefined,
         topK,
+        mode,
+        filters,
         embeddingProvider: providerDescription,
       },
       "transformExamples failed",
@@ -0,0 +1,109 @@
+import { createTextResult } from "../lib/utils.ts";
+import { logger } from "../logger.ts";
+import {
+  getLexiconJsonByCid,
+  getLexiconStalenessMarker,
+} from "../lib/lexiconCache.ts";
+import { fetchManifestSnapshot } from "../lib/manifest.ts";
+import { SchemaRefResolver, flattenSchema } from "../lib/schemaRefs.ts";
+import { generateTypeModule, type TypegenClass } from "../lib/typegen.ts";
+import { applyPropertyTypeOverride, resolveClass } from "./classes.ts";
+import { buildDataGroupGraph, resolveDataGroup } from "./dataGroups.ts";
+import type { ClassSchema, DataGroupSchema } from "../types/lexicon.ts";
+
+export interface GenerateTypesTarget {
+  className?: string;
+  groupName?: string;
+}
+
+export interface GeneratedTypes {
+  /** Resolved manifest key of the class or data group. */
+  target: string;
+  kind: "class" | "dataGroup";
+  manifestCid: string;
+  classes: string[];
+  code: string;
+}
+
+/**
+ * Resolves a class, or every class of a data group, through the manifest and
+ * renders them as TypeScript interfaces and zod schemas. Throws with a
+ * user-facing message when the target is unknown.
+ */
+export async function generateLexiconTypes(
+  target: GenerateTypesTarget,
+): Promise<GeneratedTypes> {
+  const hasClass = Boolean(target.className);
+  if (hasClass === Boolean(target.groupName)) {
+    throw new Error("Provide exactly one of className or groupName");
+  }
+
+  const { manifest, cid: manifestCid } = await fetchManifestSnapshot();
+  let targetKey: string;
+  let classKeys: string[];
+
+  if (target.className) {
+    const resolved = resolveClass(manifest, target.className);
+    if (!resolved.key) {
+      throw new Error(`Unknown class '${target.className}'.`);
+    }
+    targetKey = resolved.key;
+    classKeys = [resolved.key];
+  } else {
+    const groupName = target.groupName ?? "";
+    const resolved = await resolveDataGroup(manifest, groupName);
+    if (!resolved.key) {
+      throw new Error(
+        `Unknown data group '${groupName}'. Available: ${resolved.available.join(", ")}`,
+      );
+    }
+    const groupSchema = await getLexiconJsonByCid<DataGroupSchema>(
+      resolved.cid,
+    );
+    const graph = buildDataGroupGraph(manifest, resolved.key, groupSchema);
+    targetKey = resolved.key;
+    classKeys = graph.nodes.filter((key) => manifest[key]?.type === "class");
+  }
+
+  const resolver = new SchemaRefResolver();
+  const classes: TypegenClass[] = [];
+  for (const key of classKeys) {
+    const cid = manifest[key].ipfsCid;
+    const raw = await getLexiconJsonByCid<ClassSchema>(cid);
+    const schema = applyPropertyTypeOverride(raw);
+    const dereferenced = await resolver.dereference(schema, schema);
+    classes.push({ key, cid, schema: flattenSchema(dereferenced) });
+  }
+
+  return {
+    target: targetKey,
+    kind: target.className ? "class" : "dataGroup",
+    manifestCid,
+    classes: classKeys,
+    code: generateTypeModule(classes),
+  };
+}
+
+export async function generateTypesHandler(target: GenerateTypesTarget) {
+  try {
+    const generated = await generateLexiconTypes(target);
+    return createTextResult({
+      ...generated,
+      ...getLexiconStalenessMarker(),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error(
+      {
+        className: target.className,
+        groupName: target.groupName,
+        error: errorMessage,
+      },
+      "generateTypes failed",
+    );
+    return createTextResult({
+      error: "Failed to generate types",
+      details: errorMessage,
+    });
+  }
+}
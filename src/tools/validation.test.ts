@@ -0,0 +1,334 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  validateAgainstClassSchemaHandler,
+  validateDataGroupBundleHandler,
+} from "./validation.ts";
+import { fetchManifest } from "../lib/manifest.ts";
+import type { Manifest, ClassSchema } from "../types/lexicon.ts";
+
+vi.mock("../lib/ipfs.ts", () => ({
+  getJsonByCid: vi.fn(),
+}));
+
+vi.mock("../lib/manifest.ts", () => ({
+  fetchManifest: vi.fn(),
+  normalizeKey: (key: string) => key.trim().toLowerCase(),
+}));
+
+const { getJsonByCid } = await import("../lib/ipfs.ts");
+const mockGetJsonByCid = vi.mocked(getJsonByCid);
+const mockFetchManifest = vi.mocked(fetchManifest);
+
+const manifest: Manifest = {
+  property: { ipfsCid: "cid-property", type: "class" },
+};
+
+const propertySchema: ClassSchema = {
+  type: "object",
+  required: ["parcel_identifier", "property_type"],
+  properties: {
+    parcel_identifier: { type: "string" },
+    property_type: {
+      type: "string",
+      enum: ["LandParcel", "Building", "Unit", "ManufacturedHome", "Other"],
+    },
+    source_http_request: { type: "object" },
+  },
+};
+
+function parse(
+  result: Awaited<ReturnType<typeof validateAgainstClassSchemaHandler>>,
+) {
+  const [content] = result.content;
+  return JSON.parse(content.type === "text" ? content.text : "null");
+}
+
+describe("validateAgainstClassSchemaHandler", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockFetchManifest.mockResolvedValue(manifest);
+    mockGetJsonByCid.mockResolvedValue(propertySchema);
+  });
+
+  it("validates a record against the resolved class schema", async () => {
+    const data = parse(
+      await validateAgainstClassSchemaHandler("Property", {
+        parcel_identifier: "123",
+        property_type: "Building",
+        source_http_request: {},
+      }),
+    );
+
+    expect(mockGetJsonByCid).toHaveBeenCalledWith("cid-property");
+    expect(data).toMatchObject({
+      className: "property",
+      schemaCid: "cid-property",
+      valid: true,
+      errors: [],
+    });
+  });
+
+  it("applies the property_type enum override", async () => {
+    const data = parse(
+      await validateAgainstClassSchemaHandler("property", {
+        parcel_identifier: "123",
+        property_type: "Other",
+      }),
+    );
+
+    expect(data.valid).toBe(false);
+    expect(data.errors).toEqual([
+      expect.objectContaining({ path: "$.property_type", keyword: "enum" }),
+    ]);
+    // The fetched schema itself is not mutated by the override.
+    expect(propertySchema.properties?.property_type.enum).toContain("Other");
+  });
+
+  it("follows CID-based $refs into other schema documents", async () => {
+    mockGetJsonByCid.mockImplementation(async (cid: string) =>
+      cid === "cid-defs"
+        ? { definitions: { parcelId: { type: "string", minLength: 3 } } }
+        : {
+            ...propertySchema,
+            properties: {
+              ...propertySchema.properties,
+              parcel_identifier: {
+                $ref: "ipfs://cid-defs#/definitions/parcelId",
+              },
+            },
+          },
+    );
+
+    const valid = parse(
+      await validateAgainstClassSchemaHandler("property", {
+        parcel_identifier: "123",
+        property_type: "Building",
+      }),
+    );
+    const invalid = parse(
+      await validateAgainstClassSchemaHandler("property", {
+        parcel_identifier: "1",
+        property_type: "Building",
+      }),
+    );
+
+    expect(valid).toMatchObject({ valid: true, errors: [] });
+    expect(invalid.errors).toEqual([
+      expect.objectContaining({
+        path: "$.parcel_identifier",
+        keyword: "minLength",
+      }),
+    ]);
+  });
+
+  it("validates recursive schemas through their definitions", async () => {
+    mockGetJsonByCid.mockResolvedValue({
+      ...propertySchema,
+      definitions: {
+        area: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            subareas: { type: "array", items: { $ref: "#/definitions/area" } },
+          },
+          additionalProperties: false,
+        },
+      },
+      properties: {
+        ...propertySchema.properties,
+        area: { $ref: "#/definitions/area" },
+      },
+    });
+
+    const data = parse(
+      await validateAgainstClassSchemaHandler("property", {
+        parcel_identifier: "123",
+        property_type: "Building",
+        area: { name: "lot", subareas: [{ name: "yard", subareas: [{}] }] },
+      }),
+    );
+    const invalid = parse(
+      await validateAgainstClassSchemaHandler("property", {
+        parcel_identifier: "123",
+        property_type: "Building",
+        area: { subareas: [{ subareas: [{ name: 1 }] }] },
+      }),
+    );
+
+    expect(data).toMatchObject({ valid: true, errors: [] });
+    expect(invalid.errors).toEqual([
+      expect.objectContaining({
+        path: "$.area.subareas[0].subareas[0].name",
+        keyword: "type",
+      }),
+    ]);
+  });
+
+  it("returns an error for unknown classes", async () => {
+    const data = parse(await validateAgainstClassSchemaHandler("nope", {}));
+    expect(data.error).toContain("Unknown class 'nope'");
+  });
+
+  it("returns an error when the schema cannot be fetched", async () => {
+    mockGetJsonByCid.mockRejectedValue(new Error("gateway down"));
+    const data = parse(await validateAgainstClassSchemaHandler("property", {}));
+    expect(data.error).toBe("Failed to fetch class schema");
+  });
+});
+
+describe("validateDataGroupBundleHandler", () => {
+  const bundleManifest: Manifest = {
+    County: { ipfsCid: "cid-county", type: "dataGroup" },
+    property: { ipfsCid: "cid-property", type: "class" },
+    address: { ipfsCid: "cid-address", type: "class" },
+  };
+
+  const schemas: Record<string, unknown> = {
+    "cid-county": {
+      type: "object",
+      required: ["label", "relationships"],
+      properties: {
+        label: { type: "string" },
+        relationships: {
+          type: "object",
+          properties: {
+            property_has_address: { type: "object" },
+            property_has_old_address: { type: "object", deprecated: true },
+          },
+        },
+      },
+    },
+    "cid-property": propertySchema,
+    "cid-address": {
+      type: "object",
+      required: ["street_name"],
+      properties: { street_name: { type: "string" } },
+    },
+  };
+
+  const validBundle = () => ({
+    "county.json": {
+      label: "County",
+      relationships: {
+        property_has_address: { "/": "./rel_property_address.json" },
+      },
+    },
+    "rel_property_address.json": {
+      from: { "/": "./property.json" },
+      to: { "/": "./address.json" },
+    },
+    "property.json": { parcel_identifier: "1", property_type: "Building" },
+    "address.json": { street_name: "Main" },
+  });
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockFetchManifest.mockResolvedValue(bundleManifest);
+    mockGetJsonByCid.mockImplementation(async (cid: string) => schemas[cid]);
+  });
+
+  it("validates root, relationship and class files of a valid bundle", async () => {
+    const data = parse(
+      await validateDataGroupBundleHandler("county", validBundle()),
+    );
+
+    expect(data.valid).toBe(true);
+    expect(data.rootFile).toBe("county.json");
+    expect(data.relationships).toEqual([
+      {
+        name: "property_has_address",
+        fromClass: "property",
+        toClass: "address",
+        deprecated: false,
+        files: ["rel_property_address.json"],
+        issues: [],
+      },
+    ]);
+    expect(
+      data.files.map((f: { file: string; role: string; schema: string }) => [
+        f.file,
+        f.role,
+        f.schema,
+      ]),
+    ).toEqual([
+      ["address.json", "class", "address"],
+      ["county.json", "root", "County"],
+      ["property.json", "class", "property"],
+      ["rel_property_address.json", "relationship", null],
+    ]);
+    expect(data.unreferencedFiles).toEqual([]);
+  });
+
+  it("reports deprecated and unparseable relationships, missing files and class errors", async () => {
+    const bundle: Record<string, unknown> = validBundle();
+    bundle["county.json"] = {
+      label: "County",
+      relationships: {
+        property_has_address: { "/": "./rel_property_address.json" },
+        property_has_old_address: { "/": "./missing.json" },
+        orphaned: null,
+      },
+    };
+    bundle["address.json"] = {};
+    bundle["notes.json"] = {};
+
+    const data = parse(await validateDataGroupBundleHandler("County", bundle));
+
+    expect(data.valid).toBe(false);
+    const byName = Object.fromEntries(
+      data.relationships.map((r: { name: string; issues: string[] }) => [
+        r.name,
+        r.issues,
+      ]),
+    );
+    expect(byName.property_has_old_address).toEqual([
+      "Relationship 'property_has_old_address' is deprecated",
+      "Linked file 'missing.json' was not provided",
+    ]);
+    expect(byName.orphaned).toEqual([
+      "Relationship 'orphaned' is not defined by data group 'County'",
+      "Relationship key 'orphaned' cannot be parsed into a class pair",
+    ]);
+    const address = data.files.find(
+      (f: { file: string }) => f.file === "address.json",
+    );
+    expect(address.errors).toEqual([
+      expect.objectContaining({
+        path: "$.street_name",
+        keyword: "required",
+      }),
+    ]);
+    expect(data.unreferencedFiles).toEqual(["notes.json"]);
+  });
+
+  it("follows CID-based $refs in class schemas of the bundle", async () => {
+    mockGetJsonByCid.mockImplementation(async (cid: string) =>
+      cid === "cid-address"
+        ? {
+            type: "object",
+            required: ["street_name"],
+            properties: {
+              street_name: { $ref: "ipfs://cid-defs#/definitions/street" },
+            },
+          }
+        : cid === "cid-defs"
+          ? { definitions: { street: { type: "string" } } }
+          : schemas[cid],
+    );
+
+    const data = parse(
+      await validateDataGroupBundleHandler("County", validBundle()),
+    );
+
+    expect(data.valid).toBe(true);
+    expect(mockGetJsonByCid).toHaveBeenCalledWith("cid-defs");
+  });
+
+  it("requires an identifiable root file", async () => {
+    const data = parse(
+      await validateDataGroupBundleHandler("County", { "a.json": {} }),
+    );
+    expect(data.error).toContain("Could not detect the root file");
+    expect(mockFetchManifest).not.toHaveBeenCalled();
+  });
+});
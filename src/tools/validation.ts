@@ -0,0 +1,423 @@
+import { createTextResult } from "../lib/utils.ts";
+import { logger } from "../logger.ts";
+import {
+  getLexiconJsonByCid,
+  getLexiconStalenessMarker,
+} from "../lib/lexiconCache.ts";
+import { fetchManifest, normalizeKey } from "../lib/manifest.ts";
+import { SchemaRefResolver } from "../lib/schemaRefs.ts";
+import {
+  validateAgainstSchema,
+  type SchemaValidationReport,
+} from "../lib/schemaValidator.ts";
+import { applyPropertyTypeOverride, resolveClass } from "./classes.ts";
+import {
+  extractClassPairs,
+  getRelationshipProperties,
+  resolveDataGroup,
+} from "./dataGroups.ts";
+import type {
+  ClassSchema,
+  DataGroupSchema,
+  JsonSchemaNode,
+  Manifest,
+} from "../types/lexicon.ts";
+
+/**
+ * Inlines the `$ref`s of `schema`, since the validator only follows local
+ * refs. When a referenced document cannot be loaded the schema is validated
+ * as is, so the unresolved ref is reported as a validation error.
+ */
+async function dereferenceForValidation(
+  resolver: SchemaRefResolver,
+  schema: JsonSchemaNode,
+): Promise<JsonSchemaNode> {
+  try {
+    return await resolver.dereference(schema, schema);
+  } catch (error) {
+    logger.warn(
+      { error: error instanceof Error ? error.message : String(error) },
+      "Failed to dereference schema for validation",
+    );
+    return schema;
+  }
+}
+
+/**
+ * Validate a candidate JSON record against the full schema of a lexicon
+ * class, reporting per-path errors, unknown keys, and deprecated usage.
+ */
+export async function validateAgainstClassSchemaHandler(
+  className: string,
+  data: unknown,
+) {
+  try {
+    const manifest = await fetchManifest();
+    const resolved = resolveClass(manifest, className);
+
+    if (!resolved.key) {
+      const message = `Unknown class '${className}'. Available: ${resolved.available.join(", ")}`;
+      logger.warn(message);
+      return createTextResult({ error: message });
+    }
+
+    let schema: ClassSchema;
+    try {
+      schema = await getLexiconJsonByCid<ClassSchema>(resolved.cid);
+    } catch (error) {
+      logger.error(
+        {
+          className,
+          cid: resolved.cid,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        "Failed to fetch class schema",
+      );
+      return createTextResult({ error: "Failed to fetch class schema" });
+    }
+
+    const report = validateAgainstSchema(
+      await dereferenceForValidation(
+        new SchemaRefResolver(),
+        applyPropertyTypeOverride(schema),
+      ),
+      data,
+    );
+
+    return createTextResult({
+      className: resolved.key,
+      schemaCid: resolved.cid,
+      ...report,
+      ...getLexiconStalenessMarker(),
+    });
+  } catch (error) {
+    logger.error(
+      {
+        className,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      "validateAgainstClassSchema failed",
+    );
+    return createTextResult({
+      error: "Internal error while validating against class schema",
+    });
+  }
+}
+
+export interface BundleFileReport extends SchemaValidationReport {
+  file: string;
+  role: "root" | "relationship" | "class";
+  /** Lexicon entry the file was validated against, or null if none. */
+  schema: string | null;
+}
+
+export interface BundleRelationshipReport {
+  name: string;
+  fromClass: string | null;
+  toClass: string | null;
+  deprecated: boolean;
+  /** Relationship files linked from the root for this relationship. */
+  files: string[];
+  issues: string[];
+}
+
+export interface BundleValidationReport {
+  dataGroup: string;
+  schemaCid: string;
+  rootFile: string;
+  valid: boolean;
+  relationships: BundleRelationshipReport[];
+  files: BundleFileReport[];
+  /** Provided files that no link in the bundle reaches. */
+  unreferencedFiles: string[];
+}
+
+// Used when the manifest has no schema for a relationship key, so relationship
+// files are still checked for their from/to links.
+const FALLBACK_RELATIONSHIP_SCHEMA: JsonSchemaNode = {
+  type: "object",
+  required: ["from", "to"],
+  properties: {
+    from: { type: "object", required: ["/"] },
+    to: { type: "object", required: ["/"] },
+  },
+};
+
+function normalizeFileName(name: string): string {
+  return name.trim().replace(/^\.\//, "");
+}
+
+/** Reads an IPLD-style link (`{ "/": "./file.json" }`) as a file name. */
+function readLink(value: unknown): string | null {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    const target = (value as Record<string, unknown>)["/"];
+    if (typeof target === "string" && target.trim() !== "") {
+      return normalizeFileName(target);
+    }
+  }
+  return null;
+}
+
+function findRootFile(files: Map<string, unknown>): string | null {
+  const candidates = [...files.entries()]
+    .filter(([, data]) => {
+      const rels = (data as Record<string, unknown> | null)?.relationships;
+      return typeof rels === "object" && rels !== null;
+    })
+    .map(([name]) => name);
+  return candidates.length === 1 ? candidates[0] : null;
+}
+
+function findManifestKey(
+  manifest: Manifest,
+  name: string,
+  type: "class" | "relationship",
+): string | undefined {
+  return Object.keys(manifest).find(
+    (k) => manifest[k].type === type && normalizeKey(k) === normalizeKey(name),
+  );
+}
+
+/**
+ * Validates a data-group submission: the root file against the data group
+ * schema, each relationship file against its relationship schema, and each
+ * linked class file against its class schema.
+ */
+export async function validateDataGroupBundle(
+  manifest: Manifest,
+  groupKey: string,
+  groupCid: string,
+  bundle: Map<string, unknown>,
+  rootFile: string,
+): Promise<BundleValidationReport> {
+  const schemaCache = new Map<string, Promise<JsonSchemaNode>>();
+  const loadSchema = (cid: string) => {
+    let pending = schemaCache.get(cid);
+    if (!pending) {
+      pending = getLexiconJsonByCid<JsonSchemaNode>(cid);
+      schemaCache.set(cid, pending);
+    }
+    return pending;
+  };
+
+  const resolver = new SchemaRefResolver(loadSchema);
+
+  const groupSchema = (await loadSchema(groupCid)) as DataGroupSchema;
+  const fileReports = new Map<string, BundleFileReport>();
+  const referenced = new Set<string>([rootFile]);
+
+  const validateFile = async (
+    file: string,
+    role: BundleFileReport["role"],
+    schemaName: string | null,
+    schema: JsonSchemaNode,
+  ) => {
+    const report = validateAgainstSchema(
+      await dereferenceForValidation(resolver, schema),
+      bundle.get(file),
+    );
+    fileReports.set(file, { file, role, schema: schemaName, ...report });
+  };
+
+  const root = bundle.get(rootFile) as Record<string, unknown>;
+  await validateFile(rootFile, "root", groupKey, groupSchema);
+
+  const relProps = getRelationshipProperties(groupSchema);
+  const rootRels =
+    typeof root?.relationships === "object" && root.relationships !== null
+      ? (root.relationships as Record<string, unknown>)
+      : {};
+
+  const relationships: BundleRelationshipReport[] = [];
+  for (const [name, value] of Object.entries(rootRels)) {
+    const issues: string[] = [];
+    const relKey = Object.keys(relProps).find(
+      (k) => normalizeKey(k) === normalizeKey(name),
+    );
+    const relSchema = relKey ? relProps[relKey] : undefined;
+    if (!relSchema) {
+      issues.push(
+        `Relationship '${name}' is not defined by data group '${groupKey}'`,
+      );
+    }
+    const deprecated = relSchema?.deprecated === true;
+    if (deprecated) {
+      issues.push(`Relationship '${name}' is deprecated`);
+    }
+    const pair = extractClassPairs(name);
+    if (!pair) {
+      issues.push(
+        `Relationship key '${name}' cannot be parsed into a class pair`,
+      );
+    }
+
+    const manifestRelKey = findManifestKey(manifest, name, "relationship");
+    let relationshipSchema = FALLBACK_RELATIONSHIP_SCHEMA;
+    if (manifestRelKey) {
+      try {
+        relationshipSchema = await loadSchema(manifest[manifestRelKey].ipfsCid);
+      } catch (error) {
+        issues.push(
+          `Failed to fetch relationship schema '${manifestRelKey}': ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
+    const links = value == null ? [] : Array.isArray(value) ? value : [value];
+    const relFiles: string[] = [];
+    for (const link of links) {
+      const relFile = readLink(link);
+      if (!relFile) {
+        issues.push(`Entry of '${name}' is not a {"/": <file>} link`);
+        continue;
+      }
+      relFiles.push(relFile);
+      referenced.add(relFile);
+
+      const relData = bundle.get(relFile) as
+        | Record<string, unknown>
+        | undefined;
+      if (relData === undefined) {
+        issues.push(`Linked file '${relFile}' was not provided`);
+        continue;
+      }
+      if (!fileReports.has(relFile)) {
+        await validateFile(
+          relFile,
+          "relationship",
+          manifestRelKey ?? null,
+          relationshipSchema,
+        );
+      }
+
+      for (const [side, index] of [
+        ["from", 0],
+        ["to", 1],
+      ] as const) {
+        const classFile = readLink(relData?.[side]);
+        if (!classFile) {
+          issues.push(`'${relFile}' has no '${side}' link`);
+          continue;
+        }
+        referenced.add(classFile);
+        if (!bundle.has(classFile)) {
+          issues.push(`Linked file '${classFile}' was not provided`);
+          continue;
+        }
+        if (!pair) continue;
+
+        const className = pair[index];
+        const resolved = resolveClass(manifest, className);
+        if (!resolved.key) {
+          issues.push(
+            `Class '${className}' referenced by '${name}' is not in the lexicon manifest`,
+          );
+          continue;
+        }
+
+        const existing = fileReports.get(classFile);
+        if (existing) {
+          if (existing.schema !== resolved.key) {
+            issues.push(
+              `'${classFile}' is linked as '${resolved.key}' but was already validated as '${existing.schema}'`,
+            );
+          }
+          continue;
+        }
+
+        try {
+          const classSchema = (await loadSchema(resolved.cid)) as ClassSchema;
+          await validateFile(
+            classFile,
+            "class",
+            resolved.key,
+            applyPropertyTypeOverride(classSchema),
+          );
+        } catch (error) {
+          issues.push(
+            `Failed to fetch class schema '${resolved.key}': ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      }
+    }
+
+    relationships.push({
+      name,
+      fromClass: pair?.[0] ?? null,
+      toClass: pair?.[1] ?? null,
+      deprecated,
+      files: relFiles,
+      issues,
+    });
+  }
+
+  const files = [...fileReports.values()].sort((a, b) =>
+    a.file.localeCompare(b.file),
+  );
+  const unreferencedFiles = [...bundle.keys()]
+    .filter((file) => !referenced.has(file))
+    .sort();
+
+  return {
+    dataGroup: groupKey,
+    schemaCid: groupCid,
+    rootFile,
+    valid:
+      files.every((f) => f.valid) &&
+      relationships.every((r) => r.issues.length === 0),
+    relationships: relationships.sort((a, b) => a.name.localeCompare(b.name)),
+    files,
+    unreferencedFiles,
+  };
+}
+
+export async function validateDataGroupBundleHandler(
+  groupName: string,
+  files: Record<string, unknown>,
+  rootFile?: string,
+) {
+  try {
+    const bundle = new Map(
+      Object.entries(files).map(([name, data]) => [
+        normalizeFileName(name),
+        data,
+      ]),
+    );
+    const root = rootFile ? normalizeFileName(rootFile) : findRootFile(bundle);
+    if (!root || !bundle.has(root)) {
+      const message = rootFile
+        ? `Root file '${rootFile}' was not provided.`
+        : "Could not detect the root file: exactly one file must contain a 'relationships' object, or pass rootFile.";
+      logger.warn(message);
+      return createTextResult({ error: message });
+    }
+
+    const manifest = await fetchManifest();
+    const resolved = await resolveDataGroup(manifest, groupName);
+    if (!resolved.key) {
+      const message = `Unknown data group '${groupName}'. Available: ${resolved.available.join(", ")}`;
+      logger.warn(message);
+      return createTextResult({ error: message });
+    }
+
+    const report = await validateDataGroupBundle(
+      manifest,
+      resolved.key,
+      resolved.cid,
+      bundle,
+      root,
+    );
+    return createTextResult({ ...report, ...getLexiconStalenessMarker() });
+  } catch (error) {
+    logger.error(
+      {
+        groupName,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      "validateDataGroupBundle failed",
+    );
+    return createTextResult({
+      error: "Internal error while validating data group bundle",
+    });
+  }
+}
@@ -1,3 +1,5 @@
+import type { VerifiedScriptsRepo } from "../config.js";
+
 export interface ScriptFunction {
   name: string;
   code: string;
@@ -7,9 +9,46 @@ export interface ScriptFunction {
 export interface IndexerOptions {
   clonePath?: string;
   fullRescan?: boolean;
+  /** Repository to index; defaults to the public county scripts. */
+  repo?: VerifiedScriptsRepo;
+  onProgress?: (progress: IndexProgress) => void;
+}
+
+export interface IndexProgress {
+  repo: string;
+  /** `cloning` covers cloning or pulling and finding changed files. */
+  phase: "cloning" | "embedding";
+  filesProcessed: number;
+  filesTotal: number;
+  functionsSaved: number;
 }
 
 export interface IndexSummary {
+  /** Label of the indexed repository. */
+  repo: string;
   processedFiles: string[];
   savedFunctions: number;
+  /** Saved functions that needed new embeddings. */
+  embeddedFunctions: number;
+  /** Saved functions whose unchanged code reused stored embeddings. */
+  reusedFunctions: number;
+  /** Functions whose file was renamed upstream, moved without re-embedding. */
+  movedFunctions: number;
+  /**
+   * Functions of files deleted upstream or missing from the checkout, and
+   * functions a changed file no longer contains.
+   */
+  removedFunctions: number;
+  /** Already indexed functions that were embedded for the active model. */
+  backfilledFunctions: number;
+  /** Files skipped because they could not be read or parsed. */
+  parseFailures: { filePath: string; error: string }[];
+}
+
+export interface RepositoriesIndexSummary {
+  /** Functions removed because their repository is no longer configured. */
+  purgedFunctions: number;
+  repos: IndexSummary[];
+  /** Repositories that could not be fetched or indexed. */
+  failures: { repo: string; error: string }[];
 }